@@ -24,6 +24,8 @@ export default [
         console: 'readonly',
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
+        setInterval: 'readonly',
+        clearInterval: 'readonly',
         fetch: 'readonly',
         localStorage: 'readonly',
         sessionStorage: 'readonly',
@@ -37,9 +39,28 @@ export default [
         Response: 'readonly',
         Headers: 'readonly',
         RequestInit: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
+        TextDecoder: 'readonly',
+        TextEncoder: 'readonly',
+        ReadableStream: 'readonly',
+        XMLHttpRequest: 'readonly',
+        ResizeObserver: 'readonly',
+        CustomEvent: 'readonly',
+        EventListener: 'readonly',
+        navigator: 'readonly',
+        indexedDB: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBRequest: 'readonly',
+        IDBTransaction: 'readonly',
+        IDBObjectStore: 'readonly',
+        DOMException: 'readonly',
         HTMLDivElement: 'readonly',
         HTMLTextAreaElement: 'readonly',
         HTMLInputElement: 'readonly',
+        HTMLElement: 'readonly',
+        KeyboardEvent: 'readonly',
+        EventTarget: 'readonly',
         ScrollBehavior: 'readonly',
         NodeJS: 'readonly',
       },
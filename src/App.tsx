@@ -1,55 +1,97 @@
 import { useState, useEffect } from 'react';
+import {
+  Plus,
+  MessageSquare,
+  FileText,
+  Settings,
+  Activity,
+  Download,
+  Keyboard,
+  Cpu,
+  Search,
+  ArrowUp,
+  ArrowDown,
+  Type,
+  Filter,
+  Sun,
+  Moon,
+  Monitor,
+} from 'lucide-react';
 import { Toaster } from 'react-hot-toast';
 import Sidebar from '@/components/Sidebar';
 import ChatInterface from '@/components/ChatInterface';
 import DocumentManager from '@/components/DocumentManager';
 import SettingsPanel from '@/components/SettingsPanel';
-import { ChatSession } from '@/types';
-import { chatStorageService } from '@/services/chatStorage';
-import { apiService } from '@/services/api';
-import { DEFAULT_SETTINGS } from '@/constants';
+import ImportDialog from '@/components/ImportDialog';
+import LicenseExpiryBanner from '@/components/LicenseExpiryBanner';
+import ConnectionBanner from '@/components/ConnectionBanner';
+import StatusDashboard from '@/components/StatusDashboard';
+import CommandPalette, { PaletteCommand } from '@/components/CommandPalette';
+import KeyboardShortcutsDialog from '@/components/KeyboardShortcutsDialog';
+import { ChatSession, ShortcutAction, ShortcutBindings } from '@/types';
+import { chatStorageService, ImportPreview, ImportMode, ConflictResolution } from '@/services/chatStorage';
+import { healthMonitorService, HealthSnapshot } from '@/services/healthMonitor';
+import { routerService, getRoutePath, AppRoute, AppView } from '@/services/router';
+import { shortcutService, getShortcutFromEvent, hasModifier, isEditableTarget } from '@/services/shortcuts';
+import { themeService } from '@/services/theme';
+import { i18nService, t } from '@/services/i18n';
+import { DEFAULT_SETTINGS, OPENAI_MODELS, SEARCH_TYPES } from '@/constants';
+import { getBranchSelectionsFor } from '@/utils';
 import toast from 'react-hot-toast';
 
-type ViewMode = 'chat' | 'documents' | 'settings';
-
 function App() {
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
-  const [viewMode, setViewMode] = useState<ViewMode>('chat');
+  const [route, setRoute] = useState<AppRoute>(routerService.getRoute());
   const [isLoading, setIsLoading] = useState(true);
-  const [apiHealth, setApiHealth] = useState<boolean | null>(null);
+  const [health, setHealth] = useState<HealthSnapshot>(healthMonitorService.getSnapshot());
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ImportPreview | null>(null);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(shortcutService.getBindings());
+
+  // Keep the connection state current for the sidebar indicator, banner and status view
+  useEffect(() => healthMonitorService.subscribe(setHealth), []);
+
+  const apiHealth = health.status === 'online' ? true : health.status === 'offline' ? false : null;
 
-  // Load sessions and check API health on mount
+  // The URL decides which screen is shown, so views can be bookmarked and back/forward work
+  useEffect(() => routerService.subscribe(setRoute), []);
+
+  const viewMode: AppView = route.view === 'not_found' ? 'chat' : route.view;
+
+  const navigateTo = (view: AppView, sessionId?: string, replace = false) => {
+    routerService.navigate(getRoutePath(view, sessionId), { replace });
+  };
+
+  // Load sessions on mount
   useEffect(() => {
     const initializeApp = async () => {
       try {
         // Load existing sessions
-        const existingSessions = chatStorageService.getSessions();
+        const existingSessions = await chatStorageService.getSessions();
         setSessions(existingSessions);
 
-        // Check API health
-        try {
-          await apiService.getHealth();
-          setApiHealth(true);
-        } catch (error) {
-          setApiHealth(false);
-          toast.error('Cannot connect to RAG API. Please ensure the backend is running.');
-        }
-
         // Create default session if none exist
         if (existingSessions.length === 0) {
-          const defaultSession = chatStorageService.createSession(
-            'New Chat Session',
+          const defaultSession = await chatStorageService.createSession(
+            t('app.defaultSessionName'),
             DEFAULT_SETTINGS
           );
           setCurrentSession(defaultSession);
           setSessions([defaultSession]);
         } else {
-          setCurrentSession(existingSessions[0]);
+          // Open the session named in the URL when there is one; unknown ids are handled below
+          const initialRoute = routerService.getRoute();
+          const routedSession = initialRoute.view === 'chat' && initialRoute.sessionId
+            ? existingSessions.find(s => s.id === initialRoute.sessionId)
+            : undefined;
+          setCurrentSession(routedSession || existingSessions[0]);
         }
       } catch (error) {
         console.error('Error initializing app:', error);
-        toast.error('Failed to initialize application');
+        toast.error(t('app.initializeFailed'));
       } finally {
         setIsLoading(false);
       }
@@ -58,18 +100,45 @@ function App() {
     initializeApp();
   }, []);
 
+  // Keep the open chat in step with the URL: follow /chat/:sessionId (including back/forward),
+  // fill in the id for a bare /chat and redirect unknown sessions and paths instead of showing nothing
+  useEffect(() => {
+    if (isLoading || !currentSession) return;
+
+    if (route.view === 'not_found') {
+      toast.error(t('app.pageNotFound', { path: route.path }));
+      navigateTo('chat', currentSession.id, true);
+      return;
+    }
+
+    if (route.view !== 'chat' || route.sessionId === currentSession.id) return;
+
+    const session = route.sessionId ? sessions.find(s => s.id === route.sessionId) : undefined;
+    if (session) {
+      setCurrentSession(session);
+    } else {
+      if (route.sessionId) toast.error(t('app.sessionNotFound'));
+      navigateTo('chat', currentSession.id, true);
+    }
+  }, [route, isLoading, sessions, currentSession]);
+
   // Create new chat session
-  const createNewSession = () => {
-    const newSession = chatStorageService.createSession(
-      `New Chat Session ${sessions.length + 1}`,
-      currentSession?.settings || DEFAULT_SETTINGS
-    );
-    
-    setSessions(prev => [newSession, ...prev]);
-    setCurrentSession(newSession);
-    setViewMode('chat');
-    
-    toast.success('New chat session created');
+  const createNewSession = async () => {
+    try {
+      const newSession = await chatStorageService.createSession(
+        t('app.numberedSessionName', { number: sessions.length + 1 }),
+        // Carry over model preferences, but start the new chat with an unscoped knowledge base
+        { ...(currentSession?.settings || DEFAULT_SETTINGS), selected_documents: [] }
+      );
+      
+      setSessions(prev => [newSession, ...prev]);
+      setCurrentSession(newSession);
+      navigateTo('chat', newSession.id);
+      
+      toast.success(t('app.sessionCreated'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('app.createSessionFailed'));
+    }
   };
 
   // Switch to a different session
@@ -77,38 +146,61 @@ function App() {
     const session = sessions.find(s => s.id === sessionId);
     if (session) {
       setCurrentSession(session);
-      setViewMode('chat');
+      navigateTo('chat', session.id);
+    }
+  };
+
+  // Open a message found through the sidebar search, switching to the branch that contains it
+  const openSearchResult = (sessionId: string, messageId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (session) {
+      const branches = getBranchSelectionsFor(session.messages, messageId);
+      const updatedSession = { ...session, activeBranches: { ...session.activeBranches, ...branches } };
+
+      setCurrentSession(updatedSession);
+      setSessions(prev => prev.map(s => s.id === sessionId ? updatedSession : s));
+      navigateTo('chat', sessionId);
+      setFocusMessageId(messageId);
+
+      chatStorageService.updateActiveBranches(sessionId, branches).catch((error) => {
+        console.error('Failed to save branch selection:', error);
+      });
     }
   };
 
   // Delete a session
-  const deleteSession = (sessionId: string) => {
-    if (chatStorageService.deleteSession(sessionId)) {
-      setSessions(prev => prev.filter(s => s.id !== sessionId));
-      
-      // If we deleted the current session, switch to another one
-      if (currentSession?.id === sessionId) {
-        const remainingSessions = sessions.filter(s => s.id !== sessionId);
-        if (remainingSessions.length > 0) {
-          setCurrentSession(remainingSessions[0]);
-        } else {
-          // Create a new session if none remain
-          const newSession = chatStorageService.createSession(
-            'New Chat Session',
-            DEFAULT_SETTINGS
-          );
-          setCurrentSession(newSession);
-          setSessions([newSession]);
+  const deleteSession = async (sessionId: string) => {
+    try {
+      if (await chatStorageService.deleteSession(sessionId)) {
+        setSessions(prev => prev.filter(s => s.id !== sessionId));
+        
+        // If we deleted the current session, switch to another one
+        if (currentSession?.id === sessionId) {
+          const remainingSessions = sessions.filter(s => s.id !== sessionId);
+          let nextSession = remainingSessions[0];
+          if (!nextSession) {
+            // Create a new session if none remain
+            nextSession = await chatStorageService.createSession(
+              t('app.defaultSessionName'),
+              DEFAULT_SETTINGS
+            );
+            setSessions([nextSession]);
+          }
+          setCurrentSession(nextSession);
+          // Replace rather than push so back does not lead to the deleted session
+          if (viewMode === 'chat') navigateTo('chat', nextSession.id, true);
         }
+        
+        toast.success(t('app.sessionDeleted'));
       }
-      
-      toast.success('Chat session deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('app.deleteSessionFailed'));
     }
   };
 
   // Update session settings
-  const updateSessionSettings = (sessionId: string, settings: Partial<ChatSession['settings']>) => {
-    if (chatStorageService.updateSessionSettings(sessionId, settings)) {
+  const updateSessionSettings = async (sessionId: string, settings: Partial<ChatSession['settings']>) => {
+    if (await chatStorageService.updateSessionSettings(sessionId, settings).catch(() => false)) {
       setSessions(prev => 
         prev.map(s => 
           s.id === sessionId 
@@ -121,43 +213,210 @@ function App() {
         setCurrentSession(prev => prev ? { ...prev, settings: { ...prev.settings, ...settings } } : null);
       }
       
-      toast.success('Settings updated');
+      toast.success(t('app.settingsUpdated'));
+    } else {
+      toast.error(t('app.updateSettingsFailed'));
     }
   };
 
   // Export all sessions
-  const exportSessions = () => {
+  const exportSessions = async () => {
     try {
-      chatStorageService.exportSessions();
-      toast.success('Chat sessions exported successfully');
+      await chatStorageService.exportSessions();
+      toast.success(t('app.sessionsExported'));
     } catch (error) {
-      toast.error('Failed to export sessions');
+      toast.error(t('app.exportFailed'));
     }
   };
 
-  // Import sessions
+  // Import sessions: read the file and show a preview before anything is written
   const importSessions = async (file: File) => {
     try {
-      const success = await chatStorageService.importSessions(file);
-      if (success) {
-        const updatedSessions = chatStorageService.getSessions();
-        setSessions(updatedSessions);
-        toast.success('Chat sessions imported successfully');
-      } else {
-        toast.error('Invalid file format or corrupted data');
-      }
+      const incoming = await chatStorageService.readImportFile(file);
+      setPendingImport(await chatStorageService.previewImport(incoming));
     } catch (error) {
-      toast.error('Failed to import sessions');
+      toast.error(error instanceof Error ? error.message : t('app.importFailed'));
     }
   };
 
+  const confirmImport = async (mode: ImportMode, resolutions: Record<string, ConflictResolution>) => {
+    if (!pendingImport) return;
+
+    try {
+      await chatStorageService.applyImport(pendingImport, mode, resolutions);
+      const updatedSessions = await chatStorageService.getSessions();
+      setSessions(updatedSessions);
+      const nextSession = updatedSessions.find(s => s.id === currentSession?.id) || updatedSessions[0] || null;
+      setCurrentSession(nextSession);
+      if (viewMode === 'chat' && nextSession) navigateTo('chat', nextSession.id, true);
+      toast.success(t('app.sessionsImported'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('app.importFailed'));
+    } finally {
+      setPendingImport(null);
+    }
+  };
+
+  // Session list order is the sidebar order; wraps around at either end
+  const switchSessionBy = (offset: number) => {
+    if (sessions.length < 2) return;
+    const index = sessions.findIndex(s => s.id === currentSession?.id);
+    const next = sessions[(index + offset + sessions.length) % sessions.length];
+    switchSession(next.id);
+  };
+
+  // Focus and the document selector live in ChatInterface, so open the chat first if needed
+  const sendToChat = (eventName: string) => {
+    if (viewMode !== 'chat') navigateTo('chat', currentSession?.id);
+    setTimeout(() => window.dispatchEvent(new CustomEvent(eventName)), 0);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'command_palette':
+        setShowCommandPalette(show => !show);
+        break;
+      case 'show_shortcuts':
+        setShowShortcutHelp(true);
+        break;
+      case 'new_session':
+        createNewSession();
+        break;
+      case 'focus_input':
+        sendToChat('chat:focus-input');
+        break;
+      case 'toggle_document_selector':
+        sendToChat('chat:toggle-document-selector');
+        break;
+      case 'next_session':
+        switchSessionBy(1);
+        break;
+      case 'previous_session':
+        switchSessionBy(-1);
+        break;
+    }
+  };
+
+  // An answer that was interrupted by leaving its chat is saved in the background;
+  // refresh that session without switching back to it
+  useEffect(() => {
+    const onMessageSaved = (event: CustomEvent<{ session: ChatSession }>) => {
+      const savedSession = event.detail.session;
+      setSessions(prev => prev.map(s => s.id === savedSession.id ? savedSession : s));
+      setCurrentSession(prev => prev?.id === savedSession.id ? savedSession : prev);
+    };
+    window.addEventListener('chat:message-saved', onMessageSaved as EventListener);
+    return () => window.removeEventListener('chat:message-saved', onMessageSaved as EventListener);
+  }, []);
+
+  useEffect(() => {
+    const loadShortcuts = () => setShortcuts(shortcutService.getBindings());
+    window.addEventListener('shortcuts:updated', loadShortcuts);
+    return () => window.removeEventListener('shortcuts:updated', loadShortcuts);
+  }, []);
+
+  // Global shortcuts. Re-registered on every render so handlers see the current sessions.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isLoading || pendingImport || event.repeat) return;
+
+      const shortcut = getShortcutFromEvent(event);
+      const action = shortcut ? shortcutService.getAction(shortcuts, shortcut) : null;
+      if (!shortcut || !action) return;
+
+      // The palette toggles itself; other shortcuts wait until the overlays are closed
+      if ((showCommandPalette && action !== 'command_palette') || showShortcutHelp) return;
+      if (!hasModifier(shortcut) && isEditableTarget(event.target)) return;
+
+      event.preventDefault();
+      runShortcut(action);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toggleDocumentInScope = (fileName: string) => {
+    if (!currentSession) return;
+    const selected = currentSession.settings.selected_documents || [];
+    updateSessionSettings(currentSession.id, {
+      selected_documents: selected.includes(fileName)
+        ? selected.filter(name => name !== fileName)
+        : [...selected, fileName],
+    });
+  };
+
+  const getPaletteCommands = (): PaletteCommand[] => {
+    const settings = currentSession?.settings;
+    const updateSettings = (changes: Partial<ChatSession['settings']>) => {
+      if (currentSession) updateSessionSettings(currentSession.id, changes);
+    };
+
+    return [
+      { id: 'new-session', group: 'Actions', label: t('shortcuts.newSession'), icon: Plus, shortcut: shortcuts.new_session, run: createNewSession },
+      { id: 'open-chat', group: 'Actions', label: t('palette.openChat'), icon: MessageSquare, run: () => navigateTo('chat', currentSession?.id) },
+      { id: 'open-documents', group: 'Actions', label: t('palette.openDocuments'), keywords: ['upload', 'knowledge base'], icon: FileText, run: () => navigateTo('documents') },
+      { id: 'open-settings', group: 'Actions', label: t('palette.openSettings'), keywords: ['preferences', 'license'], icon: Settings, run: () => navigateTo('settings') },
+      { id: 'open-status', group: 'Actions', label: t('palette.openStatus'), keywords: ['health'], icon: Activity, run: () => navigateTo('status') },
+      { id: 'export-sessions', group: 'Actions', label: t('palette.exportSessions'), keywords: ['backup', 'download'], icon: Download, run: exportSessions },
+      { id: 'focus-input', group: 'Actions', label: t('shortcuts.focusInput'), icon: Type, shortcut: shortcuts.focus_input, run: () => sendToChat('chat:focus-input') },
+      { id: 'toggle-documents', group: 'Actions', label: t('shortcuts.toggleDocumentSelector'), keywords: ['scope'], icon: Filter, shortcut: shortcuts.toggle_document_selector, run: () => sendToChat('chat:toggle-document-selector') },
+      { id: 'next-session', group: 'Actions', label: t('shortcuts.nextSession'), icon: ArrowDown, shortcut: shortcuts.next_session, run: () => switchSessionBy(1) },
+      { id: 'previous-session', group: 'Actions', label: t('shortcuts.previousSession'), icon: ArrowUp, shortcut: shortcuts.previous_session, run: () => switchSessionBy(-1) },
+      { id: 'shortcuts', group: 'Actions', label: t('palette.keyboardShortcuts'), keywords: ['help', 'keys'], icon: Keyboard, shortcut: shortcuts.show_shortcuts, run: () => setShowShortcutHelp(true) },
+      ...([
+        ['light', 'palette.lightTheme', Sun],
+        ['dark', 'palette.darkTheme', Moon],
+        ['system', 'palette.systemTheme', Monitor],
+      ] as const).map(([theme, label, icon]): PaletteCommand => ({
+        id: `theme:${theme}`,
+        group: 'Actions',
+        label: t(label),
+        keywords: ['theme', 'appearance', 'dark mode'],
+        icon,
+        active: themeService.getPreference() === theme,
+        run: () => themeService.setPreference(theme),
+      })),
+      ...OPENAI_MODELS.map((model): PaletteCommand => ({
+        id: `model:${model.value}`,
+        group: 'Actions',
+        label: t('palette.changeModel', { model: model.label }),
+        description: t(model.description),
+        keywords: ['model', model.value],
+        icon: Cpu,
+        active: settings?.model === model.value,
+        run: () => updateSettings({ model: model.value }),
+      })),
+      ...[...SEARCH_TYPES, { value: undefined, label: 'searchTypes.serverDefault', description: 'searchTypes.serverDefaultDescription' } as const]
+        .map((searchType): PaletteCommand => ({
+          id: `search-type:${searchType.value || 'default'}`,
+          group: 'Actions',
+          label: t('palette.changeSearchType', { searchType: t(searchType.label) }),
+          description: t(searchType.description),
+          keywords: ['search type', 'strategy'],
+          icon: Search,
+          active: settings?.search_type === searchType.value,
+          run: () => updateSettings({ search_type: searchType.value }),
+        })),
+      ...sessions.map((session): PaletteCommand => ({
+        id: `session:${session.id}`,
+        group: 'Sessions',
+        label: session.name,
+        description: t('common.messageCount', { count: session.messages.length }),
+        icon: MessageSquare,
+        active: session.id === currentSession?.id,
+        run: () => switchSession(session.id),
+      })),
+    ];
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600 mx-auto mb-4"></div>
-          <h2 className="text-xl font-semibold text-gray-700">Loading RAG Assistant...</h2>
-          <p className="text-gray-500 mt-2">Initializing your AI-powered assistant</p>
+          <h2 className="text-xl font-semibold text-gray-700">{t('app.loadingTitle')}</h2>
+          <p className="text-gray-500 mt-2">{t('app.loadingSubtitle')}</p>
         </div>
       </div>
     );
@@ -172,19 +431,28 @@ function App() {
           currentSession={currentSession}
           onCreateSession={createNewSession}
           onSwitchSession={switchSession}
+          onOpenSearchResult={openSearchResult}
           onDeleteSession={deleteSession}
           onExportSessions={exportSessions}
           onImportSessions={importSessions}
           viewMode={viewMode}
-          onViewModeChange={setViewMode}
+          onViewModeChange={(mode) => navigateTo(mode, mode === 'chat' ? currentSession?.id : undefined)}
           apiHealth={apiHealth}
+          commandPaletteShortcut={shortcuts.command_palette}
+          onOpenCommandPalette={() => setShowCommandPalette(true)}
+          onShowShortcuts={() => setShowShortcutHelp(true)}
         />
 
         {/* Main Content */}
         <div className="flex-1 flex flex-col overflow-hidden">
+          <ConnectionBanner health={health} />
+          <LicenseExpiryBanner onOpenSettings={() => navigateTo('settings')} />
+
           {viewMode === 'chat' && currentSession && (
             <ChatInterface
               session={currentSession}
+              focusMessageId={focusMessageId}
+              onFocusMessageHandled={() => setFocusMessageId(null)}
               onSessionUpdate={(updatedSession) => {
                 setCurrentSession(updatedSession);
                 setSessions(prev => 
@@ -198,6 +466,10 @@ function App() {
             <DocumentManager />
           )}
 
+          {viewMode === 'status' && (
+            <StatusDashboard health={health} />
+          )}
+
           {viewMode === 'settings' && currentSession && (
             <SettingsPanel
               session={currentSession}
@@ -209,13 +481,38 @@ function App() {
         </div>
       </div>
 
+      {showCommandPalette && (
+        <CommandPalette
+          commands={getPaletteCommands()}
+          selectedDocuments={currentSession?.settings.selected_documents || []}
+          onToggleDocument={toggleDocumentInScope}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+
+      {showShortcutHelp && (
+        <KeyboardShortcutsDialog
+          bindings={shortcuts}
+          onClose={() => setShowShortcutHelp(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportDialog
+          preview={pendingImport}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       <Toaster
-        position="top-right"
+        position={i18nService.getDirection() === 'rtl' ? 'top-left' : 'top-right'}
         toastOptions={{
           duration: 4000,
           style: {
-            background: '#363636',
-            color: '#fff',
+            // Palette variables, so toasts follow the light/dark theme
+            background: 'rgb(var(--color-gray-800))',
+            color: 'rgb(var(--color-white))',
             borderRadius: '8px',
             padding: '12px 16px',
           },
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Toaster } from 'react-hot-toast';
+import App from '@/App';
+import LicenseGate from '@/components/LicenseGate';
+import { i18nService } from '@/services/i18n';
+
+// Components read translated messages while rendering, so a language change re-renders the tree.
+// Nothing is remounted: storage, license checks, health polling, streams and uploads carry on.
+const AppRoot: React.FC = () => {
+  const [, setLanguage] = useState(i18nService.getLanguage());
+
+  useEffect(() => {
+    const onLanguageUpdated = () => setLanguage(i18nService.getLanguage());
+    window.addEventListener('language:updated', onLanguageUpdated);
+    return () => window.removeEventListener('language:updated', onLanguageUpdated);
+  }, []);
+
+  return (
+    <>
+      <LicenseGate>
+        <App />
+      </LicenseGate>
+      <Toaster 
+        position={i18nService.getDirection() === 'rtl' ? 'top-left' : 'top-right'}
+        toastOptions={{
+          duration: 4000,
+          style: {
+            // Palette variables, so toasts follow the light/dark theme
+            background: 'rgb(var(--color-gray-800))',
+            color: 'rgb(var(--color-white))',
+          },
+          success: {
+            duration: 3000,
+            iconTheme: {
+              primary: '#10b981',
+              secondary: '#fff',
+            },
+          },
+          error: {
+            duration: 5000,
+            iconTheme: {
+              primary: '#ef4444',
+              secondary: '#fff',
+            },
+          },
+        }}
+      />
+    </>
+  );
+};
+
+export default AppRoot;
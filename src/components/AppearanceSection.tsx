@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Palette, Sun, Moon, Monitor } from 'lucide-react';
+import { themeService, ThemePreference } from '@/services/theme';
+import { t, MessageKey } from '@/services/i18n';
+import { cn } from '@/utils';
+
+const THEME_OPTIONS: Array<{ value: ThemePreference; label: MessageKey; description: MessageKey; icon: React.ElementType }> = [
+  { value: 'light', label: 'appearance.light', description: 'appearance.lightDescription', icon: Sun },
+  { value: 'dark', label: 'appearance.dark', description: 'appearance.darkDescription', icon: Moon },
+  { value: 'system', label: 'appearance.system', description: 'appearance.systemDescription', icon: Monitor },
+];
+
+// Theme is a browser preference, applied immediately rather than saved with the session
+const AppearanceSection: React.FC = () => {
+  const [preference, setPreference] = useState<ThemePreference>(themeService.getPreference());
+
+  const handleChange = (value: ThemePreference) => {
+    setPreference(value);
+    themeService.setPreference(value);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
+          <Palette className="w-5 h-5 text-yellow-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{t('appearance.title')}</h3>
+          <p className="text-sm text-gray-500">{t('appearance.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {THEME_OPTIONS.map(({ value, label, description, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => handleChange(value)}
+            aria-pressed={preference === value}
+            className={cn(
+              "p-4 text-start border rounded-lg transition-all duration-200 flex items-start space-x-3",
+              preference === value
+                ? "border-primary-300 bg-primary-50"
+                : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+            )}
+          >
+            <Icon className={cn("w-5 h-5 mt-0.5", preference === value ? "text-primary-600" : "text-gray-400")} />
+            <div>
+              <h4 className="font-medium text-gray-900">{t(label)}</h4>
+              <p className="text-sm text-gray-500">{t(description)}</p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AppearanceSection;
@@ -1,127 +1,342 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Settings, FileText } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, User, Square, Settings, FileText, Pencil, RefreshCw, ChevronLeft, ChevronRight, Download } from 'lucide-react';
 import { ChatSession, ChatMessage, Utterance } from '@/types';
 import { apiService } from '@/services/api';
+import { ApiError, getApiErrorMessage } from '@/services/apiErrors';
 import { chatStorageService } from '@/services/chatStorage';
-import { formatRelativeTime, cn } from '@/utils';
+import { transcriptExportService, TranscriptFormat } from '@/services/transcriptExport';
+import { t, MessageKey } from '@/services/i18n';
+import {
+  formatRelativeTime,
+  parseContextSources,
+  getActivePath,
+  getSiblings,
+  appendMessageToSession,
+  getSearchTypeName,
+  ROOT_BRANCH_KEY,
+  cn,
+} from '@/utils';
+import { CHAT_UI } from '@/constants';
 import DocumentSelector from './DocumentSelector';
+import SourceCitations from './SourceCitations';
+import MarkdownContent from './MarkdownContent';
 import toast from 'react-hot-toast';
 
+const STREAMING_MESSAGE_ID = 'streaming';
+
+const EXPORT_FORMATS: Array<[TranscriptFormat, MessageKey]> = [
+  ['markdown', 'chat.exportMarkdown'],
+  ['html', 'chat.exportHtml'],
+  ['pdf', 'chat.exportPdf'],
+];
+
 interface ChatInterfaceProps {
   session: ChatSession;
   onSessionUpdate: (session: ChatSession) => void;
+  focusMessageId?: string | null;
+  onFocusMessageHandled?: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate, focusMessageId, onFocusMessageHandled }) => {
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
-  const [selectedDocuments, setSelectedDocuments] = useState<string[]>([]);
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const stopRequestedRef = useRef(false);
+  const mountedRef = useRef(true);
+  const streamSessionIdRef = useRef(session.id);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
+  const selectedDocuments = session.settings.selected_documents || [];
+
+  // The conversation as currently shown: one message per turn along the selected branches
+  const activePath = useMemo(() => getActivePath(session), [session]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [session.messages]);
+  }, [session.messages, streamingContent]);
+
+  // Scroll to and flash a message opened from the sidebar search
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const element = document.getElementById(`message-${focusMessageId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: CHAT_UI.SCROLL_BEHAVIOR, block: 'center' });
+    setHighlightedMessageId(focusMessageId);
+    onFocusMessageHandled?.();
+  }, [focusMessageId, session.messages, onFocusMessageHandled]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Keyboard shortcut from App
+  useEffect(() => {
+    const focusInput = () => inputRef.current?.focus();
+    window.addEventListener('chat:focus-input', focusInput);
+    return () => window.removeEventListener('chat:focus-input', focusInput);
+  }, []);
+
+  // Leaving the chat view keeps an in-flight stream running; its answer is saved in the background
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Abort any in-flight stream when switching sessions
+  useEffect(() => {
+    if (streamSessionIdRef.current === session.id) return;
+    streamSessionIdRef.current = session.id;
+    abortControllerRef.current?.abort();
+  }, [session.id]);
 
   // Auto-focus input when component mounts
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return;
-
-    const userMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
-      role: 'user',
-      content: inputMessage.trim(),
-    };
+  // Save a message under the given parent and return the updated session
+  const saveMessage = async (
+    baseSession: ChatSession,
+    message: Omit<ChatMessage, 'id' | 'timestamp'>
+  ): Promise<ChatSession | null> => {
+    try {
+      const savedMessage = await chatStorageService.addMessage(baseSession.id, message);
+      if (!savedMessage) return null;
 
-    // Add user message to session
-    const newUserMessage = chatStorageService.addMessage(session.id, userMessage);
-    if (newUserMessage) {
-      const updatedSession = {
-        ...session,
-        messages: [...session.messages, newUserMessage],
-      };
+      const updatedSession = appendMessageToSession(baseSession, savedMessage);
       onSessionUpdate(updatedSession);
+      return updatedSession;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('chat.saveMessageFailed'));
+      return null;
     }
+  };
+
+  // Save a message for a session that is no longer shown; App picks it up from the event
+  const saveMessageInBackground = async (
+    baseSession: ChatSession,
+    message: Omit<ChatMessage, 'id' | 'timestamp'>
+  ): Promise<void> => {
+    try {
+      const savedMessage = await chatStorageService.addMessage(baseSession.id, message);
+      if (!savedMessage) return;
+
+      window.dispatchEvent(new CustomEvent('chat:message-saved', {
+        detail: { session: appendMessageToSession(baseSession, savedMessage) },
+      }));
+    } catch (error) {
+      console.error('Failed to save answer in the background:', error);
+    }
+  };
+
+  // Ask the RAG API about the conversation ending in `history` and save the answer as its child
+  const requestAnswer = async (baseSession: ChatSession, history: ChatMessage[]) => {
+    const parent = history[history.length - 1];
 
-    const messageToSend = inputMessage.trim();
-    setInputMessage('');
     setIsLoading(true);
     setIsTyping(true);
+    setStreamingContent('');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    stopRequestedRef.current = false;
+    let partialContent = '';
+
+    // Once the chat view has been left, App picks the answer up from the saved-message event
+    const saveAnswer = async (message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
+      if (mountedRef.current) {
+        await saveMessage(baseSession, message);
+      } else {
+        await saveMessageInBackground(baseSession, message);
+      }
+    };
 
     try {
-      // Prepare transcript for RAG API
-      const transcript: Utterance[] = [
-        ...session.messages.map(msg => ({
-          role: (msg.role === 'user' ? 'user' : 'agent') as 'user' | 'agent',
-          content: msg.content,
-        })),
-        { role: 'user' as const, content: messageToSend },
-      ];
-
-      // Send to RAG API
-      const response = await apiService.processRAGQuery({
-        transcript,
-        search_type: session.settings.search_type,
-        temperature: session.settings.temperature,
-        model: session.settings.model,
-        selected_documents: selectedDocuments,
-      });
+      // Prepare transcript for RAG API from the active branch only
+      const transcript: Utterance[] = history.map(msg => ({
+        role: (msg.role === 'user' ? 'user' : 'agent') as 'user' | 'agent',
+        content: msg.content,
+      }));
+
+      // Stream the answer from the RAG API
+      const response = await apiService.processRAGQueryStream(
+        {
+          transcript,
+          search_type: baseSession.settings.search_type,
+          temperature: baseSession.settings.temperature,
+          model: baseSession.settings.model,
+          selected_documents: selectedDocuments,
+        },
+        {
+          onToken: (token) => {
+            partialContent += token;
+            setIsTyping(false);
+            setStreamingContent(partialContent);
+          },
+        },
+        { signal: abortController.signal }
+      );
 
       if (response.error) {
         throw new Error(response.error);
       }
 
       // Add assistant response to session
-      const assistantMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
+      await saveAnswer({
         role: 'assistant',
         content: response.response,
+        parentId: parent.id,
         metadata: {
           documents_retrieved: response.documents_retrieved,
           processing_time: response.processing_time,
           search_type: response.search_type,
+          sources: parseContextSources(response.context_used),
         },
-      };
+      });
 
-      const newAssistantMessage = chatStorageService.addMessage(session.id, assistantMessage);
-      if (newAssistantMessage) {
-        const updatedSession = {
-          ...session,
-          messages: [...session.messages, newUserMessage!, newAssistantMessage],
+      toast.success(t('chat.responseReceived'));
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // Keep whatever was streamed before the stream was aborted
+        const partialMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
+          role: 'assistant',
+          content: partialContent,
+          parentId: parent.id,
+          metadata: {
+            search_type: baseSession.settings.search_type,
+            interrupted: true,
+          },
         };
-        onSessionUpdate(updatedSession);
+
+        if (stopRequestedRef.current) {
+          if (partialContent) await saveMessage(baseSession, partialMessage);
+          toast(t('chat.responseStopped'));
+        } else if (partialContent) {
+          // Aborted by a session switch: this session is no longer on screen,
+          // so store the answer without making it the current session again
+          await saveMessageInBackground(baseSession, partialMessage);
+        }
+        return;
       }
 
-      toast.success('Response received successfully');
-    } catch (error) {
       console.error('Error sending message:', error);
+      const errorMessage = getApiErrorMessage(error, t('chat.responseFailed'));
       
       // Add error message to session
-      const errorMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
+      await saveAnswer({
         role: 'assistant',
-        content: `Sorry, I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      };
-
-      const newErrorMessage = chatStorageService.addMessage(session.id, errorMessage);
-      if (newErrorMessage) {
-        const updatedSession = {
-          ...session,
-          messages: [...session.messages, newUserMessage!, newErrorMessage],
-        };
-        onSessionUpdate(updatedSession);
-      }
+        content: errorMessage,
+        parentId: parent.id,
+      });
 
-      toast.error('Failed to get response. Please try again.');
+      // Auth failures already send the user back to the license gate
+      if (!(error instanceof ApiError && error.kind === 'auth')) {
+        toast.error(errorMessage);
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingContent(null);
       setIsLoading(false);
       setIsTyping(false);
     }
   };
 
+  // Send a user message after `history` and fetch the answer
+  const submitUserMessage = async (content: string, history: ChatMessage[]) => {
+    const parent = history[history.length - 1];
+    const updatedSession = await saveMessage(session, {
+      role: 'user',
+      content,
+      parentId: parent ? parent.id : null,
+    });
+    if (!updatedSession) return;
+
+    const userMessage = updatedSession.messages[updatedSession.messages.length - 1];
+    await requestAnswer(updatedSession, [...history, userMessage]);
+  };
+
+  const handleSendMessage = async () => {
+    if (!inputMessage.trim() || isLoading) return;
+
+    const messageToSend = inputMessage.trim();
+    setInputMessage('');
+    await submitUserMessage(messageToSend, activePath);
+  };
+
+  // Edited questions become a sibling of the original, so the old branch is kept
+  const handleSubmitEdit = async (message: ChatMessage) => {
+    const content = editingContent.trim();
+    if (!content || isLoading) return;
+
+    setEditingMessageId(null);
+    setEditingContent('');
+    const index = activePath.findIndex(m => m.id === message.id);
+    await submitUserMessage(content, activePath.slice(0, index));
+  };
+
+  // Regenerated answers become a sibling of the original answer
+  const handleRegenerate = async (message: ChatMessage) => {
+    if (isLoading) return;
+
+    const index = activePath.findIndex(m => m.id === message.id);
+    await requestAnswer(session, activePath.slice(0, index));
+  };
+
+  const handleSwitchBranch = async (message: ChatMessage, direction: -1 | 1) => {
+    const siblings = getSiblings(session.messages, message.parentId);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + direction];
+    if (!target || isLoading) return;
+
+    const branch = { [target.parentId ?? ROOT_BRANCH_KEY]: target.id };
+    onSessionUpdate({ ...session, activeBranches: { ...session.activeBranches, ...branch } });
+    try {
+      await chatStorageService.updateActiveBranches(session.id, branch);
+    } catch (error) {
+      console.error('Failed to save branch selection:', error);
+    }
+  };
+
+  // Document scope is part of the session settings so it survives session switches and reloads
+  const handleDocumentSelectionChange = async (documents: string[]) => {
+    onSessionUpdate({ ...session, settings: { ...session.settings, selected_documents: documents } });
+    try {
+      await chatStorageService.updateSessionSettings(session.id, { selected_documents: documents });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('chat.saveSelectionFailed'));
+    }
+  };
+
+  const handleExportTranscript = (transcriptFormat: TranscriptFormat) => {
+    setShowExportMenu(false);
+    try {
+      transcriptExportService.export(session, transcriptFormat);
+      if (transcriptFormat !== 'pdf') {
+        toast.success(t('chat.transcriptExported'));
+      }
+    } catch (error) {
+      console.error('Transcript export failed:', error);
+      toast.error(error instanceof Error ? error.message : t('chat.exportFailed'));
+    }
+  };
+
+  const handleStopStreaming = () => {
+    stopRequestedRef.current = true;
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -137,38 +352,146 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate
     e.target.style.height = `${Math.min(e.target.scrollHeight, 120)}px`;
   };
 
-  const MessageBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
+  // Rendered as a plain function (not a nested component) so the inline editor keeps focus across renders
+  const renderMessageBubble = (message: ChatMessage) => {
     const isUser = message.role === 'user';
+    const isStreaming = message.id === STREAMING_MESSAGE_ID;
+    const isEditing = editingMessageId === message.id;
+    const siblings = isStreaming ? [] : getSiblings(session.messages, message.parentId);
+    const siblingIndex = siblings.findIndex(m => m.id === message.id);
     
     return (
-      <div className={cn(
-        "flex space-x-3 mb-4 animate-slide-up",
-        isUser ? "justify-end" : "justify-start"
-      )}>
+      <div
+        key={message.id}
+        id={`message-${message.id}`}
+        className={cn(
+          "flex space-x-3 mb-4 animate-slide-up",
+          isUser ? "justify-end" : "justify-start"
+        )}
+      >
         {!isUser && (
           <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center flex-shrink-0">
             <Bot className="w-4 h-4 text-primary-600" />
           </div>
         )}
         
-        <div className={cn(
-          "max-w-[70%] rounded-lg px-4 py-3",
-          isUser 
-            ? "bg-primary-600 text-white" 
-            : "bg-white border border-gray-200 text-gray-900"
-        )}>
-          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        <div className={cn("max-w-[70%] flex flex-col", isUser ? "items-end" : "items-start")}>
+          <div className={cn(
+            "rounded-lg px-4 py-3 transition-shadow duration-300",
+            isUser 
+              ? "bg-primary-600 text-white" 
+              : "bg-white border border-gray-200 text-gray-900",
+            isEditing && "w-full",
+            highlightedMessageId === message.id && "ring-4 ring-yellow-300"
+          )}>
+            {isEditing ? (
+              <div className="space-y-2">
+                <textarea
+                  value={editingContent}
+                  onChange={(e) => setEditingContent(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSubmitEdit(message);
+                    } else if (e.key === 'Escape') {
+                      setEditingMessageId(null);
+                    }
+                  }}
+                  className="w-full min-w-[16rem] px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-300 resize-y"
+                  rows={3}
+                  autoFocus
+                />
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setEditingMessageId(null)}
+                    className="px-3 py-1 text-xs rounded-lg bg-primary-700 hover:bg-primary-800 text-white"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={() => handleSubmitEdit(message)}
+                    disabled={!editingContent.trim()}
+                    className="px-3 py-1 text-xs rounded-lg bg-white hover:bg-primary-50 text-primary-700 font-medium disabled:opacity-60"
+                  >
+                    {t('chat.saveAndSubmit')}
+                  </button>
+                </div>
+              </div>
+            ) : isUser ? (
+              <p dir="auto" className="text-sm whitespace-pre-wrap">{message.content}</p>
+            ) : (
+              <MarkdownContent content={message.content} />
+            )}
           
-          {!isUser && message.metadata && (
-            <div className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-500 space-y-1">
-              {message.metadata.documents_retrieved && (
-                <div>📚 {message.metadata.documents_retrieved} documents retrieved</div>
-              )}
-              {message.metadata.processing_time && (
-                <div>⏱️ {message.metadata.processing_time.toFixed(2)}s processing time</div>
+            {!isUser && message.metadata && (
+              <div className="mt-2 pt-2 border-t border-gray-100 text-xs text-gray-500 space-y-1">
+                {message.metadata.interrupted && (
+                  <div>⏹️ {t('chat.interrupted')}</div>
+                )}
+                {message.metadata.documents_retrieved && (
+                  <div>📚 {t('chat.documentsRetrieved', { count: message.metadata.documents_retrieved })}</div>
+                )}
+                {message.metadata.processing_time && (
+                  <div>⏱️ {t('chat.processingTime', { seconds: message.metadata.processing_time.toFixed(2) })}</div>
+                )}
+                {message.metadata.search_type && (
+                  <div>🔍 {t('chat.searchType', { searchType: getSearchTypeName(message.metadata.search_type) })}</div>
+                )}
+              </div>
+            )}
+
+            {!isUser && message.metadata?.sources && (
+              <SourceCitations sources={message.metadata.sources} />
+            )}
+          </div>
+
+          {!isStreaming && !isEditing && (
+            <div className="mt-1 flex items-center space-x-2 text-xs text-gray-400">
+              {siblings.length > 1 && (
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => handleSwitchBranch(message, -1)}
+                    disabled={siblingIndex === 0 || isLoading}
+                    className="p-0.5 rounded hover:bg-gray-200 hover:text-gray-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                    title={t('chat.previousVersion')}
+                  >
+                    <ChevronLeft className="w-3 h-3 rtl:-scale-x-100" />
+                  </button>
+                  <span>{siblingIndex + 1}/{siblings.length}</span>
+                  <button
+                    onClick={() => handleSwitchBranch(message, 1)}
+                    disabled={siblingIndex === siblings.length - 1 || isLoading}
+                    className="p-0.5 rounded hover:bg-gray-200 hover:text-gray-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                    title={t('chat.nextVersion')}
+                  >
+                    <ChevronRight className="w-3 h-3 rtl:-scale-x-100" />
+                  </button>
+                </div>
               )}
-              {message.metadata.search_type && (
-                <div>🔍 {message.metadata.search_type} search</div>
+
+              {isUser ? (
+                <button
+                  onClick={() => {
+                    setEditingMessageId(message.id);
+                    setEditingContent(message.content);
+                  }}
+                  disabled={isLoading}
+                  className="flex items-center space-x-1 px-1 rounded hover:text-gray-600 disabled:opacity-40"
+                  title={t('chat.editAndResend')}
+                >
+                  <Pencil className="w-3 h-3" />
+                  <span>{t('chat.edit')}</span>
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleRegenerate(message)}
+                  disabled={isLoading}
+                  className="flex items-center space-x-1 px-1 rounded hover:text-gray-600 disabled:opacity-40"
+                  title={t('chat.regenerateAnswer')}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  <span>{t('chat.regenerate')}</span>
+                </button>
               )}
             </div>
           )}
@@ -191,18 +514,46 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate
           <div>
             <h2 className="text-xl font-semibold text-gray-900">{session.name}</h2>
             <p className="text-sm text-gray-500">
-              {session.messages.length} messages • Last updated {formatRelativeTime(session.updatedAt)}
+              {t('common.messageCount', { count: activePath.length })} • {t('chat.lastUpdated', { time: formatRelativeTime(session.updatedAt) })}
             </p>
           </div>
           
           <div className="flex items-center space-x-2 text-sm text-gray-600">
             <DocumentSelector
               selectedDocuments={selectedDocuments}
-              onSelectionChange={setSelectedDocuments}
+              onSelectionChange={handleDocumentSelectionChange}
             />
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                disabled={activePath.length === 0}
+                className="px-3 py-2 text-sm rounded-lg border border-gray-300 bg-white text-gray-600 hover:border-primary-400 transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={t('chat.exportConversation')}
+              >
+                <Download className="w-4 h-4" />
+                <span>{t('chat.export')}</span>
+              </button>
+
+              {showExportMenu && (
+                <>
+                  <div className="fixed inset-0 z-40" onClick={() => setShowExportMenu(false)} />
+                  <div className="absolute top-full end-0 mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-50 py-1">
+                    {EXPORT_FORMATS.map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => handleExportTranscript(value)}
+                        className="w-full text-start px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        {t(label)}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
             <div className="flex items-center space-x-1">
               <FileText className="w-4 h-4" />
-              <span className="capitalize">{session.settings.search_type}</span>
+              <span>{getSearchTypeName(session.settings.search_type)}</span>
             </div>
             <div className="flex items-center space-x-1">
               <Settings className="w-4 h-4" />
@@ -219,19 +570,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate
             <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <Bot className="w-8 h-8 text-primary-600" />
             </div>
-                         <h3 className="text-lg font-medium text-gray-900 mb-2">
-               Welcome to your RAG Assistant
-             </h3>
-             <p className="text-gray-500 max-w-md mx-auto">
-               Start a conversation by typing a message below. I can help you with questions using the knowledge base.
-             </p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {t('chat.welcomeTitle')}
+            </h3>
+            <p className="text-gray-500 max-w-md mx-auto">
+              {t('chat.welcomeMessage')}
+            </p>
           </div>
         ) : (
           <div className="space-y-4">
-            {session.messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
-            ))}
+            {activePath.map(renderMessageBubble)}
             
+            {streamingContent && renderMessageBubble({
+              id: STREAMING_MESSAGE_ID,
+              role: 'assistant',
+              content: streamingContent,
+              timestamp: new Date(),
+            })}
+
             {isTyping && (
               <div className="flex space-x-3 mb-4">
                 <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center">
@@ -260,7 +616,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate
               value={inputMessage}
               onChange={handleInputChange}
               onKeyPress={handleKeyPress}
-                             placeholder="Type your question here..."
+              placeholder={t('chat.inputPlaceholder')}
+              dir="auto"
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
               rows={1}
               style={{ minHeight: '48px', maxHeight: '120px' }}
@@ -268,26 +625,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ session, onSessionUpdate
             />
           </div>
           
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || isLoading}
-            className={cn(
-              "px-4 py-3 rounded-lg font-medium transition-colors duration-200 flex items-center space-x-2",
-              inputMessage.trim() && !isLoading
-                ? "bg-primary-600 hover:bg-primary-700 text-white"
-                : "bg-gray-200 text-gray-400 cursor-not-allowed"
-            )}
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStopStreaming}
+              className="px-4 py-3 rounded-lg font-medium transition-colors duration-200 flex items-center space-x-2 bg-red-50 hover:bg-red-100 text-red-600 border border-red-200"
+              title={t('chat.stopGenerating')}
+            >
+              <Square className="w-5 h-5" />
+              <span className="text-sm">{t('chat.stop')}</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!inputMessage.trim()}
+              className={cn(
+                "px-4 py-3 rounded-lg font-medium transition-colors duration-200 flex items-center space-x-2",
+                inputMessage.trim()
+                  ? "bg-primary-600 hover:bg-primary-700 text-white"
+                  : "bg-gray-200 text-gray-400 cursor-not-allowed"
+              )}
+            >
+              <Send className="w-5 h-5 rtl:-scale-x-100" />
+            </button>
+          )}
         </div>
         
         <div className="mt-2 text-xs text-gray-500 text-center">
-          Press Enter to send, Shift+Enter for new line
+          {t('chat.inputHint')}
         </div>
       </div>
     </div>
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, Plus, Edit2, Trash2, ChevronDown, ChevronRight, X, AlertTriangle, CheckSquare } from 'lucide-react';
+import { DocumentCollection } from '@/types';
+import { collectionsService } from '@/services/collections';
+import { t } from '@/services/i18n';
+import { cn } from '@/utils';
+import toast from 'react-hot-toast';
+
+interface CollectionsPanelProps {
+  availableFileNames: Set<string> | null; // null until the document list has loaded
+  selectedFileNames: string[];
+  onSelectFiles: (fileNames: string[]) => void;
+}
+
+const CollectionsPanel: React.FC<CollectionsPanelProps> = ({ availableFileNames, selectedFileNames, onSelectFiles }) => {
+  const [collections, setCollections] = useState<DocumentCollection[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    const loadCollections = () => {
+      collectionsService.getCollections()
+        .then(setCollections)
+        .catch(error => console.error('Failed to load collections:', error));
+    };
+
+    loadCollections();
+    window.addEventListener('collections:updated', loadCollections);
+    return () => window.removeEventListener('collections:updated', loadCollections);
+  }, []);
+
+  const isUnavailable = (fileName: string) =>
+    availableFileNames !== null && !availableFileNames.has(fileName);
+
+  // Run a collection change and report storage failures
+  const run = async (action: () => Promise<unknown>, successMessage?: string) => {
+    try {
+      await action();
+      if (successMessage) toast.success(successMessage);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('collections.updateFailed'));
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (collections.some(collection => collection.name.toLowerCase() === name.toLowerCase())) {
+      toast.error(t('collections.exists', { name }));
+      return;
+    }
+
+    run(async () => {
+      const collection = await collectionsService.createCollection(name, selectedFileNames);
+      setExpandedId(collection.id);
+      setNewName('');
+    }, selectedFileNames.length > 0
+      ? t('collections.createdWith', { name, count: selectedFileNames.length })
+      : t('collections.created', { name }));
+  };
+
+  const handleSaveName = (collection: DocumentCollection) => {
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!name || name === collection.name) return;
+    run(() => collectionsService.renameCollection(collection.id, name));
+  };
+
+  const handleDelete = (collection: DocumentCollection) => {
+    if (window.confirm(t('collections.confirmDelete', { name: collection.name }))) {
+      run(() => collectionsService.deleteCollection(collection.id), t('collections.deleted'));
+    }
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-6 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-4 h-4 text-primary-600" />
+          <h3 className="text-sm font-medium text-gray-900">{t('collections.title')}</h3>
+          <span className="text-xs text-gray-500">
+            {t('collections.subtitle')}
+          </span>
+        </div>
+
+        <form onSubmit={handleCreate} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t('collections.namePlaceholder')}
+            className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim()}
+            className="px-3 py-1.5 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg flex items-center space-x-1 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{selectedFileNames.length > 0 ? t('collections.createFromSelected', { count: selectedFileNames.length }) : t('collections.create')}</span>
+          </button>
+        </form>
+      </div>
+
+      {collections.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {t('collections.empty')}
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {collections.map(collection => {
+            const expanded = expandedId === collection.id;
+            const unavailable = collection.fileNames.filter(isUnavailable);
+            const toAdd = selectedFileNames.filter(name => !collection.fileNames.includes(name));
+
+            return (
+              <li key={collection.id} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between px-3 py-2">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : collection.id)}
+                      className="p-0.5 text-gray-400 hover:text-gray-600"
+                    >
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4 rtl:-scale-x-100" />}
+                    </button>
+
+                    {editingId === collection.id ? (
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onBlur={() => handleSaveName(collection)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSaveName(collection);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        autoFocus
+                        className="px-2 py-0.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      />
+                    ) : (
+                      <span className="text-sm font-medium text-gray-900 truncate">{collection.name}</span>
+                    )}
+
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {t('common.documentCount', { count: collection.fileNames.length })}
+                    </span>
+                    {unavailable.length > 0 && (
+                      <span className="flex items-center space-x-1 text-xs text-yellow-700 flex-shrink-0">
+                        <AlertTriangle className="w-3 h-3" />
+                        <span>{t('collections.unavailableCount', { count: unavailable.length })}</span>
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    {toAdd.length > 0 && (
+                      <button
+                        onClick={() => run(
+                          () => collectionsService.addFiles(collection.id, toAdd),
+                          t('collections.added', { count: toAdd.length, name: collection.name })
+                        )}
+                        className="px-2 py-1 text-xs text-primary-600 hover:bg-primary-50 rounded"
+                      >
+                        {t('collections.addSelected', { count: toAdd.length })}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onSelectFiles(collection.fileNames.filter(name => !isUnavailable(name)))}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                      title={t('collections.selectDocuments')}
+                    >
+                      <CheckSquare className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(collection.id);
+                        setEditingName(collection.name);
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                      title={t('collections.rename')}
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(collection)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                      title={t('collections.delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="px-3 pb-3 border-t border-gray-100">
+                    {collection.fileNames.length === 0 ? (
+                      <p className="text-xs text-gray-500 pt-2">
+                        {t('collections.emptyCollection')}
+                      </p>
+                    ) : (
+                      <>
+                        {unavailable.length > 0 && (
+                          <button
+                            onClick={() => run(() => collectionsService.removeFiles(collection.id, unavailable))}
+                            className="mt-2 text-xs text-yellow-700 hover:text-yellow-800 underline"
+                          >
+                            {t('collections.removeUnavailable', { count: unavailable.length })}
+                          </button>
+                        )}
+                        <ul className="pt-2 space-y-1">
+                          {collection.fileNames.map(fileName => (
+                            <li
+                              key={fileName}
+                              className={cn(
+                                "flex items-center justify-between text-xs",
+                                isUnavailable(fileName) ? "text-yellow-700" : "text-gray-700"
+                              )}
+                            >
+                              <span className="truncate">
+                                {fileName}
+                                {isUnavailable(fileName) && ` — ${t('collections.noLongerAvailable')}`}
+                              </span>
+                              <button
+                                onClick={() => run(() => collectionsService.removeFiles(collection.id, [fileName]))}
+                                className="p-0.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                                title={t('collections.removeFile')}
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CollectionsPanel;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, FileText, Check } from 'lucide-react';
+import { DocumentFileInfo } from '@/types';
+import { apiService } from '@/services/api';
+import { getApiErrorMessage } from '@/services/apiErrors';
+import { t, MessageKey } from '@/services/i18n';
+import { fuzzyScore, cn, isAbortError } from '@/utils';
+import KeyboardShortcut from './KeyboardShortcut';
+
+export interface PaletteCommand {
+  id: string;
+  group: 'Actions' | 'Sessions' | 'Documents';
+  label: string;
+  description?: string;
+  keywords?: string[];
+  icon: React.ElementType;
+  shortcut?: string;
+  active?: boolean; // e.g. the open session or the current model
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  selectedDocuments: string[];
+  onToggleDocument: (fileName: string) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+const GROUP_LABELS: Record<PaletteCommand['group'], MessageKey> = {
+  Actions: 'palette.groupActions',
+  Sessions: 'palette.groupSessions',
+  Documents: 'palette.groupDocuments',
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, selectedDocuments, onToggleDocument, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [documents, setDocuments] = useState<DocumentFileInfo[]>([]);
+  const [documentsError, setDocumentsError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Documents are fetched each time the palette opens so the list matches the knowledge base
+  useEffect(() => {
+    const controller = new AbortController();
+    apiService.getAllDocuments({ signal: controller.signal })
+      .then(response => setDocuments(response.files))
+      .catch(error => {
+        if (!isAbortError(error)) setDocumentsError(getApiErrorMessage(error, t('palette.documentsLoadFailed')));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const allCommands = useMemo(() => [
+    ...commands,
+    ...documents.map((doc): PaletteCommand => {
+      const selected = selectedDocuments.includes(doc.file_name);
+      return {
+        id: `document:${doc.file_name}`,
+        group: 'Documents',
+        label: doc.file_name,
+        description: t(selected ? 'palette.documentInScope' : 'palette.documentAddToScope'),
+        icon: FileText,
+        active: selected,
+        run: () => onToggleDocument(doc.file_name),
+      };
+    }),
+  ], [commands, documents, selectedDocuments, onToggleDocument]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return allCommands.slice(0, MAX_RESULTS);
+
+    return allCommands
+      .map(command => {
+        const scores = [command.label, t(GROUP_LABELS[command.group]), ...(command.keywords || [])]
+          .map(text => fuzzyScore(query, text))
+          .filter((score): score is number => score !== null);
+        return { command, score: scores.length ? Math.max(...scores) : null };
+      })
+      .filter((result): result is { command: PaletteCommand; score: number } => result.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(result => result.command);
+  }, [allCommands, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) runCommand(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-xl bg-white rounded-xl shadow-lg border border-gray-200 flex flex-col max-h-[60vh]"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('palette.ariaLabel')}
+      >
+        <div className="flex items-center px-4 border-b border-gray-200">
+          <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('palette.searchPlaceholder')}
+            className="flex-1 px-3 py-4 text-sm focus:outline-none"
+            autoFocus
+          />
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto py-2">
+          {results.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">{t('palette.noResults')}</p>
+          ) : (
+            results.map((command, index) => {
+              const Icon = command.icon;
+              return (
+                <button
+                  key={command.id}
+                  data-index={index}
+                  onClick={() => runCommand(command)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={cn(
+                    "w-full px-4 py-2 flex items-center space-x-3 text-start",
+                    index === activeIndex ? "bg-primary-50" : "hover:bg-gray-50"
+                  )}
+                >
+                  <Icon className={cn("w-4 h-4 flex-shrink-0", index === activeIndex ? "text-primary-600" : "text-gray-400")} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 truncate">{command.label}</p>
+                    {command.description && (
+                      <p className="text-xs text-gray-500 truncate">{command.description}</p>
+                    )}
+                  </div>
+                  {command.active && <Check className="w-4 h-4 text-primary-600 flex-shrink-0" />}
+                  {command.shortcut && <KeyboardShortcut binding={command.shortcut} className="flex-shrink-0" />}
+                  <span className="text-xs text-gray-400 flex-shrink-0 w-20 text-end">{t(GROUP_LABELS[command.group])}</span>
+                </button>
+              );
+            })
+          )}
+          {documentsError && (
+            <p className="px-4 py-2 text-xs text-red-600">{documentsError}</p>
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-gray-200 flex items-center space-x-4 text-xs text-gray-500">
+          <span className="flex items-center space-x-1"><KeyboardShortcut binding="ArrowUp" /><KeyboardShortcut binding="ArrowDown" /><span>{t('palette.navigate')}</span></span>
+          <span className="flex items-center space-x-1"><KeyboardShortcut binding="Enter" /><span>{t('palette.run')}</span></span>
+          <span className="flex items-center space-x-1"><KeyboardShortcut binding="Escape" /><span>{t('palette.close')}</span></span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WifiOff, CheckCircle, RefreshCw } from 'lucide-react';
+import { HealthSnapshot, healthMonitorService } from '@/services/healthMonitor';
+import { HEALTH_MONITOR } from '@/constants';
+import { t } from '@/services/i18n';
+import { formatRelativeTime } from '@/utils';
+
+interface ConnectionBannerProps {
+  health: HealthSnapshot;
+}
+
+const ConnectionBanner: React.FC<ConnectionBannerProps> = ({ health }) => {
+  const [showRecovered, setShowRecovered] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const wasOffline = useRef(false);
+
+  // Announce recovery only after an outage, not on the first successful check
+  useEffect(() => {
+    if (health.status === 'offline') {
+      wasOffline.current = true;
+      setShowRecovered(false);
+    } else if (health.status === 'online' && wasOffline.current) {
+      wasOffline.current = false;
+      setShowRecovered(true);
+      const timer = setTimeout(() => setShowRecovered(false), HEALTH_MONITOR.RECOVERED_BANNER_DURATION);
+      return () => clearTimeout(timer);
+    }
+  }, [health.status]);
+
+  // Tick the retry countdown while disconnected
+  const disconnected = health.status !== 'online' && health.consecutiveFailures > 0;
+  useEffect(() => {
+    if (!disconnected) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [disconnected]);
+
+  if (showRecovered) {
+    return (
+      <div className="px-6 py-2 border-b bg-green-50 border-green-200 text-green-800 flex items-center space-x-2 text-sm">
+        <CheckCircle className="w-4 h-4 flex-shrink-0" />
+        <span>{t('connection.reconnected')}</span>
+      </div>
+    );
+  }
+
+  if (!disconnected) return null;
+
+  const checking = health.status === 'checking';
+  const secondsLeft = health.nextCheckAt
+    ? Math.max(0, Math.ceil((health.nextCheckAt.getTime() - now) / 1000))
+    : null;
+
+  return (
+    <div className="px-6 py-2 border-b bg-red-50 border-red-200 text-red-800 flex items-center justify-between text-sm">
+      <div className="flex items-center space-x-2">
+        <WifiOff className="w-4 h-4 flex-shrink-0" />
+        <span>
+          {health.lastHealthyAt
+            ? t('connection.unreachableSince', { time: formatRelativeTime(health.lastHealthyAt) })
+            : t('connection.unreachable')}
+          {' '}
+          {checking
+            ? t('connection.reconnecting')
+            : secondsLeft !== null && t('connection.retryingIn', { seconds: secondsLeft })}
+          {health.consecutiveFailures >= 2 && ` ${t('connection.sleepingServer')}`}
+        </span>
+      </div>
+      <button
+        onClick={() => healthMonitorService.checkNow()}
+        disabled={checking}
+        className="flex items-center space-x-1 font-medium underline disabled:opacity-50 disabled:no-underline flex-shrink-0 ms-3"
+      >
+        <RefreshCw className={checking ? "w-3 h-3 animate-spin" : "w-3 h-3"} />
+        <span>{t('connection.retryNow')}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ConnectionBanner;
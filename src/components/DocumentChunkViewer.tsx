@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileText, Search, X, ChevronLeft, ChevronRight, AlertTriangle, Loader2 } from 'lucide-react';
+import { DocumentChunksResponse } from '@/types';
+import { apiService } from '@/services/api';
+import { getApiErrorMessage } from '@/services/apiErrors';
+import { t } from '@/services/i18n';
+import { CHUNK_VIEWER } from '@/constants';
+import { debounce, isAbortError } from '@/utils';
+
+interface DocumentChunkViewerProps {
+  fileName: string;
+  onClose: () => void;
+}
+
+const DocumentChunkViewer: React.FC<DocumentChunkViewerProps> = ({ fileName, onClose }) => {
+  const [page, setPage] = useState(1);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [data, setData] = useState<DocumentChunksResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDebouncedQuery = useMemo(() => debounce((value: string) => {
+    setDebouncedQuery(value);
+    setPage(1);
+  }, 300), []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    apiService.getDocumentChunks(
+      fileName,
+      { page, pageSize: CHUNK_VIEWER.PAGE_SIZE, query: debouncedQuery },
+      { signal: controller.signal }
+    )
+      .then(response => {
+        setData(response);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(getApiErrorMessage(err, t('chunkViewer.loadFailed')));
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [fileName, page, debouncedQuery]);
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total_chunks / data.page_size)) : 1;
+
+  const highlightPattern = useMemo(() => {
+    const terms = debouncedQuery.trim().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return null;
+    return new RegExp(`(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  }, [debouncedQuery]);
+
+  const renderContent = (content: string) => {
+    if (!highlightPattern) return content;
+    // split() with a capturing group puts the matches at odd indexes
+    return content.split(highlightPattern).map((part, i) =>
+      i % 2 === 1
+        ? <mark key={i} className="bg-yellow-200 text-gray-900 rounded px-0.5">{part}</mark>
+        : part
+    );
+  };
+
+  const describeMetadata = (metadata?: Record<string, unknown>) =>
+    Object.entries(metadata || {})
+      .filter(([key, value]) => key !== 'source' && key !== 'file_name' && value !== null && typeof value !== 'object')
+      .map(([key, value]) => `${key}: ${value}`)
+      .join(' · ');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl h-[90vh] bg-white rounded-xl shadow-lg border border-gray-200 flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="w-10 h-10 bg-primary-100 rounded-lg flex items-center justify-center flex-shrink-0">
+              <FileText className="w-5 h-5 text-primary-600" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-lg font-semibold text-gray-900 truncate">{fileName}</h2>
+              <p className="text-sm text-gray-500">
+                {data
+                  ? t(debouncedQuery ? 'chunkViewer.matchingCount' : 'common.chunkCount', { count: data.total_chunks })
+                  : t('chunkViewer.loading')}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} title={t('common.close')} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="px-6 py-3 border-b border-gray-200">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute start-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                updateDebouncedQuery(e.target.value);
+              }}
+              placeholder={t('chunkViewer.searchPlaceholder')}
+              autoFocus
+              className="w-full ps-9 pe-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+        </div>
+
+        {/* Chunks */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {error ? (
+            <div className="text-center py-12 text-sm text-red-600">{error}</div>
+          ) : loading && !data ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+            </div>
+          ) : data && data.chunks.length === 0 ? (
+            <div className="text-center py-12 text-sm text-gray-500">
+              {t(debouncedQuery ? 'chunkViewer.noMatches' : 'chunkViewer.empty')}
+            </div>
+          ) : (
+            <ol className={loading ? "space-y-3 opacity-60" : "space-y-3"}>
+              {data?.chunks.map(chunk => {
+                const lowText = chunk.content.trim().length < CHUNK_VIEWER.LOW_TEXT_THRESHOLD;
+                const metadata = describeMetadata(chunk.metadata);
+                return (
+                  <li key={chunk.chunk_index} className="border border-gray-200 rounded-lg">
+                    <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 rounded-t-lg flex items-center justify-between text-xs text-gray-500">
+                      <span className="font-medium text-gray-700">{t('chunkViewer.chunk', { number: chunk.chunk_index + 1 })}</span>
+                      <span className="truncate ms-2">
+                        {metadata && `${metadata} · `}{t('chunkViewer.characters', { count: chunk.content.length })}
+                      </span>
+                    </div>
+                    {lowText && (
+                      <div className="px-3 py-2 bg-yellow-50 border-b border-yellow-200 text-xs text-yellow-800 flex items-center space-x-2">
+                        <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                        <span>{t('chunkViewer.lowText')}</span>
+                      </div>
+                    )}
+                    <p dir="auto" className="px-3 py-2 text-sm text-gray-800 whitespace-pre-wrap break-words">
+                      {renderContent(chunk.content)}
+                    </p>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+          <span className="text-gray-500">
+            {t('chunkViewer.page', { page, total: totalPages })}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page <= 1 || loading}
+              className="p-2 border border-gray-200 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title={t('chunkViewer.previousPage')}
+            >
+              <ChevronLeft className="w-4 h-4 rtl:-scale-x-100" />
+            </button>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page >= totalPages || loading}
+              className="p-2 border border-gray-200 rounded-lg text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title={t('chunkViewer.nextPage')}
+            >
+              <ChevronRight className="w-4 h-4 rtl:-scale-x-100" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentChunkViewer;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import { DocumentFilters, DocumentSort } from '@/types';
+import { CONTENT_TYPE_LABELS, DOCUMENT_SORT_OPTIONS, DEFAULT_DOCUMENT_FILTERS } from '@/constants';
+import { t } from '@/services/i18n';
+import { cn } from '@/utils';
+
+interface DocumentFilterBarProps {
+  filters: DocumentFilters;
+  onChange: (filters: DocumentFilters) => void;
+  contentTypes: string[];
+  resultCount: number;
+  totalCount: number;
+  compact?: boolean; // hides the date range behind a toggle, for the chat header dropdown
+}
+
+const DocumentFilterBar: React.FC<DocumentFilterBarProps> = ({
+  filters,
+  onChange,
+  contentTypes,
+  resultCount,
+  totalCount,
+  compact = false,
+}) => {
+  const [showDates, setShowDates] = useState(!compact);
+
+  const update = (changes: Partial<DocumentFilters>) => onChange({ ...filters, ...changes });
+
+  const isFiltered = filters.query !== '' || filters.contentType !== '' ||
+    filters.uploadedFrom !== '' || filters.uploadedTo !== '';
+
+  const inputClass = "px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500";
+
+  return (
+    <div className="space-y-2">
+      <div className={cn("flex gap-2", compact ? "flex-col" : "flex-wrap items-center")}>
+        <div className={cn("relative", compact ? "w-full" : "flex-1 min-w-[12rem]")}>
+          <Search className="w-4 h-4 text-gray-400 absolute start-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder={t('documentFilters.searchPlaceholder')}
+            className={cn(inputClass, "w-full ps-8")}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={filters.contentType}
+            onChange={(e) => update({ contentType: e.target.value })}
+            className={cn(inputClass, compact && "flex-1")}
+            title={t('documentFilters.fileType')}
+          >
+            <option value="">{t('documentFilters.allTypes')}</option>
+            {contentTypes.map(type => (
+              <option key={type} value={type}>{CONTENT_TYPE_LABELS[type] || type}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.sort}
+            onChange={(e) => update({ sort: e.target.value as DocumentSort })}
+            className={cn(inputClass, compact && "flex-1")}
+            title={t('documentFilters.sortOrder')}
+          >
+            {DOCUMENT_SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.label)}</option>
+            ))}
+          </select>
+
+          {compact && (
+            <button
+              onClick={() => setShowDates(!showDates)}
+              className={cn(
+                "p-1.5 border rounded-lg",
+                showDates || filters.uploadedFrom || filters.uploadedTo
+                  ? "border-primary-300 bg-primary-50 text-primary-700"
+                  : "border-gray-300 text-gray-500 hover:bg-gray-50"
+              )}
+              title={t('documentFilters.filterByDate')}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        {showDates && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>{t('documentFilters.uploaded')}</span>
+            <input
+              type="date"
+              value={filters.uploadedFrom}
+              max={filters.uploadedTo || undefined}
+              onChange={(e) => update({ uploadedFrom: e.target.value })}
+              className={cn(inputClass, compact && "flex-1 min-w-0")}
+              title={t('documentFilters.uploadedAfter')}
+            />
+            <span>{t('documentFilters.to')}</span>
+            <input
+              type="date"
+              value={filters.uploadedTo}
+              min={filters.uploadedFrom || undefined}
+              onChange={(e) => update({ uploadedTo: e.target.value })}
+              className={cn(inputClass, compact && "flex-1 min-w-0")}
+              title={t('documentFilters.uploadedBefore')}
+            />
+          </div>
+        )}
+      </div>
+
+      {isFiltered && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>{t('documentFilters.showing', { count: resultCount, total: totalCount })}</span>
+          <button
+            onClick={() => onChange({ ...DEFAULT_DOCUMENT_FILTERS, sort: filters.sort })}
+            className="flex items-center space-x-1 hover:text-gray-700 underline"
+          >
+            <X className="w-3 h-3" />
+            <span>{t('documentFilters.clearFilters')}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentFilterBar;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { 
   Upload, 
@@ -6,20 +6,45 @@ import {
   File, 
   Trash2, 
   Eye, 
-  Clock
+  Clock,
+  Layers,
+  FolderOpen
 } from 'lucide-react';
-import { Document } from '@/types';
-import { formatFileSize, cn } from '@/utils';
-import { SUPPORTED_FILE_TYPES, MAX_FILE_SIZE } from '@/constants';
+import { DocumentFileInfo, DocumentFilters } from '@/types';
+import { formatFileSize, cn, isAbortError, filterDocuments, getUniqueFileName } from '@/utils';
+import { SUPPORTED_FILE_TYPES, MAX_FILE_SIZE, DEFAULT_DOCUMENT_FILTERS } from '@/constants';
 import { apiService } from '@/services/api';
+import { getApiErrorMessage } from '@/services/apiErrors';
+import { i18nService, t } from '@/services/i18n';
+import { uploadQueueService, UploadQueueSnapshot } from '@/services/uploadQueue';
+import { collectionsService } from '@/services/collections';
+import { documentHashService, UploadCheck, UploadConflictResolution } from '@/services/documentHashes';
+import { uploadSessionLabelService } from '@/services/uploadSessionLabels';
+import UploadQueuePanel from './UploadQueuePanel';
+import DocumentChunkViewer from './DocumentChunkViewer';
+import CollectionsPanel from './CollectionsPanel';
+import UploadConflictDialog from './UploadConflictDialog';
+import UploadSessionsPanel from './UploadSessionsPanel';
+import DocumentFilterBar from './DocumentFilterBar';
+import VirtualList from './VirtualList';
 import toast from 'react-hot-toast';
 
+const ROW_HEIGHT = 88;
+
 const DocumentManager: React.FC = () => {
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set());
   const [showUploadArea, setShowUploadArea] = useState(false);
   const [sessionId, setSessionId] = useState<string>('');
-  const [databaseDocuments, setDatabaseDocuments] = useState<any[]>([]);
+  const [databaseDocuments, setDatabaseDocuments] = useState<DocumentFileInfo[]>([]);
+  const [filters, setFilters] = useState<DocumentFilters>(DEFAULT_DOCUMENT_FILTERS);
   const [loadingDocuments, setLoadingDocuments] = useState(false);
+  const [documentsLoaded, setDocumentsLoaded] = useState(false);
+  const [showCollections, setShowCollections] = useState(false);
+  const [pendingChecks, setPendingChecks] = useState<UploadCheck[] | null>(null);
+  const [showUploadSessions, setShowUploadSessions] = useState(false);
+  const [sessionLabels, setSessionLabels] = useState<Record<string, string>>(() => uploadSessionLabelService.getLabels());
+  const [viewingFileName, setViewingFileName] = useState<string | null>(null);
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueSnapshot>(uploadQueueService.getSnapshot());
 
   // Generate or retrieve session ID on component mount
   useEffect(() => {
@@ -35,70 +60,130 @@ const DocumentManager: React.FC = () => {
 
   // Load documents from database on component mount
   useEffect(() => {
-    loadDatabaseDocuments();
+    const controller = new AbortController();
+    loadDatabaseDocuments(controller.signal);
+    return () => controller.abort();
   }, []);
 
   // Load all documents from the database
-  const loadDatabaseDocuments = async () => {
+  const loadDatabaseDocuments = async (signal?: AbortSignal) => {
     setLoadingDocuments(true);
     try {
-      const response = await apiService.getAllDocuments();
+      const response = await apiService.getAllDocuments({ signal });
       setDatabaseDocuments(response.files || []);
+      setDocumentsLoaded(true);
     } catch (error) {
+      // Unmounted while loading
+      if (isAbortError(error)) return;
       console.error('Failed to load database documents:', error);
-      toast.error('Failed to load documents from database');
+      toast.error(getApiErrorMessage(error, t('documents.loadFailed')));
     } finally {
       setLoadingDocuments(false);
     }
   };
 
-  // Real document upload function that calls the backend
-  const uploadDocument = async (file: File): Promise<Document> => {
-    try {
-      const response = await apiService.uploadDocument(file, sessionId);
-      
-      const document: Document = {
-        id: Date.now().toString(),
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        uploadedAt: new Date(),
-        status: 'ready',
-      };
-
-      toast.success(`${file.name} uploaded and processed successfully! ${response.documents_processed} chunks created.`);
-      
-      // Refresh the database documents list after successful upload
-      await loadDatabaseDocuments();
-      
-      return document;
-      
-    } catch (error) {
-      console.error('Upload error:', error);
-      throw error;
+  // Keep the upload queue in sync; refresh the list as files finish and report each finished batch
+  useEffect(() => {
+    const initial = uploadQueueService.getSnapshot();
+    let lastDoneCount = initial.items.filter(item => item.status === 'done').length;
+    let lastSummary = initial.summary;
+
+    return uploadQueueService.subscribe((snapshot) => {
+      setUploadQueue(snapshot);
+
+      const doneCount = snapshot.items.filter(item => item.status === 'done').length;
+      if (doneCount > lastDoneCount) {
+        loadDatabaseDocuments();
+      }
+      lastDoneCount = doneCount;
+
+      const { summary } = snapshot;
+      if (summary && summary !== lastSummary) {
+        const message = t('documents.uploadFinished', { count: summary.succeeded }) +
+          (summary.failed > 0 ? t('documents.uploadFinishedFailed', { count: summary.failed }) : '') +
+          (summary.cancelled > 0 ? t('documents.uploadFinishedCancelled', { count: summary.cancelled }) : '');
+        if (summary.failed > 0) {
+          toast.error(message);
+        } else {
+          toast.success(message);
+        }
+      }
+      lastSummary = summary;
+    });
+  }, []);
+
+  // Names already in the knowledge base or on their way there
+  const getTakenFileNames = useCallback(() => new Set([
+    ...databaseDocuments.map(document => document.file_name),
+    ...uploadQueueService.getSnapshot().items
+      .filter(item => item.status !== 'error' && item.status !== 'cancelled')
+      .map(item => item.file.name),
+  ]), [databaseDocuments]);
+
+  const enqueueChecked = useCallback((checks: UploadCheck[], replacements?: Map<File, string>) => {
+    const hashes = new Map<File, string>();
+    checks.forEach(check => check.hash && hashes.set(check.file, check.hash));
+    uploadQueueService.enqueue(checks.map(check => check.file), sessionId, hashes, replacements);
+  }, [sessionId]);
+
+  // Apply the choices from the conflict dialog. The queue removes replaced documents around the upload,
+  // so a failed or cancelled replacement leaves the old one in place.
+  const resolveConflicts = (checks: UploadCheck[], resolutions: UploadConflictResolution[]) => {
+    setPendingChecks(null);
+    const takenNames = getTakenFileNames();
+    const backendNames = new Set(databaseDocuments.map(document => document.file_name));
+    const toUpload: UploadCheck[] = [];
+    const replacements = new Map<File, string>();
+
+    for (const [index, check] of checks.entries()) {
+      const resolution = resolutions[index];
+      if (!check.conflict) {
+        toUpload.push(check);
+      } else if (resolution === 'keep_both') {
+        const fileName = getUniqueFileName(check.file.name, takenNames);
+        takenNames.add(fileName);
+        toUpload.push({ ...check, file: new window.File([check.file], fileName, { type: check.file.type }) });
+      } else if (resolution === 'replace') {
+        // Names only taken by other uploads in the queue have nothing on the backend to remove
+        if (check.existingName && backendNames.has(check.existingName)) {
+          replacements.set(check.file, check.existingName);
+        }
+        toUpload.push(check);
+      }
+    }
+
+    enqueueChecked(toUpload, replacements);
+    const skipped = checks.filter((check, index) => check.conflict && resolutions[index] === 'skip').length;
+    if (skipped > 0) {
+      toast(t('documents.skipped', { count: skipped }));
     }
   };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    for (const file of acceptedFiles) {
+    const validFiles = acceptedFiles.filter(file => {
       if (!SUPPORTED_FILE_TYPES.includes(file.type)) {
-        toast.error(`${file.name} is not a supported file type`);
-        continue;
+        toast.error(t('documents.unsupportedType', { file: file.name }));
+        return false;
       }
 
       if (file.size > MAX_FILE_SIZE) {
-        toast.error(`${file.name} is too large. Maximum size is ${formatFileSize(MAX_FILE_SIZE)}`);
-        continue;
-      }
-      
-      try {
-        await uploadDocument(file);
-        toast.success(`${file.name} uploaded successfully`);
-      } catch (error) {
-        toast.error(`Failed to upload ${file.name}`);
+        toast.error(t('documents.tooLarge', { file: file.name, size: formatFileSize(MAX_FILE_SIZE) }));
+        return false;
       }
+      return true;
+    });
+
+    if (validFiles.length === 0) return;
+
+    // Files that cannot be hashed are still checked by name, so they never silently replace a document
+    const checks = await documentHashService.checkFiles(validFiles, Array.from(getTakenFileNames()));
+
+    if (checks.some(check => check.conflict)) {
+      setPendingChecks(checks);
+    } else {
+      enqueueChecked(checks);
     }
-  }, []);
+  }, [getTakenFileNames, enqueueChecked]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -111,6 +196,33 @@ const DocumentManager: React.FC = () => {
     maxSize: MAX_FILE_SIZE,
   });
 
+  const visibleDocuments = useMemo(
+    () => filterDocuments(databaseDocuments, filters),
+    [databaseDocuments, filters]
+  );
+  const contentTypes = useMemo(
+    () => Array.from(new Set(databaseDocuments.map(document => document.content_type))).sort(),
+    [databaseDocuments]
+  );
+  const availableFileNames = useMemo(
+    () => documentsLoaded ? new Set(databaseDocuments.map(document => document.file_name)) : null,
+    [databaseDocuments, documentsLoaded]
+  );
+  const allVisibleSelected = visibleDocuments.length > 0 &&
+    visibleDocuments.every(document => selectedDocuments.has(document.file_name));
+
+  const toggleAllVisible = () => {
+    const newSelected = new Set(selectedDocuments);
+    visibleDocuments.forEach(document => {
+      if (allVisibleSelected) {
+        newSelected.delete(document.file_name);
+      } else {
+        newSelected.add(document.file_name);
+      }
+    });
+    setSelectedDocuments(newSelected);
+  };
+
   const toggleDocumentSelection = (documentId: string) => {
     const newSelected = new Set(selectedDocuments);
     if (newSelected.has(documentId)) {
@@ -124,52 +236,76 @@ const DocumentManager: React.FC = () => {
   const deleteSelectedDocuments = async () => {
     if (selectedDocuments.size === 0) return;
     
-    if (window.confirm(`Are you sure you want to delete ${selectedDocuments.size} selected document(s)?`)) {
+    if (window.confirm(t('documents.confirmDeleteSelected', { count: selectedDocuments.size }))) {
       try {
         // Delete each selected document
         for (const fileName of selectedDocuments) {
           await deleteDocument(fileName);
         }
         setSelectedDocuments(new Set());
-        toast.success('Selected documents deleted');
+        toast.success(t('documents.selectedDeleted'));
       } catch (error) {
         console.error('Failed to delete selected documents:', error);
-        toast.error('Some documents could not be deleted');
+        toast.error(t('documents.deleteSelectedFailed'));
       }
     }
   };
 
   const deleteDocument = async (fileName: string) => {
-    if (window.confirm(`Are you sure you want to delete "${fileName}"? This will delete all chunks of this file across all sessions.`)) {
+    if (window.confirm(t('documents.confirmDelete', { file: fileName }))) {
       try {
         // Delete by file name - this is more reliable than using session IDs
         const response = await apiService.deleteDocumentsByFileName(fileName);
-        toast.success(`${fileName} deleted successfully (${response.deleted_count} chunks removed)`);
+        toast.success(t('documents.deleted', { file: fileName, count: response.deleted_count }));
+        documentHashService.forget([fileName]);
+        await collectionsService.removeFilesFromAll([fileName]);
         // Refresh the documents list
         await loadDatabaseDocuments();
-      } catch (error: any) {
+      } catch (error) {
         console.error('Delete error:', error);
-        const errorMessage = error?.message || 'Failed to delete document';
-        toast.error(errorMessage);
+        toast.error(getApiErrorMessage(error, t('documents.deleteFailed')));
       }
     }
   };
 
 
 
+  // Delete every chunk uploaded with one session id; files also uploaded in other sessions survive
+  const deleteUploadSession = async (uploadSessionId: string) => {
+    try {
+      const response = await apiService.deleteSessionDocuments(uploadSessionId);
+      const removedFiles = databaseDocuments
+        .filter(document => document.sessions.length === 1 && document.sessions[0] === uploadSessionId)
+        .map(document => document.file_name);
+
+      documentHashService.forget(removedFiles);
+      await collectionsService.removeFilesFromAll(removedFiles);
+      setSelectedDocuments(prev => new Set([...prev].filter(name => !removedFiles.includes(name))));
+      setSessionLabels(uploadSessionLabelService.removeLabel(uploadSessionId));
+      toast.success(t('documents.uploadSessionDeleted', { count: response.deleted_count }));
+      await loadDatabaseDocuments();
+    } catch (error) {
+      console.error('Delete session error:', error);
+      toast.error(getApiErrorMessage(error, t('documents.deleteUploadSessionFailed')));
+    }
+  };
+
   return (
     <div className="flex-1 flex flex-col h-full bg-gray-50">
       {/* Header */}
       <div className="bg-white border-b border-gray-200 px-6 py-4">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-xl font-semibold text-gray-900">Document Manager</h2>
+            <h2 className="text-xl font-semibold text-gray-900">{t('documents.title')}</h2>
             <p className="text-sm text-gray-500">
-              Upload and manage documents for your RAG knowledge base
+              {t('documents.subtitle')}
             </p>
             {sessionId && (
               <div className="mt-2 flex items-center space-x-2">
-                <span className="text-xs text-gray-500">Session ID:</span>
+                <span className="text-xs text-gray-500">{t('documents.sessionId')}</span>
+                {sessionLabels[sessionId] && (
+                  <span className="text-xs font-medium text-gray-700">{sessionLabels[sessionId]}</span>
+                )}
                 <code className="text-xs bg-gray-100 px-2 py-1 rounded font-mono text-gray-700">
                   {sessionId}
                 </code>
@@ -178,11 +314,11 @@ const DocumentManager: React.FC = () => {
                     const newSessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
                     setSessionId(newSessionId);
                     localStorage.setItem('rag_session_id', newSessionId);
-                    toast.success('New session created');
+                    toast.success(t('documents.sessionCreated'));
                   }}
                   className="text-xs text-blue-600 hover:text-blue-800 underline"
                 >
-                  New Session
+                  {t('documents.newSession')}
                 </button>
               </div>
             )}
@@ -195,16 +331,42 @@ const DocumentManager: React.FC = () => {
                 className="px-4 py-2 text-red-600 hover:bg-red-50 border border-red-200 rounded-lg transition-colors duration-200 flex items-center space-x-2"
               >
                 <Trash2 className="w-4 h-4" />
-                <span>Delete Selected ({selectedDocuments.size})</span>
+                <span>{t('documents.deleteSelected', { count: selectedDocuments.size })}</span>
               </button>
             )}
             
             <button
-              onClick={loadDatabaseDocuments}
+              onClick={() => setShowUploadSessions(!showUploadSessions)}
+              className={cn(
+                "px-4 py-2 border rounded-lg transition-colors duration-200 flex items-center space-x-2",
+                showUploadSessions
+                  ? "border-primary-300 bg-primary-50 text-primary-700"
+                  : "border-gray-300 text-gray-700 hover:bg-gray-50"
+              )}
+            >
+              <FolderOpen className="w-4 h-4" />
+              <span>{t('documents.uploadSessions')}</span>
+            </button>
+
+            <button
+              onClick={() => setShowCollections(!showCollections)}
+              className={cn(
+                "px-4 py-2 border rounded-lg transition-colors duration-200 flex items-center space-x-2",
+                showCollections
+                  ? "border-primary-300 bg-primary-50 text-primary-700"
+                  : "border-gray-300 text-gray-700 hover:bg-gray-50"
+              )}
+            >
+              <Layers className="w-4 h-4" />
+              <span>{t('documents.collections')}</span>
+            </button>
+
+            <button
+              onClick={() => loadDatabaseDocuments()}
               className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors duration-200 flex items-center space-x-2"
             >
               <FileText className="w-4 h-4" />
-              <span>Refresh Documents</span>
+              <span>{t('documents.refresh')}</span>
             </button>
             
             <button
@@ -212,7 +374,7 @@ const DocumentManager: React.FC = () => {
               className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors duration-200 flex items-center space-x-2"
             >
               <Upload className="w-4 h-4" />
-              <span>Upload Documents</span>
+              <span>{t('documents.upload')}</span>
             </button>
           </div>
         </div>
@@ -241,15 +403,15 @@ const DocumentManager: React.FC = () => {
               
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-2">
-                  {isDragActive ? 'Drop files here' : 'Drag & drop files here'}
+                  {t(isDragActive ? 'documents.dropFiles' : 'documents.dragFiles')}
                 </h3>
                 <p className="text-gray-500 mb-4">
-                  or click to browse files
+                  {t('documents.browseFiles')}
                 </p>
                 
                 <div className="text-sm text-gray-400 space-y-1">
-                  <p>Supported formats: PDF, DOCX, TXT, MD</p>
-                  <p>Maximum file size: 10MB</p>
+                  <p>{t('documents.supportedFormats')}</p>
+                  <p>{t('documents.maxFileSize', { size: formatFileSize(MAX_FILE_SIZE) })}</p>
                 </div>
               </div>
             </div>
@@ -257,45 +419,98 @@ const DocumentManager: React.FC = () => {
         </div>
       )}
 
-              {/* Documents List */}
-        <div className="flex-1 overflow-y-auto p-6">
-          {loadingDocuments ? (
-            <div className="text-center py-12">
-              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <Clock className="w-8 h-8 text-gray-400 animate-spin" />
-              </div>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">
-                Loading documents...
-              </h3>
-              <p className="text-gray-500 max-w-md mx-auto">
-                Please wait while we fetch documents from the database.
-              </p>
+      <UploadQueuePanel queue={uploadQueue} />
+
+      {showUploadSessions && (
+        <UploadSessionsPanel
+          documents={databaseDocuments}
+          currentSessionId={sessionId}
+          labels={sessionLabels}
+          onRename={(uploadSessionId, label) => setSessionLabels(uploadSessionLabelService.setLabel(uploadSessionId, label))}
+          onDelete={deleteUploadSession}
+        />
+      )}
+
+      {showCollections && (
+        <CollectionsPanel
+          availableFileNames={availableFileNames}
+          selectedFileNames={Array.from(selectedDocuments)}
+          onSelectFiles={(fileNames) => setSelectedDocuments(new Set(fileNames))}
+        />
+      )}
+
+      {/* Search and filters */}
+      {databaseDocuments.length > 0 && (
+        <div className="bg-white border-b border-gray-200 px-6 py-3">
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-600 flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={toggleAllVisible}
+                disabled={visibleDocuments.length === 0}
+                className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+              />
+              <span>{t('documents.selectShown')}</span>
+            </label>
+            <div className="flex-1">
+              <DocumentFilterBar
+                filters={filters}
+                onChange={setFilters}
+                contentTypes={contentTypes}
+                resultCount={visibleDocuments.length}
+                totalCount={databaseDocuments.length}
+              />
             </div>
-          ) : databaseDocuments.length === 0 ? (
-            <div className="text-center py-12">
-              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <FileText className="w-8 h-8 text-gray-400" />
-              </div>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">
-                No documents in database
-              </h3>
-              <p className="text-gray-500 max-w-md mx-auto">
-                Upload documents to build your knowledge base and enable RAG-powered conversations.
-              </p>
+          </div>
+        </div>
+      )}
+
+      {/* Documents List */}
+      <div className="flex-1 min-h-0 flex flex-col p-6">
+        {loadingDocuments && databaseDocuments.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Clock className="w-8 h-8 text-gray-400 animate-spin" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {t('documents.loading')}
+            </h3>
+            <p className="text-gray-500 max-w-md mx-auto">
+              {t('documents.loadingHint')}
+            </p>
+          </div>
+        ) : databaseDocuments.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <FileText className="w-8 h-8 text-gray-400" />
             </div>
-          ) : (
-            <div className="space-y-3">
-              {databaseDocuments.map((document, index) => (
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {t('documents.empty')}
+            </h3>
+            <p className="text-gray-500 max-w-md mx-auto">
+              {t('documents.emptyHint')}
+            </p>
+          </div>
+        ) : visibleDocuments.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">{t('documents.noMatches')}</p>
+        ) : (
+          <VirtualList
+            items={visibleDocuments}
+            itemHeight={ROW_HEIGHT}
+            getKey={(document) => document.file_name}
+            className="flex-1 min-h-0"
+            renderItem={(document) => (
+              <div className="h-full pb-3">
                 <div
-                  key={document.file_name || index}
                   className={cn(
-                    "bg-white border rounded-lg p-4 transition-all duration-200",
+                    "h-full flex items-center bg-white border rounded-lg p-4 transition-all duration-200",
                     selectedDocuments.has(document.file_name)
                       ? "border-primary-300 bg-primary-50"
                       : "border-gray-200 hover:border-gray-300"
                   )}
                 >
-                  <div className="flex items-center space-x-4">
+                  <div className="w-full flex items-center space-x-4">
                     {/* Checkbox */}
                     <input
                       type="checkbox"
@@ -303,56 +518,76 @@ const DocumentManager: React.FC = () => {
                       onChange={() => toggleDocumentSelection(document.file_name)}
                       className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
                     />
-                    
+                
                     {/* File Icon */}
                     <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
                       <File className="w-5 h-5 text-gray-600" />
                     </div>
-                    
+                
                     {/* Document Info */}
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center space-x-2 mb-1">
-                        <h4 className="text-sm font-medium text-gray-900 truncate">
+                        <button
+                          onClick={() => setViewingFileName(document.file_name)}
+                          className="text-sm font-medium text-gray-900 truncate hover:text-primary-600 hover:underline"
+                          title={t('documents.viewChunks')}
+                        >
                           {document.file_name}
-                        </h4>
+                        </button>
                         <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">
-                          {document.total_chunks} chunks
+                          {t('common.chunkCount', { count: document.total_chunks })}
                         </span>
                       </div>
-                      
+                  
                       <div className="flex items-center space-x-4 text-xs text-gray-500">
                         <span>{document.content_type}</span>
                         <span>•</span>
-                        <span>{new Date(document.uploaded_at).toLocaleDateString()}</span>
+                        <span>{new Date(document.uploaded_at).toLocaleDateString(i18nService.getLanguage())}</span>
                         <span>•</span>
-                        <span>{document.sessions?.length || 0} session{(document.sessions?.length || 0) === 1 ? '' : 's'}</span>
+                        <span>{t('common.sessionCount', { count: document.sessions?.length || 0 })}</span>
                       </div>
                     </div>
-                    
+                
                     {/* Actions */}
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => {/* View document */}}
+                        onClick={() => setViewingFileName(document.file_name)}
                         className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors duration-200"
-                        title="View document"
+                        title={t('documents.viewChunks')}
                       >
                         <Eye className="w-4 h-4" />
                       </button>
-                      
+                  
                       <button
                         onClick={() => deleteDocument(document.file_name)}
                         className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-100 rounded-lg transition-colors duration-200"
-                        title="Delete document"
+                        title={t('documents.deleteDocument')}
                       >
                         <Trash2 className="w-4 h-4" />
                       </button>
                     </div>
                   </div>
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+              </div>
+            )}
+          />
+        )}
+      </div>
+
+      {pendingChecks && (
+        <UploadConflictDialog
+          checks={pendingChecks}
+          onConfirm={(resolutions) => resolveConflicts(pendingChecks, resolutions)}
+          onCancel={() => setPendingChecks(null)}
+        />
+      )}
+
+      {viewingFileName && (
+        <DocumentChunkViewer
+          fileName={viewingFileName}
+          onClose={() => setViewingFileName(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,15 +1,18 @@
-import React, { useState, useEffect } from 'react';
-import { FileText, Check, X, Info } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { FileText, Check, X, Info, AlertTriangle, Layers } from 'lucide-react';
+import { DocumentCollection, DocumentFileInfo, DocumentFilters } from '@/types';
 import { apiService } from '@/services/api';
+import { collectionsService } from '@/services/collections';
+import { getApiErrorMessage } from '@/services/apiErrors';
+import { i18nService, t } from '@/services/i18n';
+import { DEFAULT_DOCUMENT_FILTERS } from '@/constants';
+import DocumentFilterBar from './DocumentFilterBar';
+import VirtualList from './VirtualList';
 import toast from 'react-hot-toast';
+import { isAbortError, filterDocuments } from '@/utils';
 
-interface DocumentInfo {
-  file_name: string;
-  uploaded_at: string;
-  content_type: string;
-  total_chunks: number;
-  sessions: string[];
-}
+const ROW_HEIGHT = 72;
+const LIST_MAX_HEIGHT = 320;
 
 interface DocumentSelectorProps {
   selectedDocuments: string[];
@@ -17,27 +20,60 @@ interface DocumentSelectorProps {
 }
 
 const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments, onSelectionChange }) => {
-  const [documents, setDocuments] = useState<DocumentInfo[]>([]);
+  const [documents, setDocuments] = useState<DocumentFileInfo[]>([]);
+  const [filters, setFilters] = useState<DocumentFilters>(DEFAULT_DOCUMENT_FILTERS);
   const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
   const [showSelector, setShowSelector] = useState(false);
+  const [collections, setCollections] = useState<DocumentCollection[]>([]);
 
   useEffect(() => {
-    loadDocuments();
+    const controller = new AbortController();
+    loadDocuments(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const loadCollections = () => {
+      collectionsService.getCollections()
+        .then(setCollections)
+        .catch(error => console.error('Failed to load collections:', error));
+    };
+
+    loadCollections();
+    window.addEventListener('collections:updated', loadCollections);
+    return () => window.removeEventListener('collections:updated', loadCollections);
   }, []);
 
-  const loadDocuments = async () => {
+  // Keyboard shortcut from App
+  useEffect(() => {
+    const toggleSelector = () => setShowSelector(show => !show);
+    window.addEventListener('chat:toggle-document-selector', toggleSelector);
+    return () => window.removeEventListener('chat:toggle-document-selector', toggleSelector);
+  }, []);
+
+  const loadDocuments = async (signal?: AbortSignal) => {
     setLoading(true);
     try {
-      const response = await apiService.getAllDocuments();
+      const response = await apiService.getAllDocuments({ signal });
       setDocuments(response.files);
+      setLoaded(true);
     } catch (error) {
+      // Unmounted while loading
+      if (isAbortError(error)) return;
       console.error('Failed to load documents:', error);
-      toast.error('Failed to load documents');
+      toast.error(getApiErrorMessage(error, t('documentSelector.loadFailed')));
     } finally {
       setLoading(false);
     }
   };
 
+  const visibleDocuments = useMemo(() => filterDocuments(documents, filters), [documents, filters]);
+  const contentTypes = useMemo(
+    () => Array.from(new Set(documents.map(doc => doc.content_type))).sort(),
+    [documents]
+  );
+
   const toggleDocument = (fileName: string) => {
     const newSelection = selectedDocuments.includes(fileName)
       ? selectedDocuments.filter(name => name !== fileName)
@@ -49,6 +85,28 @@ const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments,
     onSelectionChange([]);
   };
 
+  // Selected file names that are no longer in the knowledge base (deleted or renamed)
+  const staleDocuments = loaded
+    ? selectedDocuments.filter(name => !documents.some(doc => doc.file_name === name))
+    : [];
+
+  const removeStaleDocuments = () => {
+    onSelectionChange(selectedDocuments.filter(name => !staleDocuments.includes(name)));
+  };
+
+  // Members of a collection that still exist in the knowledge base
+  const getAvailableMembers = (collection: DocumentCollection) =>
+    loaded
+      ? collection.fileNames.filter(name => documents.some(doc => doc.file_name === name))
+      : collection.fileNames;
+
+  const isCollectionSelected = (collection: DocumentCollection) => {
+    const members = getAvailableMembers(collection);
+    return members.length > 0 &&
+      members.length === selectedDocuments.length &&
+      members.every(name => selectedDocuments.includes(name));
+  };
+
   const getFileIcon = (contentType: string) => {
     switch (contentType) {
       case 'application/pdf':
@@ -66,9 +124,9 @@ const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments,
 
   const formatDate = (dateString: string) => {
     try {
-      return new Date(dateString).toLocaleDateString();
+      return new Date(dateString).toLocaleDateString(i18nService.getLanguage());
     } catch {
-      return 'Unknown';
+      return t('documentSelector.unknownDate');
     }
   };
 
@@ -83,11 +141,15 @@ const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments,
             : 'bg-white border-gray-300 text-gray-600 hover:border-primary-400'
         }`}
       >
-        <FileText className="w-4 h-4" />
+        {staleDocuments.length > 0 ? (
+          <AlertTriangle className="w-4 h-4 text-yellow-600" />
+        ) : (
+          <FileText className="w-4 h-4" />
+        )}
         <span>
           {selectedDocuments.length === 0
-            ? 'Select Documents'
-            : `${selectedDocuments.length} Document${selectedDocuments.length === 1 ? '' : 's'} Selected`}
+            ? t('documentSelector.selectDocuments')
+            : t('documentSelector.selectedCount', { count: selectedDocuments.length })}
         </span>
         {selectedDocuments.length > 0 && (
           <button
@@ -95,7 +157,7 @@ const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments,
               e.stopPropagation();
               clearSelection();
             }}
-            className="ml-2 p-1 hover:bg-primary-100 rounded-full"
+            className="ms-2 p-1 hover:bg-primary-100 rounded-full"
           >
             <X className="w-3 h-3" />
           </button>
@@ -104,77 +166,152 @@ const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments,
 
       {/* Document Selection Dropdown */}
       {showSelector && (
-        <div className="absolute top-full left-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50 max-h-96 overflow-y-auto">
+        <div className="absolute top-full start-0 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
           <div className="p-4 border-b border-gray-200">
             <div className="flex items-center justify-between mb-2">
-              <h3 className="text-sm font-medium text-gray-900">Select Documents to Focus On</h3>
+              <h3 className="text-sm font-medium text-gray-900">{t('documentSelector.title')}</h3>
               <button
                 onClick={clearSelection}
                 className="text-xs text-gray-500 hover:text-gray-700 underline"
               >
-                Clear All
+                {t('documentSelector.clearAll')}
               </button>
             </div>
             <p className="text-xs text-gray-500">
-              Only selected documents will be used for RAG queries, reducing hallucinations
+              {t('documentSelector.description')}
             </p>
           </div>
 
+          {collections.length > 0 && (
+            <div className="p-3 border-b border-gray-200">
+              <div className="flex items-center space-x-2 text-xs font-medium text-gray-700 mb-2">
+                <Layers className="w-3 h-3" />
+                <span>{t('documentSelector.collections')}</span>
+              </div>
+              <div className="flex flex-wrap gap-1.5 max-h-20 overflow-y-auto">
+                {collections.map(collection => {
+                  const available = getAvailableMembers(collection).length;
+                  return (
+                    <button
+                      key={collection.id}
+                      onClick={() => onSelectionChange(getAvailableMembers(collection))}
+                      disabled={available === 0}
+                      className={`px-2 py-1 text-xs rounded-full border transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                        isCollectionSelected(collection)
+                          ? 'border-primary-300 bg-primary-50 text-primary-700'
+                          : 'border-gray-300 text-gray-600 hover:border-primary-400'
+                      }`}
+                      title={available < collection.fileNames.length
+                        ? t('documentSelector.collectionUnavailable', { missing: collection.fileNames.length - available, count: collection.fileNames.length })
+                        : t('documentSelector.selectCollection', { count: available })}
+                    >
+                      {collection.name} ({available})
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {documents.length > 0 && (
+            <div className="p-3 border-b border-gray-200">
+              <DocumentFilterBar
+                filters={filters}
+                onChange={setFilters}
+                contentTypes={contentTypes}
+                resultCount={visibleDocuments.length}
+                totalCount={documents.length}
+                compact
+              />
+            </div>
+          )}
+
+          {staleDocuments.length > 0 && (
+            <div className="p-3 bg-yellow-50 border-b border-yellow-200">
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center space-x-2 text-xs font-medium text-yellow-800">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>
+                    {t('documentSelector.staleCount', { count: staleDocuments.length })}
+                  </span>
+                </div>
+                <button
+                  onClick={removeStaleDocuments}
+                  className="text-xs text-yellow-800 hover:text-yellow-900 underline"
+                >
+                  {t('documentSelector.remove')}
+                </button>
+              </div>
+              <ul className="text-xs text-yellow-700 space-y-0.5 max-h-24 overflow-y-auto">
+                {staleDocuments.map(name => (
+                  <li key={name} className="truncate line-through">{name}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="p-2">
             {loading ? (
               <div className="text-center py-4">
                 <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600 mx-auto"></div>
-                <p className="text-sm text-gray-500 mt-2">Loading documents...</p>
+                <p className="text-sm text-gray-500 mt-2">{t('documentSelector.loading')}</p>
               </div>
             ) : documents.length === 0 ? (
               <div className="text-center py-8">
                 <FileText className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                <p className="text-sm text-gray-500">No documents uploaded yet</p>
-                <p className="text-xs text-gray-400">Upload documents to enable selection</p>
+                <p className="text-sm text-gray-500">{t('documentSelector.empty')}</p>
+                <p className="text-xs text-gray-400">{t('documentSelector.emptyHint')}</p>
               </div>
+            ) : visibleDocuments.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-6">{t('documentSelector.noMatches')}</p>
             ) : (
-              <div className="space-y-2">
-                {documents.map((doc) => (
-                  <div
-                    key={doc.file_name}
-                    className={`p-3 rounded-lg border cursor-pointer transition-colors duration-200 ${
-                      selectedDocuments.includes(doc.file_name)
-                        ? 'border-primary-300 bg-primary-50'
-                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                    }`}
-                    onClick={() => toggleDocument(doc.file_name)}
-                  >
-                    <div className="flex items-start space-x-3">
-                      <div className="flex-shrink-0 mt-1">
-                        {selectedDocuments.includes(doc.file_name) ? (
-                          <div className="w-4 h-4 bg-primary-600 rounded-full flex items-center justify-center">
-                            <Check className="w-3 h-3 text-white" />
-                          </div>
-                        ) : (
-                          <div className="w-4 h-4 border-2 border-gray-300 rounded-full"></div>
-                        )}
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center space-x-2 mb-1">
-                          <span className="text-lg">{getFileIcon(doc.content_type)}</span>
-                          <h4 className="text-sm font-medium text-gray-900 truncate">
-                            {doc.file_name}
-                          </h4>
+              <VirtualList
+                items={visibleDocuments}
+                itemHeight={ROW_HEIGHT}
+                maxHeight={LIST_MAX_HEIGHT}
+                getKey={(doc) => doc.file_name}
+                renderItem={(doc) => (
+                  <div className="h-full pb-2">
+                    <div
+                      className={`h-full p-3 rounded-lg border cursor-pointer transition-colors duration-200 ${
+                        selectedDocuments.includes(doc.file_name)
+                          ? 'border-primary-300 bg-primary-50'
+                          : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                      }`}
+                      onClick={() => toggleDocument(doc.file_name)}
+                    >
+                      <div className="flex items-start space-x-3">
+                        <div className="flex-shrink-0 mt-1">
+                          {selectedDocuments.includes(doc.file_name) ? (
+                            <div className="w-4 h-4 bg-primary-600 rounded-full flex items-center justify-center">
+                              <Check className="w-3 h-3 text-white" />
+                            </div>
+                          ) : (
+                            <div className="w-4 h-4 border-2 border-gray-300 rounded-full"></div>
+                          )}
                         </div>
                         
-                        <div className="flex items-center space-x-4 text-xs text-gray-500">
-                          <span>{doc.total_chunks} chunks</span>
-                          <span>•</span>
-                          <span>{formatDate(doc.uploaded_at)}</span>
-                          <span>•</span>
-                          <span>{doc.sessions.length} session{doc.sessions.length === 1 ? '' : 's'}</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center space-x-2 mb-1">
+                            <span className="text-lg leading-none">{getFileIcon(doc.content_type)}</span>
+                            <h4 className="text-sm font-medium text-gray-900 truncate">
+                              {doc.file_name}
+                            </h4>
+                          </div>
+                          
+                          <div className="flex items-center space-x-4 text-xs text-gray-500">
+                            <span>{t('common.chunkCount', { count: doc.total_chunks })}</span>
+                            <span>•</span>
+                            <span>{formatDate(doc.uploaded_at)}</span>
+                            <span>•</span>
+                            <span>{t('common.sessionCount', { count: doc.sessions.length })}</span>
+                          </div>
                         </div>
                       </div>
                     </div>
                   </div>
-                ))}
-              </div>
+                )}
+              />
             )}
           </div>
 
@@ -183,7 +320,7 @@ const DocumentSelector: React.FC<DocumentSelectorProps> = ({ selectedDocuments,
               <div className="flex items-center space-x-2 text-xs text-primary-700">
                 <Info className="w-3 h-3" />
                 <span>
-                  RAG queries will focus on {selectedDocuments.length} selected document{selectedDocuments.length === 1 ? '' : 's'}
+                  {t('documentSelector.focusInfo', { count: selectedDocuments.length })}
                 </span>
               </div>
             </div>
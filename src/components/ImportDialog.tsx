@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Upload, AlertTriangle, Plus, Check, X } from 'lucide-react';
+import { ImportPreview, ImportMode, ConflictResolution } from '@/services/chatStorage';
+import { t, MessageKey } from '@/services/i18n';
+import { formatDate, cn } from '@/utils';
+
+interface ImportDialogProps {
+  preview: ImportPreview;
+  onConfirm: (mode: ImportMode, resolutions: Record<string, ConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+const RESOLUTION_OPTIONS: Array<{ value: ConflictResolution; label: MessageKey; description: MessageKey }> = [
+  { value: 'keep', label: 'importDialog.keepMine', description: 'importDialog.keepMineDescription' },
+  { value: 'replace', label: 'importDialog.replace', description: 'importDialog.replaceDescription' },
+  { value: 'duplicate', label: 'importDialog.keepBoth', description: 'importDialog.keepBothDescription' },
+];
+
+const MODE_OPTIONS: Array<[ImportMode, MessageKey, MessageKey]> = [
+  ['merge', 'importDialog.merge', 'importDialog.mergeDescription'],
+  ['replace', 'importDialog.replaceAll', 'importDialog.replaceAllDescription'],
+];
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ preview, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(() =>
+    Object.fromEntries(preview.conflicts.map(({ incoming }) => [incoming.id, 'keep' as ConflictResolution]))
+  );
+
+  const countResolution = (resolution: ConflictResolution) =>
+    Object.values(resolutions).filter(value => value === resolution).length;
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(preview.conflicts.map(({ incoming }) => [incoming.id, resolution])));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-white rounded-xl shadow-lg border border-gray-200 flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-primary-100 rounded-lg flex items-center justify-center">
+              <Upload className="w-5 h-5 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('importDialog.title')}</h2>
+              <p className="text-sm text-gray-500">
+                {t('importDialog.sessionsInFile', { count: preview.incoming.length })}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} title={t('common.close')} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Mode */}
+          <div className="grid grid-cols-2 gap-3">
+            {MODE_OPTIONS.map(([value, label, description]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={cn(
+                  "p-3 text-start rounded-lg border transition-colors duration-200",
+                  mode === value
+                    ? "border-primary-300 bg-primary-50"
+                    : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+                )}
+              >
+                <div className="font-medium text-gray-900">{t(label)}</div>
+                <div className="text-xs text-gray-500">{t(description)}</div>
+              </button>
+            ))}
+          </div>
+
+          {preview.collections.length > 0 && (
+            <p className="text-sm text-gray-600">
+              {t('importDialog.collections', { count: preview.collections.length })}
+              {' '}
+              {t(mode === 'replace' ? 'importDialog.collectionsReplace' : 'importDialog.collectionsMerge')}
+            </p>
+          )}
+
+          {mode === 'replace' ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">
+                {t('importDialog.replaceWarning', {
+                  existing: t('importDialog.existingSessions', { count: preview.existingCount }),
+                  incoming: t('common.sessionCount', { count: preview.incoming.length }),
+                })}
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                  <div className="text-2xl font-semibold text-green-700">{preview.newSessions.length}</div>
+                  <div className="text-xs text-green-700">{t('importDialog.new')}</div>
+                </div>
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                  <div className="text-2xl font-semibold text-gray-700">{preview.unchanged.length}</div>
+                  <div className="text-xs text-gray-600">{t('importDialog.alreadyPresent')}</div>
+                </div>
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  <div className="text-2xl font-semibold text-yellow-700">{preview.conflicts.length}</div>
+                  <div className="text-xs text-yellow-700">{t('importDialog.changed')}</div>
+                </div>
+              </div>
+
+              {preview.newSessions.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">{t('importDialog.sessionsToAdd')}</h3>
+                  <ul className="space-y-1">
+                    {preview.newSessions.map(session => (
+                      <li key={session.id} className="flex items-center justify-between text-sm text-gray-700">
+                        <span className="flex items-center space-x-2 min-w-0">
+                          <Plus className="w-3 h-3 text-green-600 flex-shrink-0" />
+                          <span className="truncate">{session.name}</span>
+                        </span>
+                        <span className="text-xs text-gray-500 flex-shrink-0 ms-2">
+                          {t('common.messageCount', { count: session.messages.length })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {preview.conflicts.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-700">{t('importDialog.sessionsThatDiffer')}</h3>
+                    <div className="flex items-center space-x-2 text-xs">
+                      <span className="text-gray-500">{t('importDialog.setAll')}</span>
+                      {RESOLUTION_OPTIONS.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => setAllResolutions(option.value)}
+                          className="text-primary-600 hover:text-primary-700 underline"
+                        >
+                          {t(option.label)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    {preview.conflicts.map(({ existing, incoming }) => (
+                      <div key={incoming.id} className="border border-gray-200 rounded-lg p-3">
+                        <div className="grid grid-cols-2 gap-3 text-xs mb-3">
+                          <div>
+                            <div className="text-gray-500 mb-0.5">{t('importDialog.yours')}</div>
+                            <div className="font-medium text-gray-900 truncate">{existing.name}</div>
+                            <div className="text-gray-500">
+                              {t('common.messageCount', { count: existing.messages.length })} · {t('importDialog.updated', { date: formatDate(existing.updatedAt, 'MMM dd, yyyy HH:mm') })}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-gray-500 mb-0.5">{t('importDialog.imported')}</div>
+                            <div className="font-medium text-gray-900 truncate">{incoming.name}</div>
+                            <div className="text-gray-500">
+                              {t('common.messageCount', { count: incoming.messages.length })} · {t('importDialog.updated', { date: formatDate(incoming.updatedAt, 'MMM dd, yyyy HH:mm') })}
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="flex space-x-2">
+                          {RESOLUTION_OPTIONS.map(option => (
+                            <button
+                              key={option.value}
+                              onClick={() => setResolutions(prev => ({ ...prev, [incoming.id]: option.value }))}
+                              title={t(option.description)}
+                              className={cn(
+                                "flex-1 px-2 py-1.5 text-xs rounded-lg border transition-colors duration-200",
+                                resolutions[incoming.id] === option.value
+                                  ? "border-primary-300 bg-primary-50 text-primary-700"
+                                  : "border-gray-200 text-gray-600 hover:border-gray-300 hover:bg-gray-50"
+                              )}
+                            >
+                              {t(option.label)}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            {mode === 'replace'
+              ? t('importDialog.afterImport', { count: preview.incoming.length })
+              : t('importDialog.mergeSummary', {
+                added: preview.newSessions.length,
+                replaced: countResolution('replace'),
+                duplicated: countResolution('duplicate'),
+                unchanged: preview.unchanged.length + countResolution('keep'),
+              })}
+          </p>
+          <div className="flex items-center space-x-3">
+            <button onClick={onCancel} className="btn-secondary">
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={() => onConfirm(mode, resolutions)}
+              className={cn(
+                "font-medium py-2 px-4 rounded-lg transition-colors duration-200 flex items-center space-x-2 text-white",
+                mode === 'replace' ? "bg-red-600 hover:bg-red-700" : "bg-primary-600 hover:bg-primary-700"
+              )}
+            >
+              <Check className="w-4 h-4" />
+              <span>{t(mode === 'replace' ? 'importDialog.confirmReplace' : 'importDialog.confirmImport')}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
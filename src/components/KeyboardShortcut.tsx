@@ -0,0 +1,28 @@
+import React from 'react';
+import { getShortcutKeys } from '@/services/shortcuts';
+import { cn } from '@/utils';
+
+interface KeyboardShortcutProps {
+  binding: string;
+  className?: string;
+}
+
+const KeyboardShortcut: React.FC<KeyboardShortcutProps> = ({ binding, className }) => {
+  const keys = getShortcutKeys(binding);
+  if (keys.length === 0) return null;
+
+  return (
+    <span className={cn("inline-flex items-center space-x-1", className)}>
+      {keys.map((key, index) => (
+        <kbd
+          key={index}
+          className="min-w-[1.5rem] px-1.5 py-0.5 text-xs font-sans text-center text-gray-600 bg-gray-100 border border-gray-300 rounded"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+};
+
+export default KeyboardShortcut;
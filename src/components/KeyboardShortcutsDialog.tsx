@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Keyboard, X, RotateCcw } from 'lucide-react';
+import { ShortcutAction, ShortcutBindings } from '@/types';
+import { KEYBOARD_SHORTCUTS } from '@/constants';
+import { shortcutService, getShortcutFromEvent, formatShortcut, IS_MAC } from '@/services/shortcuts';
+import { t, MessageKey } from '@/services/i18n';
+import { cn } from '@/utils';
+import KeyboardShortcut from './KeyboardShortcut';
+import toast from 'react-hot-toast';
+
+interface KeyboardShortcutsDialogProps {
+  bindings: ShortcutBindings;
+  onClose: () => void;
+}
+
+// Fixed keys handled by the chat input and dialogs, listed for reference
+const BUILT_IN_SHORTCUTS: Array<{ label: MessageKey; binding: string }> = [
+  { label: 'shortcutsDialog.sendMessage', binding: 'Enter' },
+  { label: 'shortcutsDialog.newLine', binding: 'Shift+Enter' },
+  { label: 'shortcutsDialog.closeDialog', binding: 'Escape' },
+];
+
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ bindings, onClose }) => {
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+
+  const getLabel = (action: ShortcutAction) => {
+    const label = KEYBOARD_SHORTCUTS.find(shortcut => shortcut.action === action)?.label;
+    return label ? t(label) : action;
+  };
+
+  // While recording, the next key combination becomes the shortcut. Escape cancels,
+  // Backspace/Delete removes the shortcut.
+  const handleRecordKeyDown = (e: React.KeyboardEvent, action: ShortcutAction) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const shortcut = getShortcutFromEvent(e.nativeEvent);
+    if (!shortcut) return; // only a modifier so far
+
+    if (shortcut === 'Escape') {
+      setRecordingAction(null);
+      return;
+    }
+    if (shortcut === 'Enter' || shortcut === 'Tab') {
+      toast.error(t('shortcutsDialog.notAllowed', { shortcut: formatShortcut(shortcut) }));
+      return;
+    }
+
+    const { replaced } = shortcutService.setBinding(
+      action,
+      shortcut === 'Backspace' || shortcut === 'Delete' ? '' : shortcut
+    );
+    if (replaced) {
+      toast(t('shortcutsDialog.reassigned', { shortcut: formatShortcut(shortcut), action: getLabel(replaced) }));
+    }
+    setRecordingAction(null);
+  };
+
+  const handleDialogKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && !recordingAction) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] bg-white rounded-xl shadow-lg border border-gray-200 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleDialogKeyDown}
+        role="dialog"
+        aria-label={t('shortcutsDialog.title')}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-primary-100 rounded-lg flex items-center justify-center">
+              <Keyboard className="w-5 h-5 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('shortcutsDialog.title')}</h2>
+              <p className="text-sm text-gray-500">{t('shortcutsDialog.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg" autoFocus>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <div className="space-y-1">
+            {KEYBOARD_SHORTCUTS.map(({ action, label }) => (
+              <div key={action} className="flex items-center justify-between py-1.5">
+                <span className="text-sm text-gray-700">{t(label)}</span>
+                <button
+                  onClick={() => setRecordingAction(recordingAction === action ? null : action)}
+                  onKeyDown={recordingAction === action ? (e) => handleRecordKeyDown(e, action) : undefined}
+                  onBlur={() => recordingAction === action && setRecordingAction(null)}
+                  className={cn(
+                    "px-2 py-1 rounded-lg border text-xs transition-colors duration-200",
+                    recordingAction === action
+                      ? "border-primary-400 bg-primary-50 text-primary-700"
+                      : "border-transparent hover:border-gray-300"
+                  )}
+                  title={t('shortcutsDialog.change')}
+                >
+                  {recordingAction === action
+                    ? t('shortcutsDialog.recording')
+                    : bindings[action]
+                      ? <KeyboardShortcut binding={bindings[action]} />
+                      : <span className="text-gray-400">{t('shortcutsDialog.notSet')}</span>}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{t('shortcutsDialog.builtIn')}</h3>
+            <div className="space-y-1">
+              {BUILT_IN_SHORTCUTS.map(({ label, binding }) => (
+                <div key={label} className="flex items-center justify-between py-1.5">
+                  <span className="text-sm text-gray-700">{t(label)}</span>
+                  <KeyboardShortcut binding={binding} className="px-2" />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {t('shortcutsDialog.typingHint', { modifiers: IS_MAC ? '⌘ ⌃ ⌥' : 'Ctrl / Alt' })}
+          </p>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-between">
+          <button
+            onClick={() => {
+              shortcutService.resetBindings();
+              toast.success(t('shortcutsDialog.resetDone'));
+            }}
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>{t('shortcutsDialog.reset')}</span>
+          </button>
+          <button onClick={onClose} className="btn-primary">{t('common.done')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcutsDialog;
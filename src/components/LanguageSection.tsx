@@ -0,0 +1,51 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Language } from '@/types';
+import { LANGUAGES } from '@/constants';
+import { i18nService, t } from '@/services/i18n';
+import { cn } from '@/utils';
+
+// Language is a browser preference like the theme; changing it re-renders the whole app
+const LanguageSection: React.FC = () => {
+  const current = i18nService.getLanguage();
+
+  const handleChange = (value: Language) => {
+    if (value !== current) i18nService.setLanguage(value);
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+          <Languages className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{t('language.title')}</h3>
+          <p className="text-sm text-gray-500">{t('language.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LANGUAGES.map(({ value, label, dir }) => (
+          <button
+            key={value}
+            onClick={() => handleChange(value)}
+            aria-pressed={current === value}
+            lang={value}
+            className={cn(
+              "p-4 text-start border rounded-lg transition-all duration-200",
+              current === value
+                ? "border-primary-300 bg-primary-50"
+                : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+            )}
+          >
+            <h4 className="font-medium text-gray-900" dir={dir}>{label}</h4>
+            <p className="text-sm text-gray-500">{t(dir === 'rtl' ? 'language.rtl' : 'language.ltr')}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LanguageSection;
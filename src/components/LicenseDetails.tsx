@@ -0,0 +1,56 @@
+import React from 'react';
+import { LicenseInfo } from '@/types';
+import { licenseService } from '@/services/license';
+import { LICENSE } from '@/constants';
+import { t } from '@/services/i18n';
+import { formatDate, cn } from '@/utils';
+
+interface LicenseDetailsProps {
+  info: LicenseInfo;
+  licenseKey?: string;
+}
+
+const LicenseDetails: React.FC<LicenseDetailsProps> = ({ info, licenseKey }) => {
+  const expiry = licenseService.getExpiry(info);
+  const daysLeft = licenseService.getDaysUntilExpiry(info);
+  const expiringSoon = daysLeft !== null && daysLeft <= LICENSE.EXPIRY_WARNING_DAYS;
+
+  const describeDaysLeft = () => {
+    if (daysLeft === null) return '';
+    if (daysLeft < 0) return t('license.expired');
+    if (daysLeft === 0) return t('license.expiresToday');
+    return t('license.daysLeft', { count: daysLeft });
+  };
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+      {licenseKey && (
+        <div>
+          <dt className="text-gray-500">{t('license.key')}</dt>
+          <dd className="font-mono text-gray-900" dir="ltr">{licenseService.maskKey(licenseKey)}</dd>
+        </div>
+      )}
+      <div>
+        <dt className="text-gray-500">{t('license.holder')}</dt>
+        <dd className="font-medium text-gray-900">{info.holder || t('license.unknownHolder')}</dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">{t('license.tier')}</dt>
+        <dd className="font-medium text-gray-900 capitalize">{info.tier || t('license.standardTier')}</dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">{t('license.expires')}</dt>
+        <dd className="font-medium text-gray-900">
+          {expiry ? formatDate(expiry) : t('license.never')}
+          {expiry && (
+            <span className={cn("ms-2 text-xs font-normal", expiringSoon ? "text-yellow-700" : "text-gray-500")}>
+              ({describeDaysLeft()})
+            </span>
+          )}
+        </dd>
+      </div>
+    </dl>
+  );
+};
+
+export default LicenseDetails;
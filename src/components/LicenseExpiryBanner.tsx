@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { licenseService } from '@/services/license';
+import { LICENSE } from '@/constants';
+import { t } from '@/services/i18n';
+import { formatDate, cn } from '@/utils';
+
+interface LicenseExpiryBannerProps {
+  onOpenSettings?: () => void;
+}
+
+const DISMISSED_STORAGE_KEY = 'license_expiry_banner_dismissed';
+
+const LicenseExpiryBanner: React.FC<LicenseExpiryBannerProps> = ({ onOpenSettings }) => {
+  const [info, setInfo] = useState(licenseService.getInfo());
+  // Dismissal lasts for this browser session and only for the expiry date it was shown for
+  const [dismissedFor, setDismissedFor] = useState(() => sessionStorage.getItem(DISMISSED_STORAGE_KEY));
+
+  useEffect(() => {
+    const onUpdated = () => setInfo(licenseService.getInfo());
+    window.addEventListener('license:updated', onUpdated as EventListener);
+    return () => window.removeEventListener('license:updated', onUpdated as EventListener);
+  }, []);
+
+  const expiry = licenseService.getExpiry(info);
+  const daysLeft = licenseService.getDaysUntilExpiry(info);
+  if (!expiry || daysLeft === null || daysLeft > LICENSE.EXPIRY_WARNING_DAYS) return null;
+  if (dismissedFor === info?.expires_at) return null;
+
+  const expired = daysLeft < 0;
+  const message = expired
+    ? t('license.bannerExpired', { date: formatDate(expiry) })
+    : daysLeft === 0
+      ? t('license.bannerExpiresToday')
+      : t('license.bannerExpiresIn', { count: daysLeft, date: formatDate(expiry) });
+
+  const handleDismiss = () => {
+    const expiresAt = info?.expires_at || '';
+    sessionStorage.setItem(DISMISSED_STORAGE_KEY, expiresAt);
+    setDismissedFor(expiresAt);
+  };
+
+  return (
+    <div
+      className={cn(
+        "px-6 py-2 border-b flex items-center justify-between text-sm",
+        expired ? "bg-red-50 border-red-200 text-red-800" : "bg-yellow-50 border-yellow-200 text-yellow-800"
+      )}
+    >
+      <div className="flex items-center space-x-2">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+        <span>
+          {message} {t('license.bannerRenew')}
+        </span>
+        {onOpenSettings && (
+          <button onClick={onOpenSettings} className="underline font-medium">
+            {t('license.manage')}
+          </button>
+        )}
+      </div>
+      {!expired && (
+        <button onClick={handleDismiss} className="p-1 rounded hover:bg-yellow-100" title={t('license.dismiss')}>
+          <X className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LicenseExpiryBanner;
@@ -1,5 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { licenseService } from '@/services/license';
+import { ShieldCheck } from 'lucide-react';
+import { licenseService, LicenseClearReason } from '@/services/license';
+import { apiService } from '@/services/api';
+import { AuthError, getApiErrorMessage, isEndpointUnavailable } from '@/services/apiErrors';
+import { t } from '@/services/i18n';
+import { LicenseInfo } from '@/types';
+import { isAbortError } from '@/utils';
+import LicenseDetails from './LicenseDetails';
 import toast from 'react-hot-toast';
 
 interface LicenseGateProps {
@@ -10,12 +17,18 @@ const LicenseGate: React.FC<LicenseGateProps> = ({ children }) => {
   const [licenseKey, setLicenseKey] = useState<string>(licenseService.getKey() || '');
   const [isLicensed, setIsLicensed] = useState<boolean>(licenseService.isPresent());
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [verifiedInfo, setVerifiedInfo] = useState<LicenseInfo | null>(null);
 
   useEffect(() => {
-    const onCleared = () => {
+    const onCleared = (event: CustomEvent<{ reason?: LicenseClearReason }>) => {
       setIsLicensed(false);
       setLicenseKey('');
-      toast.error('License invalid or missing. Please enter a valid license key.');
+      setVerifiedInfo(null);
+      if (event.detail?.reason === 'signed_out') {
+        toast.success(t('license.signedOut'));
+      } else {
+        toast.error(t('license.invalidOrMissing'));
+      }
     };
     const onUpdated = () => {
       setIsLicensed(licenseService.isPresent());
@@ -30,23 +43,68 @@ const LicenseGate: React.FC<LicenseGateProps> = ({ children }) => {
     };
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Re-check a stored key in the background; stay unlocked if the server can't be reached
+  useEffect(() => {
+    const storedKey = licenseService.getKey();
+    if (!storedKey) return;
+
+    const controller = new AbortController();
+    apiService.validateLicense(storedKey, { signal: controller.signal })
+      .then(info => {
+        if (licenseService.getValidationProblem(info)) {
+          licenseService.clearKey();
+        } else {
+          licenseService.updateInfo(info);
+        }
+      })
+      .catch(error => {
+        // Backends without a validation endpoint are expected; the key stays unverified
+        if (isAbortError(error) || isEndpointUnavailable(error)) return;
+        console.error('Failed to re-validate license key', error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const trimmed = licenseKey.trim();
     if (!trimmed) {
-      toast.error('Please enter your license key');
+      toast.error(t('license.enterKey'));
       return;
     }
     setIsSubmitting(true);
     try {
-      licenseService.setKey(trimmed);
-      setIsLicensed(true);
-      toast.success('License applied');
+      const info = await apiService.validateLicense(trimmed);
+      const problem = licenseService.getValidationProblem(info);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+      setVerifiedInfo(info);
+    } catch (error) {
+      // Without a validation endpoint the key is checked by the backend on the first request instead
+      if (isEndpointUnavailable(error)) {
+        licenseService.setKey(trimmed);
+        setIsLicensed(true);
+        toast(t('license.appliedUnverified'), { duration: 6000 });
+        return;
+      }
+      toast.error(error instanceof AuthError
+        ? t('license.notRecognised')
+        : getApiErrorMessage(error, t('license.verifyFailed')));
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleContinue = () => {
+    if (!verifiedInfo) return;
+    licenseService.setKey(licenseKey.trim(), verifiedInfo);
+    setIsLicensed(true);
+    setVerifiedInfo(null);
+    toast.success(t('license.applied'));
+  };
+
   if (isLicensed) {
     return <>{children}</>;
   }
@@ -54,38 +112,71 @@ const LicenseGate: React.FC<LicenseGateProps> = ({ children }) => {
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <div className="w-full max-w-md bg-white rounded-xl shadow-lg border border-gray-200 p-6">
-        <div className="text-center mb-6">
-          <h1 className="text-2xl font-semibold text-gray-900">Enter License Key</h1>
-          <p className="text-gray-500 mt-1">Access is restricted. Please provide your license key to continue.</p>
-        </div>
+        {verifiedInfo ? (
+          <>
+            <div className="text-center mb-6">
+              <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                <ShieldCheck className="w-6 h-6 text-green-600" />
+              </div>
+              <h1 className="text-2xl font-semibold text-gray-900">{t('license.verifiedTitle')}</h1>
+              <p className="text-gray-500 mt-1">{t('license.verifiedSubtitle')}</p>
+            </div>
+
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+              <LicenseDetails info={verifiedInfo} licenseKey={licenseKey.trim()} />
+            </div>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setVerifiedInfo(null)}
+                className="flex-1 py-2.5 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg font-medium"
+              >
+                {t('license.differentKey')}
+              </button>
+              <button
+                onClick={handleContinue}
+                autoFocus
+                className="flex-1 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium"
+              >
+                {t('license.continue')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-center mb-6">
+              <h1 className="text-2xl font-semibold text-gray-900">{t('license.enterTitle')}</h1>
+              <p className="text-gray-500 mt-1">{t('license.enterSubtitle')}</p>
+            </div>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">License Key</label>
-            <input
-              type="text"
-              value={licenseKey}
-              onChange={(e) => setLicenseKey(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-              placeholder="XXXX-XXXX-XXXX-XXXX"
-              disabled={isSubmitting}
-              autoFocus
-            />
-          </div>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('license.keyLabel')}</label>
+                <input
+                  type="text"
+                  value={licenseKey}
+                  onChange={(e) => setLicenseKey(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  placeholder="XXXX-XXXX-XXXX-XXXX"
+                  dir="ltr"
+                  disabled={isSubmitting}
+                  autoFocus
+                />
+              </div>
 
-          <button
-            type="submit"
-            disabled={isSubmitting}
-            className="w-full py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium disabled:opacity-60"
-          >
-            {isSubmitting ? 'Applying…' : 'Apply License'}
-          </button>
-        </form>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium disabled:opacity-60"
+              >
+                {t(isSubmitting ? 'license.verifying' : 'license.verify')}
+              </button>
+            </form>
+          </>
+        )}
       </div>
     </div>
   );
 };
 
 export default LicenseGate;
-
-
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, LogOut, RefreshCw } from 'lucide-react';
+import { licenseService } from '@/services/license';
+import { apiService } from '@/services/api';
+import { AuthError, getApiErrorMessage, isEndpointUnavailable } from '@/services/apiErrors';
+import { t } from '@/services/i18n';
+import { LicenseInfo } from '@/types';
+import LicenseDetails from './LicenseDetails';
+import toast from 'react-hot-toast';
+
+const LicenseSection: React.FC = () => {
+  const [licenseKey, setLicenseKey] = useState(licenseService.getKey() || '');
+  const [info, setInfo] = useState<LicenseInfo | null>(licenseService.getInfo());
+  const [newKey, setNewKey] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    const onUpdated = () => {
+      setLicenseKey(licenseService.getKey() || '');
+      setInfo(licenseService.getInfo());
+    };
+    window.addEventListener('license:updated', onUpdated as EventListener);
+    return () => window.removeEventListener('license:updated', onUpdated as EventListener);
+  }, []);
+
+  // Returns the license details if the key is usable, 'unverified' if the backend cannot
+  // validate keys, otherwise reports why not
+  const verify = async (key: string): Promise<LicenseInfo | 'unverified' | null> => {
+    setIsVerifying(true);
+    try {
+      const result = await apiService.validateLicense(key);
+      const problem = licenseService.getValidationProblem(result);
+      if (problem) {
+        toast.error(problem);
+        return null;
+      }
+      return result;
+    } catch (error) {
+      if (isEndpointUnavailable(error)) return 'unverified';
+      toast.error(error instanceof AuthError
+        ? t('license.notRecognised')
+        : getApiErrorMessage(error, t('license.verifyFailed')));
+      return null;
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    const result = await verify(licenseKey);
+    if (result === 'unverified') {
+      toast.error(t('license.detailsUnavailable'));
+    } else if (result) {
+      licenseService.updateInfo(result);
+      toast.success(t('license.refreshed'));
+    }
+  };
+
+  const handleReplace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newKey.trim();
+    if (!trimmed) {
+      toast.error(t('license.enterKey'));
+      return;
+    }
+
+    const result = await verify(trimmed);
+    if (!result) return;
+
+    if (result === 'unverified') {
+      licenseService.setKey(trimmed);
+      toast(t('license.appliedUnverified'), { duration: 6000 });
+    } else {
+      licenseService.setKey(trimmed, result);
+      toast.success(t('license.replaced'));
+    }
+    setNewKey('');
+    setShowReplace(false);
+  };
+
+  const handleSignOut = () => {
+    if (window.confirm(t('license.confirmSignOut'))) {
+      licenseService.clearKey('signed_out');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+            <KeyRound className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{t('license.title')}</h3>
+            <p className="text-sm text-gray-500">{t('license.subtitle')}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleRefresh}
+            disabled={isVerifying}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-50 border border-gray-200 rounded-lg transition-colors duration-200 flex items-center space-x-2 disabled:opacity-60"
+          >
+            <RefreshCw className={isVerifying ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+            <span>{t('license.recheck')}</span>
+          </button>
+          <button
+            onClick={handleSignOut}
+            className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 border border-red-200 rounded-lg transition-colors duration-200 flex items-center space-x-2"
+          >
+            <LogOut className="w-4 h-4" />
+            <span>{t('license.signOut')}</span>
+          </button>
+        </div>
+      </div>
+
+      {info ? (
+        <LicenseDetails info={info} licenseKey={licenseKey} />
+      ) : (
+        <p className="text-sm text-gray-500">
+          {t('license.detailsNotLoaded', { key: licenseService.maskKey(licenseKey) })}
+        </p>
+      )}
+
+      <div className="mt-6 pt-4 border-t border-gray-100">
+        {showReplace ? (
+          <form onSubmit={handleReplace} className="flex items-center space-x-3">
+            <input
+              type="text"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX-XXXX"
+              dir="ltr"
+              disabled={isVerifying}
+              autoFocus
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button
+              type="submit"
+              disabled={isVerifying}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg disabled:opacity-60"
+            >
+              {t(isVerifying ? 'license.verifying' : 'license.verifyAndReplace')}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setShowReplace(false);
+                setNewKey('');
+              }}
+              className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-50 rounded-lg"
+            >
+              {t('common.cancel')}
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setShowReplace(true)}
+            className="text-sm text-primary-600 hover:text-primary-700 underline"
+          >
+            {t('license.replaceKey')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LicenseSection;
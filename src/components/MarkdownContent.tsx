@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { Check, Copy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { t } from '@/services/i18n';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+// Flatten rendered children back into plain text (used for the copy button)
+const extractText = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(extractText).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) {
+    return extractText(node.props.children);
+  }
+  return '';
+};
+
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(extractText(children).replace(/\n$/, ''));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+      toast.error(t('markdown.copyFailed'));
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 end-2 p-1.5 rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 dark:bg-gray-200 dark:text-gray-700 dark:hover:bg-gray-300 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+        title={t('markdown.copyCode')}
+      >
+        {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+      </button>
+      <pre dir="ltr" className="bg-gray-900 text-gray-100 dark:bg-gray-50 dark:text-gray-800 rounded-lg p-4 overflow-x-auto text-xs leading-relaxed [&_code]:bg-transparent [&_code]:text-gray-100 dark:[&_code]:text-gray-800 [&_code]:p-0">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const markdownComponents: Components = {
+  h1: ({ children }) => <h1 className="text-lg font-semibold mt-4 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-semibold mt-4 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-semibold mt-3 mb-1">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-sm font-medium mt-3 mb-1">{children}</h4>,
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc ps-5 mb-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal ps-5 mb-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-s-4 border-gray-300 ps-3 my-2 text-gray-600 italic">{children}</blockquote>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:text-primary-700 underline">
+      {children}
+    </a>
+  ),
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  // Inline code; fenced blocks reset these styles through the surrounding <pre>
+  code: ({ children }) => (
+    <code className="bg-gray-100 text-gray-800 rounded px-1 py-0.5 text-xs font-mono">{children}</code>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="min-w-full text-xs border border-gray-200">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-gray-50">{children}</thead>,
+  th: ({ children }) => <th className="px-3 py-2 text-start font-semibold border-b border-gray-200">{children}</th>,
+  td: ({ children }) => <td className="px-3 py-2 border-b border-gray-100 align-top">{children}</td>,
+  hr: () => <hr className="my-3 border-gray-200" />,
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => {
+  return (
+    <div dir="auto" className="text-sm break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize]}
+        components={markdownComponents}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
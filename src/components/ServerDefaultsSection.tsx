@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Server, AlertTriangle } from 'lucide-react';
+import { SEARCH_TYPES } from '@/constants';
+import { apiService } from '@/services/api';
+import { AuthError, getApiErrorMessage } from '@/services/apiErrors';
+import { t } from '@/services/i18n';
+import { cn, getSearchTypeName } from '@/utils';
+import toast from 'react-hot-toast';
+
+interface ServerDefaultsSectionProps {
+  serverSearchType: string | null; // null when the backend does not report it
+  loading: boolean;
+  onServerSearchTypeChange: (searchType: string) => void;
+}
+
+// Admin control for the backend's default search strategy. Unlike the session settings
+// above it, this changes behaviour for every client and session without an override.
+const ServerDefaultsSection: React.FC<ServerDefaultsSectionProps> = ({
+  serverSearchType,
+  loading,
+  onServerSearchTypeChange,
+}) => {
+  const [pendingType, setPendingType] = useState<string | null>(serverSearchType);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setPendingType(serverSearchType);
+  }, [serverSearchType]);
+
+  const pendingLabel = getSearchTypeName(pendingType || undefined);
+
+  const handleApply = async () => {
+    if (!pendingType || pendingType === serverSearchType) return;
+    if (!window.confirm(t('serverDefaults.confirmChange', { searchType: pendingLabel }))) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await apiService.updateSearchType(pendingType);
+      onServerSearchTypeChange(response.search_type || pendingType);
+      toast.success(t('serverDefaults.changed', { searchType: pendingLabel }));
+    } catch (error) {
+      toast.error(error instanceof AuthError
+        ? t('serverDefaults.notAllowed')
+        : getApiErrorMessage(error, t('serverDefaults.updateFailed')));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-10 h-10 bg-orange-100 rounded-lg flex items-center justify-center">
+          <Server className="w-5 h-5 text-orange-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{t('serverDefaults.title')}</h3>
+          <p className="text-sm text-gray-500">{t('serverDefaults.subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg flex items-start space-x-2 text-sm text-orange-800">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <span>
+          {t('serverDefaults.warning')}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between mb-3 text-sm">
+        <span className="text-gray-700">{t('serverDefaults.defaultSearchType')}</span>
+        <span className="text-gray-500">
+          {loading
+            ? t('serverDefaults.loading')
+            : serverSearchType
+              ? <>{t('serverDefaults.currently')} <span className="font-medium text-gray-900">{getSearchTypeName(serverSearchType)}</span></>
+              : t('serverDefaults.notReported')}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        {SEARCH_TYPES.map(searchType => (
+          <button
+            key={searchType.value}
+            onClick={() => setPendingType(searchType.value)}
+            className={cn(
+              "p-3 text-start border rounded-lg transition-colors duration-200",
+              pendingType === searchType.value
+                ? "border-orange-300 bg-orange-50"
+                : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+            )}
+          >
+            <div className="font-medium text-gray-900 text-sm">{t(searchType.label)}</div>
+            {serverSearchType === searchType.value && (
+              <div className="text-xs text-gray-500">{t('serverDefaults.current')}</div>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleApply}
+          disabled={isSaving || !pendingType || pendingType === serverSearchType}
+          className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white text-sm rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t(isSaving ? 'serverDefaults.applying' : 'serverDefaults.apply')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ServerDefaultsSection;
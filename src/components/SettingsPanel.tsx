@@ -1,10 +1,23 @@
-import React, { useState } from 'react';
-import { Settings, Brain, Search, Thermometer, Save, RotateCcw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Settings, Brain, Search, Thermometer, Save, RotateCcw, FileText, AlertTriangle, X } from 'lucide-react';
 import { ChatSession } from '@/types';
 import { OPENAI_MODELS, SEARCH_TYPES, TEMPERATURE_PRESETS, DEFAULT_SETTINGS } from '@/constants';
-import { cn } from '@/utils';
+import { apiService } from '@/services/api';
+import { t } from '@/services/i18n';
+import { cn, isAbortError, getSearchTypeName } from '@/utils';
+import AppearanceSection from './AppearanceSection';
+import LanguageSection from './LanguageSection';
+import LicenseSection from './LicenseSection';
+import ServerDefaultsSection from './ServerDefaultsSection';
 import toast from 'react-hot-toast';
 
+// Resetting leaves the session's document scope alone
+const DEFAULT_ANSWER_SETTINGS: Partial<ChatSession['settings']> = {
+  model: DEFAULT_SETTINGS.model,
+  temperature: DEFAULT_SETTINGS.temperature,
+  search_type: DEFAULT_SETTINGS.search_type,
+};
+
 interface SettingsPanelProps {
   session: ChatSession;
   onSettingsUpdate: (settings: Partial<ChatSession['settings']>) => void;
@@ -13,6 +26,41 @@ interface SettingsPanelProps {
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate }) => {
   const [localSettings, setLocalSettings] = useState(session.settings);
   const [hasChanges, setHasChanges] = useState(false);
+  const [availableDocuments, setAvailableDocuments] = useState<string[] | null>(null);
+  const [serverSearchType, setServerSearchType] = useState<string | null>(null);
+  const [loadingServerDefaults, setLoadingServerDefaults] = useState(true);
+
+  // Load the knowledge base file list to flag selected documents that no longer exist
+  useEffect(() => {
+    const controller = new AbortController();
+    apiService.getAllDocuments({ signal: controller.signal })
+      .then(response => setAvailableDocuments(response.files.map(file => file.file_name)))
+      .catch(error => {
+        if (!isAbortError(error)) console.error('Failed to load documents:', error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Read the backend defaults so the session setting can show what "Server default" means
+  useEffect(() => {
+    const controller = new AbortController();
+    apiService.getRAGStatus({ signal: controller.signal })
+      .then(status => {
+        setServerSearchType(status.search_type || null);
+        setLoadingServerDefaults(false);
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Failed to load server defaults:', error);
+        setLoadingServerDefaults(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const selectedDocuments = localSettings.selected_documents || [];
+  const isStale = (fileName: string) =>
+    availableDocuments !== null && !availableDocuments.includes(fileName);
+  const staleCount = selectedDocuments.filter(isStale).length;
 
   const handleSettingChange = (key: keyof ChatSession['settings'], value: any) => {
     setLocalSettings(prev => ({ ...prev, [key]: value }));
@@ -22,36 +70,41 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
   const handleSave = () => {
     onSettingsUpdate(localSettings);
     setHasChanges(false);
-    toast.success('Settings saved successfully');
+    toast.success(t('settings.saved'));
   };
 
   const handleReset = () => {
-    setLocalSettings(DEFAULT_SETTINGS);
+    setLocalSettings(prev => ({ ...prev, ...DEFAULT_ANSWER_SETTINGS }));
     setHasChanges(true);
   };
 
   const handleResetToDefaults = () => {
-    if (window.confirm('Are you sure you want to reset all settings to defaults?')) {
-      onSettingsUpdate(DEFAULT_SETTINGS);
-      setLocalSettings(DEFAULT_SETTINGS);
+    if (window.confirm(t('settings.confirmReset'))) {
+      onSettingsUpdate(DEFAULT_ANSWER_SETTINGS);
+      setLocalSettings({ ...session.settings, ...DEFAULT_ANSWER_SETTINGS });
       setHasChanges(false);
-      toast.success('Settings reset to defaults');
+      toast.success(t('settings.resetDone'));
     }
   };
 
   const getModelDescription = (modelValue: string) => {
     const model = OPENAI_MODELS.find(m => m.value === modelValue);
-    return model?.description || '';
+    return model ? t(model.description) : '';
   };
 
-  const getSearchTypeDescription = (searchType: string) => {
-    const type = SEARCH_TYPES.find(t => t.value === searchType);
-    return type?.description || '';
+  const getSearchTypeDescription = (searchType?: string) => {
+    if (!searchType) {
+      return serverSearchType
+        ? t('settings.followsServerDefaultCurrent', { searchType: getSearchTypeName(serverSearchType) })
+        : t('settings.followsServerDefault');
+    }
+    const type = SEARCH_TYPES.find(option => option.value === searchType);
+    return type ? t(type.description) : '';
   };
 
   const getTemperatureDescription = (temp: number) => {
     const preset = TEMPERATURE_PRESETS.find(p => p.value === temp);
-    return preset?.description || '';
+    return preset ? t(preset.description) : '';
   };
 
   return (
@@ -60,9 +113,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
       <div className="bg-white border-b border-gray-200 px-6 py-4">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-xl font-semibold text-gray-900">Settings</h2>
+            <h2 className="text-xl font-semibold text-gray-900">{t('settings.title')}</h2>
             <p className="text-sm text-gray-500">
-              Configure your RAG assistant preferences and model settings
+              {t('settings.subtitle')}
             </p>
           </div>
           
@@ -72,7 +125,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               className="px-4 py-2 text-gray-600 hover:bg-gray-50 border border-gray-200 rounded-lg transition-colors duration-200 flex items-center space-x-2"
             >
               <RotateCcw className="w-4 h-4" />
-              <span>Reset to Defaults</span>
+              <span>{t('settings.resetToDefaults')}</span>
             </button>
             
             <button
@@ -80,7 +133,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               className="px-4 py-2 text-gray-600 hover:bg-gray-50 border border-gray-200 rounded-lg transition-colors duration-200 flex items-center space-x-2"
             >
               <RotateCcw className="w-4 h-4" />
-              <span>Reset Changes</span>
+              <span>{t('settings.resetChanges')}</span>
             </button>
             
             <button
@@ -94,7 +147,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               )}
             >
               <Save className="w-4 h-4" />
-              <span>Save Changes</span>
+              <span>{t('settings.saveChanges')}</span>
             </button>
           </div>
         </div>
@@ -111,8 +164,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                 <Brain className="w-5 h-5 text-primary-600" />
               </div>
               <div>
-                <h3 className="text-lg font-medium text-gray-900">AI Model</h3>
-                <p className="text-sm text-gray-500">Choose the OpenAI model for your conversations</p>
+                <h3 className="text-lg font-medium text-gray-900">{t('settings.modelTitle')}</h3>
+                <p className="text-sm text-gray-500">{t('settings.modelSubtitle')}</p>
               </div>
             </div>
             
@@ -139,7 +192,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                     />
                     <div>
                       <h4 className="font-medium text-gray-900">{model.label}</h4>
-                      <p className="text-sm text-gray-500">{model.description}</p>
+                      <p className="text-sm text-gray-500">{t(model.description)}</p>
 
                     </div>
                   </div>
@@ -155,8 +208,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                 <Thermometer className="w-5 h-5 text-orange-600" />
               </div>
               <div>
-                <h3 className="text-lg font-medium text-gray-900">Temperature</h3>
-                <p className="text-sm text-gray-500">Control the creativity and randomness of responses</p>
+                <h3 className="text-lg font-medium text-gray-900">{t('settings.temperatureTitle')}</h3>
+                <p className="text-sm text-gray-500">{t('settings.temperatureSubtitle')}</p>
               </div>
             </div>
             
@@ -165,7 +218,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-gray-700">
-                    Current: {localSettings.temperature}
+                    {t('settings.currentTemperature', { value: localSettings.temperature })}
                   </span>
                   <span className="text-sm text-gray-500">
                     {getTemperatureDescription(localSettings.temperature)}
@@ -191,7 +244,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               
               {/* Temperature Presets */}
               <div>
-                <h4 className="text-sm font-medium text-gray-700 mb-3">Quick Presets</h4>
+                <h4 className="text-sm font-medium text-gray-700 mb-3">{t('settings.quickPresets')}</h4>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                   {TEMPERATURE_PRESETS.map((preset) => (
                     <button
@@ -204,8 +257,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                           : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
                       )}
                     >
-                      <div className="font-medium">{preset.label}</div>
-                      <div className="text-xs text-gray-500">{preset.description}</div>
+                      <div className="font-medium">{t(preset.label)}</div>
+                      <div className="text-xs text-gray-500">{t(preset.description)}</div>
                     </button>
                   ))}
                 </div>
@@ -220,12 +273,37 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                 <Search className="w-5 h-5 text-green-600" />
               </div>
               <div>
-                <h3 className="text-lg font-medium text-gray-900">Search Strategy</h3>
-                <p className="text-sm text-gray-500">Choose how the system retrieves relevant information</p>
+                <h3 className="text-lg font-medium text-gray-900">{t('settings.searchTitle')}</h3>
+                <p className="text-sm text-gray-500">{t('settings.searchSubtitle')}</p>
               </div>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div
+                className={cn(
+                  "p-4 border rounded-lg cursor-pointer transition-all duration-200",
+                  !localSettings.search_type
+                    ? "border-primary-300 bg-primary-50"
+                    : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+                )}
+                onClick={() => handleSettingChange('search_type', undefined)}
+              >
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="radio"
+                    name="search_type"
+                    value=""
+                    checked={!localSettings.search_type}
+                    onChange={() => handleSettingChange('search_type', undefined)}
+                    className="w-4 h-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                  />
+                  <div>
+                    <h4 className="font-medium text-gray-900">{t('searchTypes.serverDefault')}</h4>
+                    <p className="text-sm text-gray-500">{getSearchTypeDescription(undefined)}</p>
+                  </div>
+                </div>
+              </div>
+
               {SEARCH_TYPES.map((searchType) => (
                 <div
                   key={searchType.value}
@@ -247,8 +325,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                       className="w-4 h-4 text-primary-600 border-gray-300 focus:ring-primary-500"
                     />
                     <div>
-                      <h4 className="font-medium text-gray-900">{searchType.label}</h4>
-                      <p className="text-sm text-gray-500">{searchType.description}</p>
+                      <h4 className="font-medium text-gray-900">{t(searchType.label)}</h4>
+                      <p className="text-sm text-gray-500">{t(searchType.description)}</p>
                     </div>
                   </div>
                 </div>
@@ -256,13 +334,86 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
             </div>
           </div>
 
+          {/* Document Scope */}
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                  <FileText className="w-5 h-5 text-purple-600" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900">{t('settings.scopeTitle')}</h3>
+                  <p className="text-sm text-gray-500">{t('settings.scopeSubtitle')}</p>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                {staleCount > 0 && (
+                  <button
+                    onClick={() => handleSettingChange('selected_documents', selectedDocuments.filter(name => !isStale(name)))}
+                    className="text-sm text-yellow-700 hover:text-yellow-800 underline"
+                  >
+                    {t('settings.removeUnavailable', { count: staleCount })}
+                  </button>
+                )}
+                {selectedDocuments.length > 0 && (
+                  <button
+                    onClick={() => handleSettingChange('selected_documents', [])}
+                    className="text-sm text-gray-500 hover:text-gray-700 underline"
+                  >
+                    {t('settings.clearScope')}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {selectedDocuments.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {t('settings.noScope')}
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {selectedDocuments.map((fileName) => (
+                  <li
+                    key={fileName}
+                    className={cn(
+                      "flex items-center justify-between px-3 py-2 rounded-lg border text-sm",
+                      isStale(fileName)
+                        ? "border-yellow-200 bg-yellow-50 text-yellow-800"
+                        : "border-gray-200 text-gray-700"
+                    )}
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      {isStale(fileName) ? (
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      ) : (
+                        <FileText className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                      )}
+                      <span className="truncate">{fileName}</span>
+                      {isStale(fileName) && (
+                        <span className="text-xs flex-shrink-0">— {t('collections.noLongerAvailable')}</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleSettingChange('selected_documents', selectedDocuments.filter(name => name !== fileName))}
+                      className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                      title={t('settings.removeFromScope')}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           {/* Current Settings Summary */}
           <div className="bg-gray-50 rounded-lg border border-gray-200 p-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-4">Current Configuration</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{t('settings.currentConfiguration')}</h3>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Model</h4>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{t('settings.model')}</h4>
                 <p className="text-lg font-semibold text-gray-900">
                   {OPENAI_MODELS.find(m => m.value === localSettings.model)?.label}
                 </p>
@@ -272,7 +423,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               </div>
               
               <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Temperature</h4>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{t('settings.temperature')}</h4>
                 <p className="text-lg font-semibold text-gray-900">
                   {localSettings.temperature}
                 </p>
@@ -282,17 +433,47 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
               </div>
               
               <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Search Type</h4>
-                <p className="text-lg font-semibold text-gray-900 capitalize">
-                  {localSettings.search_type}
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{t('settings.searchType')}</h4>
+                <p className="text-lg font-semibold text-gray-900">
+                  {getSearchTypeName(localSettings.search_type)}
                 </p>
                 <p className="text-sm text-gray-500 mt-1">
                   {getSearchTypeDescription(localSettings.search_type)}
                 </p>
               </div>
+
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{t('settings.scope')}</h4>
+                <p className="text-lg font-semibold text-gray-900">
+                  {selectedDocuments.length === 0
+                    ? t('settings.allDocuments')
+                    : t('common.documentCount', { count: selectedDocuments.length })}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {staleCount > 0
+                    ? t('settings.staleCount', { count: staleCount })
+                    : t('settings.scopeDescription')}
+                </p>
+              </div>
             </div>
           </div>
 
+          {/* Appearance (applies to this browser, not the session) */}
+          <AppearanceSection />
+
+          {/* Language (applies to this browser, not the session) */}
+          <LanguageSection />
+
+          {/* License (applies to this browser, not the session) */}
+          <LicenseSection />
+
+          {/* Server defaults (apply to every client, not just this session) */}
+          <ServerDefaultsSection
+            serverSearchType={serverSearchType}
+            loading={loadingServerDefaults}
+            onServerSearchTypeChange={setServerSearchType}
+          />
+
           {/* Save Changes Notice */}
           {hasChanges && (
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
@@ -301,9 +482,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ session, onSettingsUpdate
                   <Settings className="w-3 h-3 text-yellow-600" />
                 </div>
                 <div>
-                  <h4 className="text-sm font-medium text-yellow-800">Unsaved Changes</h4>
+                  <h4 className="text-sm font-medium text-yellow-800">{t('settings.unsavedTitle')}</h4>
                   <p className="text-sm text-yellow-700">
-                    You have unsaved changes. Click "Save Changes" to apply them to your session.
+                    {t('settings.unsavedMessage')}
                   </p>
                 </div>
               </div>
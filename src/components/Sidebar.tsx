@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   MessageSquare, 
   FileText, 
@@ -11,22 +11,34 @@ import {
   Check,
   X,
   Activity,
-  Clock
+  Clock,
+  Search,
+  Command,
+  Keyboard
 } from 'lucide-react';
 import { ChatSession } from '@/types';
-import { formatRelativeTime, getInitials, cn } from '@/utils';
+import { formatRelativeTime, getInitials, debounce, getSearchTypeName, cn } from '@/utils';
 import { chatStorageService } from '@/services/chatStorage';
+import { apiService } from '@/services/api';
+import { searchIndexService, SearchResult } from '@/services/searchIndex';
+import { AppView } from '@/services/router';
+import { t } from '@/services/i18n';
+import KeyboardShortcut from './KeyboardShortcut';
 
 interface SidebarProps {
   sessions: ChatSession[];
   currentSession: ChatSession | null;
   onCreateSession: () => void;
   onSwitchSession: (sessionId: string) => void;
+  onOpenSearchResult: (sessionId: string, messageId: string) => void;
   onDeleteSession: (sessionId: string) => void;
   onExportSessions: () => void;
   onImportSessions: (file: File) => void;
-  viewMode: 'chat' | 'documents' | 'settings';
-  onViewModeChange: (mode: 'chat' | 'documents' | 'settings') => void;
+  viewMode: AppView;
+  onViewModeChange: (mode: AppView) => void;
+  commandPaletteShortcut: string;
+  onOpenCommandPalette: () => void;
+  onShowShortcuts: () => void;
   apiHealth: boolean | null;
 }
 
@@ -35,25 +47,67 @@ const Sidebar: React.FC<SidebarProps> = ({
   currentSession,
   onCreateSession,
   onSwitchSession,
+  onOpenSearchResult,
   onDeleteSession,
   onExportSessions,
   onImportSessions,
   viewMode,
   onViewModeChange,
   apiHealth,
+  commandPaletteShortcut,
+  onOpenCommandPalette,
+  onShowShortcuts,
 }) => {
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [showImportInput, setShowImportInput] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  const updateDebouncedQuery = useMemo(() => debounce(setDebouncedQuery, 150), []);
+
+  // The index is built lazily on first search and then only updated for changed sessions
+  const searchResults = useMemo(() => {
+    if (!debouncedQuery.trim()) return [];
+    searchIndexService.syncSessions(sessions);
+    return searchIndexService.search(debouncedQuery);
+  }, [debouncedQuery, sessions]);
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchQuery(e.target.value);
+    updateDebouncedQuery(e.target.value);
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setDebouncedQuery('');
+    updateDebouncedQuery('');
+  };
+
+  const renderSnippet = (result: SearchResult) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    result.highlights.forEach(([start, end], i) => {
+      parts.push(result.snippet.slice(cursor, start));
+      parts.push(
+        <mark key={i} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+          {result.snippet.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+    parts.push(result.snippet.slice(cursor));
+    return parts;
+  };
 
   const handleEditSession = (session: ChatSession) => {
     setEditingSessionId(session.id);
     setEditingName(session.name);
   };
 
-  const handleSaveEdit = (sessionId: string) => {
+  const handleSaveEdit = async (sessionId: string) => {
     if (editingName.trim()) {
-      chatStorageService.updateSessionName(sessionId, editingName.trim());
+      await chatStorageService.updateSessionName(sessionId, editingName.trim());
       setEditingSessionId(null);
       setEditingName('');
       // Force re-render by updating the parent state
@@ -75,38 +129,57 @@ const Sidebar: React.FC<SidebarProps> = ({
   };
 
   const handleDeleteSession = (sessionId: string) => {
-    if (window.confirm('Are you sure you want to delete this chat session? This action cannot be undone.')) {
+    if (window.confirm(t('sidebar.confirmDelete'))) {
       onDeleteSession(sessionId);
     }
   };
 
-  const stats = chatStorageService.getSessionStats();
+  const stats = chatStorageService.getSessionStats(sessions);
 
   return (
-    <div className="w-80 bg-white border-r border-gray-200 flex flex-col h-full">
+    <div className="w-80 bg-white border-e border-gray-200 flex flex-col h-full">
       {/* Header */}
       <div className="p-6 border-b border-gray-200">
         <div className="flex items-center justify-between mb-4">
           <h1 className="text-2xl font-bold text-gray-900">RAG Assistant</h1>
-          <div className="flex items-center space-x-2">
+          <button
+            onClick={() => onViewModeChange('status')}
+            className="flex items-center space-x-2"
+            title={t('sidebar.backendStatus')}
+          >
             <div className={cn(
               "w-3 h-3 rounded-full",
               apiHealth === true ? "bg-green-500" : 
               apiHealth === false ? "bg-red-500" : "bg-yellow-500"
             )} />
             <span className="text-xs text-gray-500">
-              {apiHealth === true ? "Connected" : 
-               apiHealth === false ? "Disconnected" : "Checking..."}
+              {apiHealth === true ? t('status.connected') :
+               apiHealth === false ? t('status.disconnected') : t('status.checking')}
             </span>
-          </div>
+          </button>
         </div>
+
+        {apiService.usingMockBackend && (
+          <div className="mb-4 px-2 py-1 text-xs text-center bg-yellow-50 border border-yellow-200 text-yellow-800 rounded">
+            {t('sidebar.mockBackend')}
+          </div>
+        )}
         
         <button
           onClick={onCreateSession}
           className="w-full bg-primary-600 hover:bg-primary-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2"
         >
           <Plus className="w-4 h-4" />
-          <span>New Chat</span>
+          <span>{t('sidebar.newChat')}</span>
+        </button>
+
+        <button
+          onClick={onOpenCommandPalette}
+          className="mt-2 w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-500 border border-gray-200 rounded-lg hover:border-gray-300 hover:bg-gray-50 transition-colors duration-200"
+        >
+          <Command className="w-4 h-4" />
+          <span className="flex-1 text-start">{t('sidebar.commands')}</span>
+          <KeyboardShortcut binding={commandPaletteShortcut} />
         </button>
       </div>
 
@@ -123,7 +196,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             )}
           >
             <MessageSquare className="w-5 h-5" />
-            <span>Chat</span>
+            <span>{t('sidebar.chat')}</span>
           </button>
           
           <button
@@ -136,7 +209,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             )}
           >
             <FileText className="w-5 h-5" />
-            <span>Documents</span>
+            <span>{t('sidebar.documents')}</span>
           </button>
           
           <button
@@ -149,117 +222,185 @@ const Sidebar: React.FC<SidebarProps> = ({
             )}
           >
             <Settings className="w-5 h-5" />
-            <span>Settings</span>
+            <span>{t('sidebar.settings')}</span>
+          </button>
+
+          <button
+            onClick={() => onViewModeChange('status')}
+            className={cn(
+              "w-full flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors duration-200",
+              viewMode === 'status' 
+                ? "bg-primary-50 text-primary-700 border border-primary-200" 
+                : "text-gray-700 hover:bg-gray-50"
+            )}
+          >
+            <Activity className="w-5 h-5" />
+            <span>{t('sidebar.status')}</span>
           </button>
         </nav>
       </div>
 
       {/* Session List */}
       <div className="flex-1 overflow-y-auto p-4">
-        <div className="mb-4">
-          <h3 className="text-sm font-semibold text-gray-700 mb-2">Chat Sessions</h3>
-          <div className="text-xs text-gray-500 space-y-1">
-            <div className="flex justify-between">
-              <span>Total: {stats.totalSessions}</span>
-              <span>Messages: {stats.totalMessages}</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Avg: {stats.averageMessagesPerSession}</span>
-              <span>per session</span>
-            </div>
-          </div>
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 text-gray-400 absolute start-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={handleSearchChange}
+            onKeyDown={(e) => e.key === 'Escape' && clearSearch()}
+            placeholder={t('sidebar.searchPlaceholder')}
+            className="w-full ps-9 pe-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
         </div>
 
-        <div className="space-y-2">
-          {sessions.map((session) => (
-            <div
-              key={session.id}
-              className={cn(
-                "group relative p-3 rounded-lg border transition-all duration-200 cursor-pointer",
-                currentSession?.id === session.id
-                  ? "border-primary-300 bg-primary-50"
-                  : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
-              )}
-              onClick={() => onSwitchSession(session.id)}
-            >
-              {editingSessionId === session.id ? (
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="text"
-                    value={editingName}
-                    onChange={(e) => setEditingName(e.target.value)}
-                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
-                    autoFocus
-                  />
-                  <button
-                    onClick={() => handleSaveEdit(session.id)}
-                    className="p-1 text-green-600 hover:bg-green-100 rounded"
-                  >
-                    <Check className="w-4 h-4" />
-                  </button>
+        {debouncedQuery.trim() ? (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">
+                {t('sidebar.resultCount', { count: searchResults.length })}
+              </h3>
+              <button
+                onClick={clearSearch}
+                className="text-xs text-gray-500 hover:text-gray-700 underline"
+              >
+                {t('common.clear')}
+              </button>
+            </div>
+
+            {searchResults.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">
+                {t('sidebar.noResults', { query: debouncedQuery.trim() })}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {searchResults.map((result) => (
                   <button
-                    onClick={handleCancelEdit}
-                    className="p-1 text-red-600 hover:bg-red-100 rounded"
+                    key={result.messageId}
+                    onClick={() => onOpenSearchResult(result.sessionId, result.messageId)}
+                    className="w-full text-start p-3 rounded-lg border border-gray-200 hover:border-gray-300 hover:bg-gray-50 transition-colors duration-200"
                   >
-                    <X className="w-4 h-4" />
+                    <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                      <span className="font-medium text-gray-700 truncate">{result.sessionName}</span>
+                      <span className="flex-shrink-0 ms-2">{formatRelativeTime(result.timestamp)}</span>
+                    </div>
+                    <p className="text-xs text-gray-600 break-words">
+                      <span className="font-medium">{t(result.role === 'user' ? 'common.you' : 'common.assistant')}: </span>
+                      {renderSnippet(result)}
+                    </p>
                   </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="mb-4">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{t('sidebar.chatSessions')}</h3>
+              <div className="text-xs text-gray-500 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t('sidebar.statsTotal', { count: stats.totalSessions })}</span>
+                  <span>{t('sidebar.statsMessages', { count: stats.totalMessages })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('sidebar.statsAverage', { count: stats.averageMessagesPerSession })}</span>
+                  <span>{t('sidebar.perSession')}</span>
                 </div>
-              ) : (
-                <>
-                  <div className="flex items-center justify-between">
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className={cn(
+                    "group relative p-3 rounded-lg border transition-all duration-200 cursor-pointer",
+                    currentSession?.id === session.id
+                      ? "border-primary-300 bg-primary-50"
+                      : "border-gray-200 hover:border-gray-300 hover:bg-gray-50"
+                  )}
+                  onClick={() => onSwitchSession(session.id)}
+                >
+                  {editingSessionId === session.id ? (
                     <div className="flex items-center space-x-2">
-                      <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center">
-                        <span className="text-sm font-medium text-primary-700">
-                          {getInitials(session.name)}
-                        </span>
-                      </div>
-                      <div className="min-w-0 flex-1">
-                        <p className="text-sm font-medium text-gray-900 truncate">
-                          {session.name}
-                        </p>
-                        <p className="text-xs text-gray-500">
-                          {session.messages.length} messages
-                        </p>
-                      </div>
-                    </div>
-                    
-                    <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center space-x-1">
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        autoFocus
+                      />
                       <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleEditSession(session);
-                        }}
-                        className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                        onClick={() => handleSaveEdit(session.id)}
+                        className="p-1 text-green-600 hover:bg-green-100 rounded"
                       >
-                        <Edit3 className="w-3 h-3" />
+                        <Check className="w-4 h-4" />
                       </button>
                       <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteSession(session.id);
-                        }}
-                        className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-100 rounded"
+                        onClick={handleCancelEdit}
+                        className="p-1 text-red-600 hover:bg-red-100 rounded"
                       >
-                        <Trash2 className="w-3 h-3" />
+                        <X className="w-4 h-4" />
                       </button>
                     </div>
-                  </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center">
+                            <span className="text-sm font-medium text-primary-700">
+                              {getInitials(session.name)}
+                            </span>
+                          </div>
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm font-medium text-gray-900 truncate">
+                              {session.name}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {t('common.messageCount', { count: session.messages.length })}
+                            </p>
+                          </div>
+                        </div>
+                    
+                        <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center space-x-1">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleEditSession(session);
+                            }}
+                            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                          >
+                            <Edit3 className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteSession(session.id);
+                            }}
+                            className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-100 rounded"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
                   
-                  <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
-                    <div className="flex items-center space-x-1">
-                      <Clock className="w-3 h-3" />
-                      <span>{formatRelativeTime(session.updatedAt)}</span>
-                    </div>
-                    <div className="flex items-center space-x-1">
-                      <Activity className="w-3 h-3" />
-                      <span className="capitalize">{session.settings.search_type}</span>
-                    </div>
-                  </div>
-                </>
-              )}
+                      <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                        <div className="flex items-center space-x-1">
+                          <Clock className="w-3 h-3" />
+                          <span>{formatRelativeTime(session.updatedAt)}</span>
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <Activity className="w-3 h-3" />
+                          <span>{getSearchTypeName(session.settings.search_type)}</span>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
+          </>
+        )}
       </div>
 
       {/* Footer Actions */}
@@ -269,7 +410,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-200"
         >
           <Download className="w-4 h-4" />
-          <span>Export Sessions</span>
+          <span>{t('sidebar.exportSessions')}</span>
         </button>
         
         <button
@@ -277,7 +418,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-200"
         >
           <Upload className="w-4 h-4" />
-          <span>Import Sessions</span>
+          <span>{t('sidebar.importSessions')}</span>
         </button>
         
         {showImportInput && (
@@ -286,10 +427,18 @@ const Sidebar: React.FC<SidebarProps> = ({
               type="file"
               accept=".json"
               onChange={handleImportFile}
-              className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
+              className="w-full text-sm text-gray-500 file:me-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
             />
           </div>
         )}
+
+        <button
+          onClick={onShowShortcuts}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors duration-200"
+        >
+          <Keyboard className="w-4 h-4" />
+          <span>{t('sidebar.keyboardShortcuts')}</span>
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { BookOpen, ChevronDown, ChevronUp, FileText } from 'lucide-react';
+import { SourceCitation } from '@/types';
+import { t } from '@/services/i18n';
+import { cn, getSourceName } from '@/utils';
+
+interface SourceCitationsProps {
+  sources: SourceCitation[];
+}
+
+const SourceCitations: React.FC<SourceCitationsProps> = ({ sources }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  if (sources.length === 0) return null;
+
+  const handleCitationClick = (index: number) => {
+    setIsExpanded(true);
+    setActiveIndex(prev => (prev === index ? null : index));
+  };
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-1 text-xs font-medium text-gray-600">
+          <BookOpen className="w-3 h-3" />
+          <span>{t('sources.title')}</span>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+        >
+          <span>{t(isExpanded ? 'sources.hidePassages' : 'sources.showPassages')}</span>
+          {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </button>
+      </div>
+
+      {/* Numbered citation chips */}
+      <div className="flex flex-wrap gap-2">
+        {sources.map((source) => (
+          <button
+            key={source.index}
+            onClick={() => handleCitationClick(source.index)}
+            className={cn(
+              "flex items-center space-x-1 px-2 py-1 text-xs rounded-full border transition-colors duration-200 max-w-full",
+              activeIndex === source.index
+                ? "border-primary-300 bg-primary-50 text-primary-700"
+                : "border-gray-200 bg-gray-50 text-gray-600 hover:border-gray-300"
+            )}
+            title={getSourceName(source)}
+          >
+            <span className="font-semibold">[{source.index}]</span>
+            <span className="truncate max-w-[12rem]">{getSourceName(source)}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Expandable passages */}
+      {isExpanded && (
+        <div className="mt-3 space-y-2">
+          {sources
+            .filter(source => activeIndex === null || source.index === activeIndex)
+            .map((source) => (
+              <div key={source.index} className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center space-x-2 mb-1 text-xs font-medium text-gray-700">
+                  <FileText className="w-3 h-3" />
+                  <span>[{source.index}] {getSourceName(source)}</span>
+                </div>
+                <p dir="auto" className="text-xs text-gray-600 whitespace-pre-wrap max-h-48 overflow-y-auto">
+                  {source.content}
+                </p>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceCitations;
@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity, Server, Cpu, HardDrive, RefreshCw, Clock } from 'lucide-react';
+import { RAGStatus } from '@/types';
+import { apiService } from '@/services/api';
+import { getApiErrorMessage } from '@/services/apiErrors';
+import { HealthSnapshot, healthMonitorService } from '@/services/healthMonitor';
+import { t } from '@/services/i18n';
+import { formatDate, formatRelativeTime, cn, isAbortError } from '@/utils';
+
+interface StatusDashboardProps {
+  health: HealthSnapshot;
+}
+
+const StatusDashboard: React.FC<StatusDashboardProps> = ({ health }) => {
+  const [ragStatus, setRagStatus] = useState<RAGStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set while the last load failed, so the next recovery of the backend triggers one reload
+  const reloadOnRecoveryRef = useRef(false);
+
+  const loadStatus = async (signal?: AbortSignal) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRagStatus(await apiService.getRAGStatus({ signal }));
+      reloadOnRecoveryRef.current = false;
+    } catch (err) {
+      if (isAbortError(err)) return;
+      reloadOnRecoveryRef.current = true;
+      setError(getApiErrorMessage(err, t('status.loadFailed')));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadStatus(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  // Reload the configuration once the backend comes back after an outage
+  useEffect(() => {
+    if (health.status === 'online' && reloadOnRecoveryRef.current) {
+      reloadOnRecoveryRef.current = false;
+      loadStatus();
+    }
+  }, [health.status]);
+
+  const formatTimestamp = (value?: string | Date | null) => {
+    if (!value) return '—';
+    const date = typeof value === 'string' ? new Date(value) : value;
+    if (isNaN(date.getTime())) return String(value);
+    return `${formatDate(date, 'MMM dd, yyyy HH:mm:ss')} (${formatRelativeTime(date)})`;
+  };
+
+  const statusRows: Array<{ icon: React.ElementType; label: string; value: string; mono?: boolean }> = [
+    { icon: Activity, label: t('status.ragStatus'), value: ragStatus?.status || '—' },
+    { icon: Cpu, label: t('status.embeddingModel'), value: ragStatus?.embedding_model || '—', mono: true },
+    { icon: Cpu, label: t('status.llmModel'), value: ragStatus?.llm_model || '—', mono: true },
+    { icon: HardDrive, label: t('status.persistDirectory'), value: ragStatus?.persist_directory || '—', mono: true },
+    { icon: Clock, label: t('status.reportedAt'), value: formatTimestamp(ragStatus?.timestamp) },
+  ];
+
+  const healthRows = [
+    { label: t('status.lastHealthResponse'), value: formatTimestamp(health.lastResponse?.timestamp) },
+    { label: t('status.healthMessage'), value: health.lastResponse?.message || '—' },
+    { label: t('status.lastSuccessfulCheck'), value: formatTimestamp(health.lastHealthyAt) },
+    { label: t('status.lastCheck'), value: formatTimestamp(health.lastCheckedAt) },
+    { label: t('status.nextCheck'), value: health.nextCheckAt ? formatTimestamp(health.nextCheckAt) : t('status.inProgress') },
+    { label: t('status.failedChecks'), value: String(health.consecutiveFailures) },
+  ];
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{t('status.title')}</h2>
+            <p className="text-sm text-gray-500">
+              {t('status.subtitle')}
+            </p>
+          </div>
+
+          <button
+            onClick={() => {
+              healthMonitorService.checkNow();
+              loadStatus();
+            }}
+            disabled={loading}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50"
+          >
+            <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+            <span>{t('common.refresh')}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-4xl mx-auto space-y-8">
+          {/* Connection */}
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="w-10 h-10 bg-primary-100 rounded-lg flex items-center justify-center">
+                <Server className="w-5 h-5 text-primary-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{t('status.connectionTitle')}</h3>
+                <p className="text-sm text-gray-500">{t('status.connectionSubtitle')}</p>
+              </div>
+              <div className="flex-1" />
+              <span
+                className={cn(
+                  "px-3 py-1 rounded-full text-sm font-medium",
+                  health.status === 'online' ? "bg-green-100 text-green-700" :
+                  health.status === 'offline' ? "bg-red-100 text-red-700" : "bg-yellow-100 text-yellow-700"
+                )}
+              >
+                {t(health.status === 'online' ? 'status.connected' : health.status === 'offline' ? 'status.disconnected' : 'status.checking')}
+              </span>
+            </div>
+
+            {health.error && health.status !== 'online' && (
+              <p className="mb-4 text-sm text-red-600">{health.error}</p>
+            )}
+
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {healthRows.map(row => (
+                <div key={row.label}>
+                  <dt className="text-xs text-gray-500">{row.label}</dt>
+                  <dd className="text-sm text-gray-900">{row.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          {/* Configuration */}
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="w-10 h-10 bg-primary-100 rounded-lg flex items-center justify-center">
+                <Activity className="w-5 h-5 text-primary-600" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{t('status.pipelineTitle')}</h3>
+                <p className="text-sm text-gray-500">{t('status.pipelineSubtitle')} <code dir="ltr">/api/rag/status</code></p>
+              </div>
+            </div>
+
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : (
+              <dl className={cn("space-y-3", loading && !ragStatus && "opacity-60")}>
+                {statusRows.map(({ icon: Icon, label, value, mono }) => (
+                  <div key={label} className="flex items-start space-x-3">
+                    <Icon className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <dt className="w-40 text-sm text-gray-500 flex-shrink-0">{label}</dt>
+                    <dd className={cn("text-sm text-gray-900 break-all", mono && "font-mono")} dir={mono ? "ltr" : undefined}>{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatusDashboard;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Copy, Upload, X } from 'lucide-react';
+import { UploadCheck, UploadConflictKind, UploadConflictResolution } from '@/services/documentHashes';
+import { t, MessageKey } from '@/services/i18n';
+import { formatFileSize, cn } from '@/utils';
+
+interface UploadConflictDialogProps {
+  checks: UploadCheck[];
+  onConfirm: (resolutions: UploadConflictResolution[]) => void; // one per check, in order
+  onCancel: () => void;
+}
+
+const RESOLUTION_OPTIONS: Array<{ value: UploadConflictResolution; label: MessageKey; description: MessageKey }> = [
+  { value: 'skip', label: 'uploadConflict.skip', description: 'uploadConflict.skipDescription' },
+  { value: 'replace', label: 'uploadConflict.replace', description: 'uploadConflict.replaceDescription' },
+  { value: 'keep_both', label: 'uploadConflict.keepBoth', description: 'uploadConflict.keepBothDescription' },
+];
+
+const CONFLICT_DESCRIPTIONS: Record<UploadConflictKind, MessageKey> = {
+  duplicate: 'uploadConflict.duplicate',
+  changed: 'uploadConflict.changed',
+  name_taken: 'uploadConflict.nameTaken',
+};
+
+// Identical files default to skip; new versions of a file default to replacing the old chunks.
+// Files without a conflict are always uploaded, whatever their entry says.
+const getDefaultResolution = (check: UploadCheck): UploadConflictResolution =>
+  check.conflict === 'duplicate' ? 'skip' : 'replace';
+
+const getOptions = (check: UploadCheck) =>
+  check.inBatch ? RESOLUTION_OPTIONS.filter(option => option.value !== 'replace') : RESOLUTION_OPTIONS;
+
+const UploadConflictDialog: React.FC<UploadConflictDialogProps> = ({ checks, onConfirm, onCancel }) => {
+  const [resolutions, setResolutions] = useState<UploadConflictResolution[]>(() => checks.map(getDefaultResolution));
+
+  const conflicts = checks
+    .map((check, index) => ({ check, index }))
+    .filter(({ check }) => check.conflict);
+  const newCount = checks.length - conflicts.length;
+
+  const setAllResolutions = (resolution: UploadConflictResolution) => {
+    setResolutions(checks.map(check =>
+      !check.conflict || (check.inBatch && resolution === 'replace') ? getDefaultResolution(check) : resolution
+    ));
+  };
+
+  const uploadCount = checks.filter((check, index) => !check.conflict || resolutions[index] !== 'skip').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-white rounded-xl shadow-lg border border-gray-200 flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
+              <Copy className="w-5 h-5 text-yellow-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{t('uploadConflict.title')}</h2>
+              <p className="text-sm text-gray-500">
+                {t('uploadConflict.subtitle', { conflicts: conflicts.length, count: checks.length })}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} title={t('common.close')} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {t('uploadConflict.explanation')}
+            </p>
+            <div className="flex items-center space-x-2 text-xs flex-shrink-0 ms-3">
+              <span className="text-gray-500">{t('uploadConflict.setAll')}</span>
+              {RESOLUTION_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setAllResolutions(option.value)}
+                  className="text-primary-600 hover:text-primary-700 underline"
+                >
+                  {t(option.label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {conflicts.map(({ check, index }) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3">
+                <div className="mb-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-900 truncate">{check.file.name}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0 ms-2">{formatFileSize(check.file.size)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {check.inBatch
+                      ? t('uploadConflict.inBatch', { name: check.existingName || '' })
+                      : check.existingName !== check.file.name
+                        ? t('uploadConflict.existingName', { description: t(CONFLICT_DESCRIPTIONS[check.conflict!]), name: check.existingName || '' })
+                        : t(CONFLICT_DESCRIPTIONS[check.conflict!])}
+                  </p>
+                </div>
+
+                <div className="flex space-x-2">
+                  {getOptions(check).map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setResolutions(prev => prev.map((value, i) => i === index ? option.value : value))}
+                      title={t(option.description)}
+                      className={cn(
+                        "flex-1 px-2 py-1.5 text-xs rounded-lg border transition-colors duration-200",
+                        resolutions[index] === option.value
+                          ? "border-primary-300 bg-primary-50 text-primary-700"
+                          : "border-gray-200 text-gray-600 hover:border-gray-300 hover:bg-gray-50"
+                      )}
+                    >
+                      {t(option.label)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <p className="text-xs text-gray-500">
+            {newCount > 0 && `${t('uploadConflict.newCount', { count: newCount })} · `}{t('uploadConflict.toUpload', { count: uploadCount })}
+          </p>
+          <div className="flex items-center space-x-3">
+            <button onClick={onCancel} className="btn-secondary">
+              {t('common.cancel')}
+            </button>
+            <button onClick={() => onConfirm(resolutions)} className="btn-primary flex items-center space-x-2">
+              <Upload className="w-4 h-4" />
+              <span>{uploadCount === 0 ? t('uploadConflict.skipAll') : t('uploadConflict.upload', { count: uploadCount })}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UploadConflictDialog;
@@ -0,0 +1,179 @@
+import React from 'react';
+import { CheckCircle, XCircle, Loader2, RotateCcw, X, Ban, Clock } from 'lucide-react';
+import { UploadQueueSnapshot, UploadQueueItem, uploadQueueService } from '@/services/uploadQueue';
+import { UPLOAD_QUEUE } from '@/constants';
+import { t, MessageKey } from '@/services/i18n';
+import { formatFileSize, cn } from '@/utils';
+
+interface UploadQueuePanelProps {
+  queue: UploadQueueSnapshot;
+}
+
+const isActive = (item: UploadQueueItem) =>
+  item.status === 'queued' || item.status === 'uploading' || item.status === 'processing';
+
+const STATUS_LABELS: Record<UploadQueueItem['status'], MessageKey> = {
+  queued: 'uploadQueue.queued',
+  uploading: 'uploadQueue.uploading',
+  processing: 'uploadQueue.processing',
+  done: 'uploadQueue.done',
+  error: 'uploadQueue.error',
+  cancelled: 'uploadQueue.cancelled',
+};
+
+const UploadQueuePanel: React.FC<UploadQueuePanelProps> = ({ queue }) => {
+  const { items, concurrency, summary } = queue;
+  if (items.length === 0) return null;
+
+  const activeCount = items.filter(isActive).length;
+  const failedCount = items.filter(item => item.status === 'error').length;
+  const doneCount = items.filter(item => item.status === 'done').length;
+
+  const renderStatusIcon = (item: UploadQueueItem) => {
+    switch (item.status) {
+      case 'queued':
+        return <Clock className="w-4 h-4 text-gray-400" />;
+      case 'uploading':
+      case 'processing':
+        return <Loader2 className="w-4 h-4 text-primary-600 animate-spin" />;
+      case 'done':
+        return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'error':
+        return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-gray-400" />;
+    }
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-6 py-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">{t('uploadQueue.title')}</h3>
+          <p className="text-xs text-gray-500">
+            {activeCount > 0
+              ? `${t('uploadQueue.inProgress', { count: activeCount })} · ${t('uploadQueue.uploadedCount', { count: doneCount, total: items.length })}`
+              : t('uploadQueue.uploadedCount', { count: doneCount, total: items.length })}
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-3 text-sm">
+          <label className="flex items-center space-x-2 text-gray-600">
+            <span>{t('uploadQueue.parallelUploads')}</span>
+            <select
+              value={concurrency}
+              onChange={(e) => uploadQueueService.setConcurrency(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {Array.from({ length: UPLOAD_QUEUE.MAX_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+
+          {failedCount > 0 && (
+            <button
+              onClick={() => uploadQueueService.retryFailed()}
+              className="text-primary-600 hover:text-primary-700 underline"
+            >
+              {t('uploadQueue.retryFailed', { count: failedCount })}
+            </button>
+          )}
+          {activeCount > 0 ? (
+            <button
+              onClick={() => uploadQueueService.cancelAll()}
+              className="text-red-600 hover:text-red-700 underline"
+            >
+              {t('uploadQueue.cancelAll')}
+            </button>
+          ) : (
+            <button
+              onClick={() => uploadQueueService.clearFinished()}
+              className="text-gray-500 hover:text-gray-700 underline"
+            >
+              {t('common.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Batch summary */}
+      {summary && (
+        <div
+          className={cn(
+            "mb-3 px-3 py-2 rounded-lg border text-sm",
+            summary.failed > 0
+              ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+              : "bg-green-50 border-green-200 text-green-800"
+          )}
+        >
+          {t('uploadQueue.batchFinished', { count: summary.succeeded, chunks: summary.chunks })}
+          {summary.failed > 0 && ` · ${t('uploadQueue.failedCount', { count: summary.failed })}`}
+          {summary.cancelled > 0 && ` · ${t('uploadQueue.cancelledCount', { count: summary.cancelled })}`}
+        </div>
+      )}
+
+      {/* Items */}
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center space-x-3 text-sm">
+            <div className="flex-shrink-0">{renderStatusIcon(item)}</div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between">
+                <span className="truncate text-gray-900">{item.file.name}</span>
+                <span className="flex-shrink-0 ms-2 text-xs text-gray-500">
+                  {item.status === 'uploading'
+                    ? t('uploadQueue.progress', { percent: Math.round(item.progress * 100), size: formatFileSize(item.file.size) })
+                    : item.status === 'done' && item.result
+                      ? t('common.chunkCount', { count: item.result.documents_processed })
+                      : t(STATUS_LABELS[item.status])}
+                </span>
+              </div>
+
+              {(item.status === 'uploading' || item.status === 'processing') && (
+                <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full bg-primary-500 transition-all duration-200",
+                      item.status === 'processing' && "animate-pulse"
+                    )}
+                    style={{ width: `${Math.round(item.progress * 100)}%` }}
+                  />
+                </div>
+              )}
+
+              {item.error && (
+                <p className="mt-0.5 text-xs text-red-600 truncate" title={item.error}>{item.error}</p>
+              )}
+            </div>
+
+            <div className="flex-shrink-0">
+              {isActive(item) ? (
+                <button
+                  onClick={() => uploadQueueService.cancel(item.id)}
+                  disabled={item.status === 'processing'}
+                  className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-gray-400 disabled:hover:bg-transparent"
+                  title={t(item.status === 'processing' ? 'uploadQueue.cannotCancel' : 'uploadQueue.cancelUpload')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              ) : (item.status === 'error' || item.status === 'cancelled') ? (
+                <button
+                  onClick={() => uploadQueueService.retry(item.id)}
+                  className="p-1 text-gray-400 hover:text-primary-600 hover:bg-primary-50 rounded"
+                  title={t('uploadQueue.retryUpload')}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadQueuePanel;
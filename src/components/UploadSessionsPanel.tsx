@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { FolderOpen, Edit2, Trash2, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { DocumentFileInfo } from '@/types';
+import { t } from '@/services/i18n';
+import { formatDate, groupDocumentsBySession, cn } from '@/utils';
+
+interface UploadSessionsPanelProps {
+  documents: DocumentFileInfo[];
+  currentSessionId: string;
+  labels: Record<string, string>;
+  onRename: (sessionId: string, label: string) => void;
+  onDelete: (sessionId: string) => Promise<void>;
+}
+
+const UploadSessionsPanel: React.FC<UploadSessionsPanelProps> = ({
+  documents,
+  currentSessionId,
+  labels,
+  onRename,
+  onDelete,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupDocumentsBySession(documents), [documents]);
+
+  const handleSaveLabel = (sessionId: string) => {
+    setEditingId(null);
+    if (editingLabel.trim() !== (labels[sessionId] || '')) {
+      onRename(sessionId, editingLabel);
+    }
+  };
+
+  const handleDelete = async (sessionId: string, fileCount: number) => {
+    const name = labels[sessionId] || sessionId;
+    if (!window.confirm(t('uploadSessions.confirmDelete', { name, files: t('common.fileCount', { count: fileCount }) }))) {
+      return;
+    }
+
+    setDeletingId(sessionId);
+    try {
+      await onDelete(sessionId);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const formatRange = (first: Date | null, last: Date | null) => {
+    if (!first || !last) return t('uploadSessions.unknownDate');
+    const start = formatDate(first, 'MMM dd, yyyy HH:mm');
+    const end = formatDate(last, 'MMM dd, yyyy HH:mm');
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-6 py-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <FolderOpen className="w-4 h-4 text-primary-600" />
+        <h3 className="text-sm font-medium text-gray-900">{t('uploadSessions.title')}</h3>
+        <span className="text-xs text-gray-500">
+          {t('uploadSessions.subtitle')}
+        </span>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('uploadSessions.empty')}</p>
+      ) : (
+        <ul className="space-y-2 max-h-72 overflow-y-auto">
+          {groups.map(group => {
+            const expanded = expandedId === group.sessionId;
+            const label = labels[group.sessionId];
+            const deleting = deletingId === group.sessionId;
+
+            return (
+              <li key={group.sessionId} className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between px-3 py-2">
+                  <div className="flex items-start space-x-2 min-w-0">
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : group.sessionId)}
+                      className="p-0.5 mt-0.5 text-gray-400 hover:text-gray-600"
+                    >
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4 rtl:-scale-x-100" />}
+                    </button>
+
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        {editingId === group.sessionId ? (
+                          <input
+                            type="text"
+                            value={editingLabel}
+                            onChange={(e) => setEditingLabel(e.target.value)}
+                            onBlur={() => handleSaveLabel(group.sessionId)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleSaveLabel(group.sessionId);
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            placeholder={t('uploadSessions.labelPlaceholder')}
+                            autoFocus
+                            className="px-2 py-0.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                        ) : label ? (
+                          <span className="text-sm font-medium text-gray-900 truncate">{label}</span>
+                        ) : (
+                          <code className="text-xs font-mono text-gray-700 truncate">{group.sessionId}</code>
+                        )}
+                        {group.sessionId === currentSessionId && (
+                          <span className="px-1.5 py-0.5 text-xs bg-primary-50 text-primary-700 rounded flex-shrink-0">
+                            {t('uploadSessions.current')}
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {label && <code className="font-mono me-2">{group.sessionId}</code>}
+                        {t('common.fileCount', { count: group.files.length })} · {t('common.chunkCount', { count: group.totalChunks })} · {formatRange(group.firstUploadedAt, group.lastUploadedAt)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button
+                      onClick={() => {
+                        setEditingId(group.sessionId);
+                        setEditingLabel(label || '');
+                      }}
+                      className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                      title={t('uploadSessions.rename')}
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(group.sessionId, group.files.length)}
+                      disabled={deleting}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                      title={t('uploadSessions.delete')}
+                    >
+                      {deleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+
+                {expanded && (
+                  <ul className="px-3 pb-3 pt-2 border-t border-gray-100 space-y-1">
+                    {group.files.map(file => (
+                      <li key={file.file_name} className="flex items-center justify-between text-xs text-gray-700">
+                        <span className="truncate">{file.file_name}</span>
+                        <span className={cn(
+                          "flex-shrink-0 ms-2",
+                          file.sessions.length > 1 ? "text-primary-600" : "text-gray-500"
+                        )}>
+                          {t('common.chunkCount', { count: file.total_chunks })}
+                          {file.sessions.length > 1 && ` · ${t('uploadSessions.inSessions', { count: file.sessions.length })}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UploadSessionsPanel;
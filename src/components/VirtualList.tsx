@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/utils';
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemHeight: number; // every row must render at exactly this height
+  renderItem: (item: T, index: number) => React.ReactNode;
+  getKey: (item: T, index: number) => string;
+  maxHeight?: number; // fixed viewport that shrinks to fit short lists; otherwise fills the parent
+  overscan?: number;
+  className?: string;
+}
+
+// Renders only the rows inside the scroll viewport so lists with thousands of entries stay responsive
+function VirtualList<T>({
+  items,
+  itemHeight,
+  renderItem,
+  getKey,
+  maxHeight,
+  overscan = 5,
+  className,
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(maxHeight ?? 0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const totalHeight = items.length * itemHeight;
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / itemHeight) + overscan);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className={cn("overflow-y-auto", className)}
+      style={maxHeight !== undefined ? { height: Math.min(maxHeight, totalHeight) } : undefined}
+    >
+      <div className="relative" style={{ height: totalHeight }}>
+        {items.slice(start, end).map((item, offset) => {
+          const index = start + offset;
+          return (
+            <div
+              key={getKey(item, index)}
+              className="absolute left-0 right-0"
+              style={{ top: index * itemHeight, height: itemHeight }}
+            >
+              {renderItem(item, index)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -1,67 +1,81 @@
-import { ModelOption, SearchTypeOption } from '@/types';
+import { ChatSession, ModelOption, SearchTypeOption, DocumentSort, DocumentFilters, ShortcutAction, Language } from '@/types';
+import type { MessageKey } from '@/services/i18n';
+
+// Labels and descriptions below are message keys (see src/locales) unless they are product names
 
 export const OPENAI_MODELS: ModelOption[] = [
   {
     value: 'gpt-5',
     label: 'GPT-5',
-    description: 'Latest and most capable model, best for complex reasoning and analysis',
+    description: 'models.latestDescription',
   },
   {
     value: 'gpt-5-mini',
     label: 'GPT-5 Mini',
-    description: 'Fast and efficient, great for most tasks',
+    description: 'models.fastDescription',
   },
   {
     value: 'gpt-4o',
     label: 'GPT-4o',
-    description: 'Most capable model, best for complex reasoning and analysis',
+    description: 'models.capableDescription',
   },
   {
     value: 'gpt-4o-mini',
     label: 'GPT-4o Mini',
-    description: 'Fast and efficient, great for most tasks',
+    description: 'models.fastDescription',
   },
   {
     value: 'gpt-4.1',
     label: 'GPT-4.1',
-    description: 'Advanced model with enhanced reasoning capabilities',
+    description: 'models.advancedDescription',
   },
   {
     value: 'gpt-4.1-mini',
     label: 'GPT-4.1 Mini',
-    description: 'Balanced performance and speed for everyday use',
+    description: 'models.balancedDescription',
   },
 ];
 
 export const SEARCH_TYPES: SearchTypeOption[] = [
   {
     value: 'hybrid',
-    label: 'Hybrid Search',
-    description: 'Combines semantic and keyword search for best results',
+    label: 'searchTypes.hybrid',
+    shortLabel: 'searchTypes.hybridShort',
+    description: 'searchTypes.hybridDescription',
   },
   {
     value: 'semantic',
-    label: 'Semantic Search',
-    description: 'Uses vector similarity for context-aware results',
+    label: 'searchTypes.semantic',
+    shortLabel: 'searchTypes.semanticShort',
+    description: 'searchTypes.semanticDescription',
   },
   {
     value: 'keyword',
-    label: 'Keyword Search',
-    description: 'Uses BM25 algorithm for exact keyword matching',
+    label: 'searchTypes.keyword',
+    shortLabel: 'searchTypes.keywordShort',
+    description: 'searchTypes.keywordDescription',
   },
 ];
 
 export const DEFAULT_SETTINGS = {
   model: 'gpt-4o-mini',
   temperature: 0.0,
-  search_type: 'hybrid' as const,
+  search_type: undefined as ChatSession['settings']['search_type'], // Follow the server default
+  selected_documents: [] as string[],
 };
 
-export const TEMPERATURE_PRESETS = [
-  { value: 0.0, label: 'Deterministic', description: 'Most focused and consistent' },
-  { value: 0.3, label: 'Creative', description: 'Balanced creativity and focus' },
-  { value: 0.7, label: 'Very Creative', description: 'More varied and imaginative' },
-  { value: 1.0, label: 'Maximum Creativity', description: 'Most diverse and creative' },
+export const TEMPERATURE_PRESETS: Array<{ value: number; label: MessageKey; description: MessageKey }> = [
+  { value: 0.0, label: 'temperature.deterministic', description: 'temperature.deterministicDescription' },
+  { value: 0.3, label: 'temperature.creative', description: 'temperature.creativeDescription' },
+  { value: 0.7, label: 'temperature.veryCreative', description: 'temperature.veryCreativeDescription' },
+  { value: 1.0, label: 'temperature.maximum', description: 'temperature.maximumDescription' },
+];
+
+// Names are shown in their own language and script
+export const LANGUAGES: Array<{ value: Language; label: string; dir: 'ltr' | 'rtl' }> = [
+  { value: 'en', label: 'English', dir: 'ltr' },
+  { value: 'ar', label: 'العربية', dir: 'rtl' },
+  { value: 'ur', label: 'اردو', dir: 'rtl' },
 ];
 
 export const FILE_TYPES = {
@@ -92,3 +106,70 @@ export const NOTIFICATIONS = {
   ERROR_DURATION: 5000,
   INFO_DURATION: 4000,
 };
+
+export const API_CONFIG = {
+  DEFAULT_TIMEOUT: 30000,
+  QUERY_TIMEOUT: 120000,
+  STREAM_CONNECT_TIMEOUT: 60000, // time to first byte; the stream itself may run longer
+  STREAM_IDLE_TIMEOUT: 60000, // longest gap between chunks once a stream has started
+  UPLOAD_TIMEOUT: 300000,
+  GET_RETRIES: 3, // only idempotent GETs are retried
+  RETRY_DELAY: 1000,
+  MAX_RETRY_AFTER: 30000, // longest server-requested wait before a retry
+};
+
+export const LICENSE = {
+  EXPIRY_WARNING_DAYS: 14,
+};
+
+export const HEALTH_MONITOR = {
+  INTERVAL: 30000, // while connected
+  MIN_RETRY_DELAY: 2000, // doubles after each failed check
+  MAX_RETRY_DELAY: 60000,
+  TIMEOUT: 10000,
+  RECOVERED_BANNER_DURATION: 5000,
+};
+
+export const UPLOAD_QUEUE = {
+  DEFAULT_CONCURRENCY: 3,
+  MAX_CONCURRENCY: 6,
+};
+
+export const CHUNK_VIEWER = {
+  PAGE_SIZE: 20,
+  LOW_TEXT_THRESHOLD: 40, // characters; less usually means a scanned page without OCR
+};
+
+export const KEYBOARD_SHORTCUTS: Array<{ action: ShortcutAction; label: MessageKey; defaultBinding: string }> = [
+  { action: 'command_palette', label: 'shortcuts.commandPalette', defaultBinding: 'Mod+K' },
+  { action: 'show_shortcuts', label: 'shortcuts.showShortcuts', defaultBinding: '?' },
+  { action: 'new_session', label: 'shortcuts.newSession', defaultBinding: 'Alt+N' },
+  { action: 'focus_input', label: 'shortcuts.focusInput', defaultBinding: '/' },
+  { action: 'toggle_document_selector', label: 'shortcuts.toggleDocumentSelector', defaultBinding: 'Alt+D' },
+  { action: 'next_session', label: 'shortcuts.nextSession', defaultBinding: 'Alt+ArrowDown' },
+  { action: 'previous_session', label: 'shortcuts.previousSession', defaultBinding: 'Alt+ArrowUp' },
+];
+
+export const CONTENT_TYPE_LABELS: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOCX',
+  'text/plain': 'Text',
+  'text/markdown': 'Markdown',
+};
+
+export const DOCUMENT_SORT_OPTIONS: Array<{ value: DocumentSort; label: MessageKey }> = [
+  { value: 'date-desc', label: 'documentFilters.sortNewest' },
+  { value: 'date-asc', label: 'documentFilters.sortOldest' },
+  { value: 'name-asc', label: 'documentFilters.sortNameAsc' },
+  { value: 'name-desc', label: 'documentFilters.sortNameDesc' },
+  { value: 'chunks-desc', label: 'documentFilters.sortMostChunks' },
+  { value: 'chunks-asc', label: 'documentFilters.sortFewestChunks' },
+];
+
+export const DEFAULT_DOCUMENT_FILTERS: DocumentFilters = {
+  query: '',
+  contentType: '',
+  uploadedFrom: '',
+  uploadedTo: '',
+  sort: 'date-desc',
+};
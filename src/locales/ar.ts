@@ -0,0 +1,574 @@
+import type { MessageCatalog } from '@/services/i18n';
+
+// Arabic messages. Plural messages use all six Arabic plural forms.
+const ar: MessageCatalog = {
+  common: {
+    cancel: 'إلغاء',
+    close: 'إغلاق',
+    save: 'حفظ',
+    delete: 'حذف',
+    rename: 'إعادة تسمية',
+    retry: 'إعادة المحاولة',
+    refresh: 'تحديث',
+    loading: 'جارٍ التحميل...',
+    done: 'تم',
+    apply: 'تطبيق',
+    clear: 'مسح',
+    messageCount: { zero: 'لا رسائل', one: 'رسالة واحدة', two: 'رسالتان', few: '{count} رسائل', many: '{count} رسالة', other: '{count} رسالة' },
+    documentCount: { zero: 'لا مستندات', one: 'مستند واحد', two: 'مستندان', few: '{count} مستندات', many: '{count} مستندًا', other: '{count} مستند' },
+    fileCount: { zero: 'لا ملفات', one: 'ملف واحد', two: 'ملفان', few: '{count} ملفات', many: '{count} ملفًا', other: '{count} ملف' },
+    chunkCount: { zero: 'لا مقاطع', one: 'مقطع واحد', two: 'مقطعان', few: '{count} مقاطع', many: '{count} مقطعًا', other: '{count} مقطع' },
+    sessionCount: { zero: 'لا جلسات', one: 'جلسة واحدة', two: 'جلستان', few: '{count} جلسات', many: '{count} جلسة', other: '{count} جلسة' },
+    unknownError: 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+    you: 'أنت',
+    assistant: 'المساعد',
+  },
+  models: {
+    latestDescription: 'أحدث النماذج وأكثرها قدرة، الأفضل للاستدلال والتحليل المعقد',
+    fastDescription: 'سريع وفعّال، ممتاز لمعظم المهام',
+    capableDescription: 'النموذج الأكثر قدرة، الأفضل للاستدلال والتحليل المعقد',
+    advancedDescription: 'نموذج متقدم بقدرات استدلال محسّنة',
+    balancedDescription: 'توازن بين الأداء والسرعة للاستخدام اليومي',
+  },
+  searchTypes: {
+    hybrid: 'بحث هجين',
+    hybridShort: 'هجين',
+    hybridDescription: 'يجمع بين البحث الدلالي والبحث بالكلمات المفتاحية للحصول على أفضل النتائج',
+    semantic: 'بحث دلالي',
+    semanticShort: 'دلالي',
+    semanticDescription: 'يستخدم التشابه المتجهي لنتائج مدركة للسياق',
+    keyword: 'بحث بالكلمات المفتاحية',
+    keywordShort: 'كلمات مفتاحية',
+    keywordDescription: 'يستخدم خوارزمية BM25 للمطابقة الدقيقة للكلمات المفتاحية',
+    serverDefault: 'الإعداد الافتراضي للخادم',
+    serverDefaultDescription: 'اتباع نوع البحث الافتراضي في الخادم',
+  },
+  temperature: {
+    deterministic: 'حتمي',
+    deterministicDescription: 'الأكثر تركيزًا واتساقًا',
+    creative: 'إبداعي',
+    creativeDescription: 'توازن بين الإبداع والتركيز',
+    veryCreative: 'إبداعي جدًا',
+    veryCreativeDescription: 'أكثر تنوعًا وخيالًا',
+    maximum: 'أقصى إبداع',
+    maximumDescription: 'الأكثر تنوعًا وإبداعًا',
+  },
+  shortcuts: {
+    commandPalette: 'فتح لوحة الأوامر',
+    showShortcuts: 'عرض اختصارات لوحة المفاتيح',
+    newSession: 'جلسة محادثة جديدة',
+    focusInput: 'التركيز على حقل الرسالة',
+    toggleDocumentSelector: 'إظهار أو إخفاء محدد المستندات',
+    nextSession: 'الجلسة التالية',
+    previousSession: 'الجلسة السابقة',
+  },
+  app: {
+    defaultSessionName: 'جلسة محادثة جديدة',
+    numberedSessionName: 'جلسة محادثة جديدة {number}',
+    initializeFailed: 'تعذّر تهيئة التطبيق',
+    pageNotFound: 'الصفحة غير موجودة: {path}',
+    sessionNotFound: 'جلسة المحادثة غير موجودة. ربما تم حذفها.',
+    sessionCreated: 'تم إنشاء جلسة محادثة جديدة',
+    createSessionFailed: 'تعذّر إنشاء جلسة المحادثة',
+    sessionDeleted: 'تم حذف جلسة المحادثة',
+    deleteSessionFailed: 'تعذّر حذف جلسة المحادثة',
+    settingsUpdated: 'تم تحديث الإعدادات',
+    updateSettingsFailed: 'تعذّر تحديث الإعدادات',
+    sessionsExported: 'تم تصدير جلسات المحادثة بنجاح',
+    exportFailed: 'تعذّر تصدير الجلسات',
+    importFailed: 'تعذّر استيراد الجلسات',
+    sessionsImported: 'تم استيراد جلسات المحادثة بنجاح',
+    loadingTitle: 'جارٍ تحميل مساعد RAG...',
+    loadingSubtitle: 'جارٍ تهيئة مساعدك المدعوم بالذكاء الاصطناعي',
+  },
+  palette: {
+    openChat: 'فتح المحادثة',
+    openDocuments: 'فتح المستندات',
+    openSettings: 'فتح الإعدادات',
+    openStatus: 'فتح حالة الخادم',
+    exportSessions: 'تصدير كل الجلسات',
+    keyboardShortcuts: 'اختصارات لوحة المفاتيح',
+    lightTheme: 'استخدام المظهر الفاتح',
+    darkTheme: 'استخدام المظهر الداكن',
+    systemTheme: 'استخدام مظهر النظام',
+    changeModel: 'تغيير النموذج إلى {model}',
+    changeSearchType: 'تغيير نوع البحث إلى {searchType}',
+    groupActions: 'الإجراءات',
+    groupSessions: 'الجلسات',
+    groupDocuments: 'المستندات',
+    documentInScope: 'ضمن نطاق المحادثة: اختر للإزالة',
+    documentAddToScope: 'إضافة إلى نطاق المحادثة',
+    documentsLoadFailed: 'تعذّر تحميل المستندات',
+    searchPlaceholder: 'ابحث في الجلسات والإجراءات والمستندات...',
+    noResults: 'لا توجد أوامر مطابقة',
+    navigate: 'تنقّل',
+    run: 'تشغيل',
+    close: 'إغلاق',
+    ariaLabel: 'لوحة الأوامر',
+  },
+  shortcutsDialog: {
+    title: 'اختصارات لوحة المفاتيح',
+    subtitle: 'انقر على اختصار لتغييره',
+    change: 'تغيير الاختصار',
+    recording: 'اضغط المفاتيح… (Esc للإلغاء، Backspace للإزالة)',
+    notSet: 'غير معيّن',
+    notAllowed: 'لا يمكن استخدام {shortcut} كاختصار',
+    reassigned: 'تمت إزالة {shortcut} من "{action}"',
+    builtIn: 'مدمج',
+    sendMessage: 'إرسال الرسالة',
+    newLine: 'سطر جديد في الرسالة',
+    closeDialog: 'إغلاق مربع الحوار أو اللوحة',
+    typingHint: 'يتم تجاهل الاختصارات التي لا تتضمن {modifiers} أثناء الكتابة في حقل نصي.',
+    reset: 'استعادة الإعدادات الافتراضية',
+    resetDone: 'تمت استعادة اختصارات لوحة المفاتيح الافتراضية',
+  },
+  sidebar: {
+    confirmDelete: 'هل أنت متأكد من حذف جلسة المحادثة هذه؟ لا يمكن التراجع عن هذا الإجراء.',
+    backendStatus: 'حالة الخادم',
+    mockBackend: 'خادم تجريبي: البيانات محاكاة ومحفوظة في الذاكرة',
+    newChat: 'محادثة جديدة',
+    commands: 'الأوامر...',
+    chat: 'المحادثة',
+    documents: 'المستندات',
+    settings: 'الإعدادات',
+    status: 'الحالة',
+    searchPlaceholder: 'ابحث في كل الرسائل...',
+    resultCount: { zero: 'لا نتائج', one: 'نتيجة واحدة', two: 'نتيجتان', few: '{count} نتائج', many: '{count} نتيجة', other: '{count} نتيجة' },
+    noResults: 'لا توجد رسائل تطابق "{query}"',
+    chatSessions: 'جلسات المحادثة',
+    statsTotal: 'الإجمالي: {count}',
+    statsMessages: 'الرسائل: {count}',
+    statsAverage: 'المتوسط: {count}',
+    perSession: 'لكل جلسة',
+    exportSessions: 'تصدير الجلسات',
+    importSessions: 'استيراد الجلسات',
+    keyboardShortcuts: 'اختصارات لوحة المفاتيح',
+  },
+  chat: {
+    saveMessageFailed: 'تعذّر حفظ الرسالة',
+    responseReceived: 'تم استلام الرد بنجاح',
+    responseStopped: 'تم إيقاف الرد',
+    responseFailed: 'تعذّر الحصول على رد. يرجى المحاولة مرة أخرى.',
+    saveSelectionFailed: 'تعذّر حفظ اختيار المستندات',
+    transcriptExported: 'تم تصدير النص',
+    exportFailed: 'تعذّر تصدير النص',
+    saveAndSubmit: 'حفظ وإرسال',
+    interrupted: 'توقف الرد قبل اكتماله',
+    documentsRetrieved: { zero: 'لم يُسترجع أي مستند', one: 'تم استرجاع مستند واحد', two: 'تم استرجاع مستندين', few: 'تم استرجاع {count} مستندات', many: 'تم استرجاع {count} مستندًا', other: 'تم استرجاع {count} مستند' },
+    processingTime: 'وقت المعالجة {seconds} ث',
+    searchType: 'بحث {searchType}',
+    previousVersion: 'النسخة السابقة',
+    nextVersion: 'النسخة التالية',
+    editAndResend: 'تعديل وإعادة الإرسال',
+    edit: 'تعديل',
+    regenerateAnswer: 'إعادة توليد الإجابة',
+    regenerate: 'إعادة التوليد',
+    lastUpdated: 'آخر تحديث {time}',
+    exportConversation: 'تصدير هذه المحادثة',
+    export: 'تصدير',
+    exportMarkdown: 'Markdown (.md)',
+    exportHtml: 'HTML (.html)',
+    exportPdf: 'PDF (طباعة)',
+    welcomeTitle: 'مرحبًا بك في مساعد RAG',
+    welcomeMessage: 'ابدأ محادثة بكتابة رسالة أدناه. يمكنني مساعدتك في الإجابة عن أسئلتك باستخدام قاعدة المعرفة.',
+    inputPlaceholder: 'اكتب سؤالك هنا...',
+    stopGenerating: 'إيقاف التوليد',
+    stop: 'إيقاف',
+    inputHint: 'اضغط Enter للإرسال، وShift+Enter لسطر جديد',
+  },
+  documentSelector: {
+    loadFailed: 'تعذّر تحميل المستندات',
+    unknownDate: 'غير معروف',
+    selectDocuments: 'اختيار المستندات',
+    selectedCount: { zero: 'لم يتم اختيار مستندات', one: 'تم اختيار مستند واحد', two: 'تم اختيار مستندين', few: 'تم اختيار {count} مستندات', many: 'تم اختيار {count} مستندًا', other: 'تم اختيار {count} مستند' },
+    title: 'اختر المستندات للتركيز عليها',
+    clearAll: 'مسح الكل',
+    description: 'ستُستخدم المستندات المختارة فقط في استعلامات RAG، مما يقلل الهلوسة',
+    collections: 'المجموعات',
+    collectionUnavailable: '{missing} من {count} مستندات لم تعد متاحة',
+    selectCollection: { zero: 'لا مستندات في هذه المجموعة', one: 'اختيار المستند الوحيد في هذه المجموعة', two: 'اختيار المستندين في هذه المجموعة', few: 'اختيار {count} مستندات في هذه المجموعة', many: 'اختيار {count} مستندًا في هذه المجموعة', other: 'اختيار {count} مستند في هذه المجموعة' },
+    staleCount: { zero: 'كل المستندات المختارة متاحة', one: 'مستند مختار واحد لم يعد متاحًا', two: 'مستندان مختاران لم يعودا متاحين', few: '{count} مستندات مختارة لم تعد متاحة', many: '{count} مستندًا مختارًا لم تعد متاحة', other: '{count} مستند مختار لم تعد متاحة' },
+    remove: 'إزالة',
+    loading: 'جارٍ تحميل المستندات...',
+    empty: 'لم يتم رفع أي مستندات بعد',
+    emptyHint: 'ارفع مستندات لتفعيل الاختيار',
+    noMatches: 'لا توجد مستندات تطابق عوامل التصفية هذه',
+    focusInfo: { zero: 'لن تركز استعلامات RAG على أي مستند', one: 'ستركز استعلامات RAG على مستند واحد مختار', two: 'ستركز استعلامات RAG على مستندين مختارين', few: 'ستركز استعلامات RAG على {count} مستندات مختارة', many: 'ستركز استعلامات RAG على {count} مستندًا مختارًا', other: 'ستركز استعلامات RAG على {count} مستند مختار' },
+  },
+  documentFilters: {
+    searchPlaceholder: 'ابحث في أسماء الملفات…',
+    fileType: 'نوع الملف',
+    allTypes: 'كل الأنواع',
+    sortOrder: 'ترتيب الفرز',
+    sortNewest: 'الأحدث أولًا',
+    sortOldest: 'الأقدم أولًا',
+    sortNameAsc: 'الاسم (أ–ي)',
+    sortNameDesc: 'الاسم (ي–أ)',
+    sortMostChunks: 'الأكثر مقاطع',
+    sortFewestChunks: 'الأقل مقاطع',
+    filterByDate: 'التصفية حسب تاريخ الرفع',
+    uploaded: 'تاريخ الرفع',
+    uploadedAfter: 'تم الرفع في هذا التاريخ أو بعده',
+    to: 'إلى',
+    uploadedBefore: 'تم الرفع في هذا التاريخ أو قبله',
+    showing: 'عرض {count} من {total} مستندات',
+    clearFilters: 'مسح عوامل التصفية',
+  },
+  documents: {
+    loadFailed: 'تعذّر تحميل المستندات من قاعدة البيانات',
+    uploadFinished: 'اكتمل الرفع: تم رفع {count}',
+    uploadFinishedFailed: '، وفشل {count}',
+    uploadFinishedCancelled: '، وأُلغي {count}',
+    replaceFailed: 'تعذّرت إزالة {existing} القديم؛ لم يتم رفع {file}',
+    skipped: { zero: 'لم يتم تخطي أي ملف', one: 'تم تخطي ملف واحد موجود بالفعل في قاعدة المعرفة', two: 'تم تخطي ملفين موجودين بالفعل في قاعدة المعرفة', few: 'تم تخطي {count} ملفات موجودة بالفعل في قاعدة المعرفة', many: 'تم تخطي {count} ملفًا موجودًا بالفعل في قاعدة المعرفة', other: 'تم تخطي {count} ملف موجود بالفعل في قاعدة المعرفة' },
+    unsupportedType: '{file} ليس نوع ملف مدعومًا',
+    tooLarge: '{file} كبير جدًا. الحد الأقصى للحجم هو {size}',
+    confirmDeleteSelected: 'هل أنت متأكد من حذف المستندات المختارة ({count})؟',
+    selectedDeleted: 'تم حذف المستندات المختارة',
+    deleteSelectedFailed: 'تعذّر حذف بعض المستندات',
+    confirmDelete: 'هل أنت متأكد من حذف "{file}"؟ سيؤدي ذلك إلى حذف كل مقاطع هذا الملف في كل الجلسات.',
+    deleted: 'تم حذف {file} بنجاح (أُزيل {count} مقطع)',
+    deleteFailed: 'تعذّر حذف المستند',
+    uploadSessionDeleted: 'تم حذف جلسة الرفع (أُزيل {count} مقطع)',
+    deleteUploadSessionFailed: 'تعذّر حذف جلسة الرفع',
+    title: 'إدارة المستندات',
+    subtitle: 'ارفع المستندات وأدِرها لقاعدة معرفة RAG الخاصة بك',
+    sessionId: 'معرّف الجلسة:',
+    sessionCreated: 'تم إنشاء جلسة جديدة',
+    newSession: 'جلسة جديدة',
+    deleteSelected: 'حذف المختار ({count})',
+    uploadSessions: 'جلسات الرفع',
+    collections: 'المجموعات',
+    refresh: 'تحديث المستندات',
+    upload: 'رفع المستندات',
+    dropFiles: 'أفلت الملفات هنا',
+    dragFiles: 'اسحب الملفات وأفلتها هنا',
+    browseFiles: 'أو انقر لتصفح الملفات',
+    supportedFormats: 'الصيغ المدعومة: PDF وDOCX وTXT وMD',
+    maxFileSize: 'الحد الأقصى لحجم الملف: {size}',
+    selectShown: 'اختيار المعروض',
+    loading: 'جارٍ تحميل المستندات...',
+    loadingHint: 'يرجى الانتظار بينما نجلب المستندات من قاعدة البيانات.',
+    empty: 'لا توجد مستندات في قاعدة البيانات',
+    emptyHint: 'ارفع مستندات لبناء قاعدة المعرفة وتفعيل المحادثات المدعومة بـ RAG.',
+    noMatches: 'لا توجد مستندات تطابق عوامل التصفية هذه.',
+    viewChunks: 'عرض المقاطع المفهرسة',
+    deleteDocument: 'حذف المستند',
+  },
+  chunkViewer: {
+    loadFailed: 'تعذّر تحميل المقاطع',
+    matchingCount: { zero: 'لا مقاطع مطابقة', one: 'مقطع واحد مطابق', two: 'مقطعان مطابقان', few: '{count} مقاطع مطابقة', many: '{count} مقطعًا مطابقًا', other: '{count} مقطع مطابق' },
+    loading: 'جارٍ تحميل المقاطع…',
+    searchPlaceholder: 'ابحث في نص المقاطع…',
+    noMatches: 'لا توجد مقاطع تطابق بحثك.',
+    empty: 'لا يحتوي هذا المستند على مقاطع مفهرسة.',
+    chunk: 'المقطع {number}',
+    characters: { zero: 'لا أحرف', one: 'حرف واحد', two: 'حرفان', few: '{count} أحرف', many: '{count} حرفًا', other: '{count} حرف' },
+    lowText: 'لم يُستخرج نص أو استُخرج القليل منه. غالبًا ما تكون هذه صفحة ممسوحة ضوئيًا تحتاج إلى التعرف الضوئي على الحروف.',
+    page: 'الصفحة {page} من {total}',
+    previousPage: 'الصفحة السابقة',
+    nextPage: 'الصفحة التالية',
+  },
+  collections: {
+    updateFailed: 'تعذّر تحديث المجموعة',
+    exists: 'توجد بالفعل مجموعة باسم "{name}"',
+    createdWith: { zero: 'تم إنشاء "{name}" بلا مستندات', one: 'تم إنشاء "{name}" بمستند واحد', two: 'تم إنشاء "{name}" بمستندين', few: 'تم إنشاء "{name}" بـ {count} مستندات', many: 'تم إنشاء "{name}" بـ {count} مستندًا', other: 'تم إنشاء "{name}" بـ {count} مستند' },
+    created: 'تم إنشاء "{name}"',
+    confirmDelete: 'حذف المجموعة "{name}"؟ لن يتم حذف المستندات نفسها.',
+    deleted: 'تم حذف المجموعة',
+    title: 'المجموعات',
+    subtitle: 'مجموعات مسمّاة من المستندات يمكنك اختيارها في المحادثة بنقرة واحدة',
+    namePlaceholder: 'اسم المجموعة الجديدة',
+    createFromSelected: 'إنشاء من المختار ({count})',
+    create: 'إنشاء',
+    empty: 'لا توجد مجموعات بعد. اختر مستندات أدناه، وأدخل اسمًا ثم انقر على إنشاء.',
+    unavailableCount: '{count} غير متاح',
+    added: { zero: 'لم تتم إضافة مستندات إلى "{name}"', one: 'تمت إضافة مستند واحد إلى "{name}"', two: 'تمت إضافة مستندين إلى "{name}"', few: 'تمت إضافة {count} مستندات إلى "{name}"', many: 'تمت إضافة {count} مستندًا إلى "{name}"', other: 'تمت إضافة {count} مستند إلى "{name}"' },
+    addSelected: 'إضافة المختار ({count})',
+    selectDocuments: 'اختيار هذه المستندات في القائمة',
+    rename: 'إعادة تسمية المجموعة',
+    delete: 'حذف المجموعة',
+    emptyCollection: 'فارغة. اختر مستندات في القائمة وانقر على "إضافة المختار".',
+    removeUnavailable: 'إزالة غير المتاح ({count})',
+    noLongerAvailable: 'لم يعد في قاعدة المعرفة',
+    removeFile: 'إزالة من المجموعة',
+  },
+  uploadQueue: {
+    queued: 'في الانتظار',
+    uploading: 'جارٍ الرفع',
+    processing: 'قيد المعالجة على الخادم',
+    done: 'تم الرفع',
+    error: 'فشل',
+    cancelled: 'أُلغي',
+    title: 'قائمة الرفع',
+    inProgress: '{count} قيد التنفيذ',
+    uploadedCount: 'تم رفع {count} من {total}',
+    parallelUploads: 'عمليات رفع متوازية',
+    retryFailed: 'إعادة محاولة الفاشل ({count})',
+    cancelAll: 'إلغاء الكل',
+    batchFinished: 'اكتملت الدفعة: تم رفع {count} ({chunks} مقطع)',
+    failedCount: 'فشل {count}',
+    cancelledCount: 'أُلغي {count}',
+    progress: '{percent}% من {size}',
+    cancelUpload: 'إلغاء الرفع',
+    cannotCancel: 'تم إرسال الملف ويقوم الخادم بفهرسته، لذا لم يعد بالإمكان إلغاؤه',
+    retryUpload: 'إعادة محاولة الرفع',
+    uploadFailed: 'فشل الرفع',
+    replaceCleanupFailed: 'تم رفع {file}، لكن تعذّرت إزالة {existing} القديم',
+  },
+  uploadSessions: {
+    confirmDelete: 'حذف كل مقطع تم رفعه في "{name}" ({files})؟ الملفات التي رُفعت أيضًا في جلسات أخرى تحتفظ بتلك النسخ.',
+    unknownDate: 'تاريخ غير معروف',
+    title: 'جلسات الرفع',
+    subtitle: 'الملفات مجمّعة حسب الجلسة التي رُفعت فيها',
+    empty: 'لا توجد عمليات رفع بعد.',
+    labelPlaceholder: 'تسمية لهذه الجلسة',
+    current: 'الحالية',
+    rename: 'إعادة تسمية الجلسة',
+    delete: 'حذف كل ما تم رفعه في هذه الجلسة',
+    inSessions: 'في {count} جلسات',
+  },
+  uploadConflict: {
+    skip: 'تخطٍّ',
+    skipDescription: 'عدم رفع هذا الملف',
+    replace: 'استبدال',
+    replaceDescription: 'رفع هذا الملف بدلاً من المقاطع الموجودة',
+    keepBoth: 'الاحتفاظ بالاثنين',
+    keepBothDescription: 'الرفع باسم جديد مع لاحقة رقمية',
+    duplicate: 'المحتوى نفسه موجود بالفعل في قاعدة المعرفة',
+    changed: 'توجد بالفعل نسخة مختلفة بهذا الاسم في قاعدة المعرفة',
+    nameTaken: 'يوجد بالفعل ملف بهذا الاسم في قاعدة المعرفة',
+    existingName: '{description} باسم {name}',
+    inBatch: 'المحتوى نفسه الموجود في {name}، وهو أيضًا ضمن هذا الرفع',
+    title: 'ملفات تم رفعها مسبقًا',
+    subtitle: { zero: '{conflicts} من {count} ملفات تطابق مستندات في قاعدة المعرفة', one: '{conflicts} من ملف واحد يطابق مستندات في قاعدة المعرفة', two: '{conflicts} من ملفين تطابق مستندات في قاعدة المعرفة', few: '{conflicts} من {count} ملفات تطابق مستندات في قاعدة المعرفة', many: '{conflicts} من {count} ملفًا تطابق مستندات في قاعدة المعرفة', other: '{conflicts} من {count} ملف تطابق مستندات في قاعدة المعرفة' },
+    explanation: 'رفع المستند نفسه مرتين يكرر مقاطعه ويشوّه نتائج الاسترجاع.',
+    setAll: 'تعيين الكل:',
+    newCount: '{count} جديد',
+    toUpload: '{count} للرفع',
+    skipAll: 'تخطي الكل',
+    upload: 'رفع {count}',
+  },
+  importDialog: {
+    keepMine: 'الاحتفاظ بنسختي',
+    keepMineDescription: 'تجاهل النسخة المستوردة',
+    replace: 'استبدال',
+    replaceDescription: 'الاستبدال بالنسخة المستوردة',
+    keepBoth: 'الاحتفاظ بالاثنين',
+    keepBothDescription: 'إضافة النسخة المستوردة كجلسة جديدة',
+    merge: 'دمج',
+    mergeDescription: 'الإضافة إلى سجلك الحالي',
+    replaceAll: 'استبدال الكل',
+    replaceAllDescription: 'حذف سجلك واستخدام الملف',
+    title: 'استيراد جلسات المحادثة',
+    sessionsInFile: { zero: 'لا جلسات في الملف', one: 'جلسة واحدة في الملف', two: 'جلستان في الملف', few: '{count} جلسات في الملف', many: '{count} جلسة في الملف', other: '{count} جلسة في الملف' },
+    collections: { zero: 'لا يحتوي الملف على مجموعات مستندات.', one: 'يحتوي الملف أيضًا على مجموعة مستندات واحدة.', two: 'يحتوي الملف أيضًا على مجموعتي مستندات.', few: 'يحتوي الملف أيضًا على {count} مجموعات مستندات.', many: 'يحتوي الملف أيضًا على {count} مجموعة مستندات.', other: 'يحتوي الملف أيضًا على {count} مجموعة مستندات.' },
+    collectionsReplace: 'ستحل محل مجموعاتك الحالية.',
+    collectionsMerge: 'تتم إضافة المجموعات غير الموجودة لديك؛ وللبقية يتم الاحتفاظ بالنسخة المعدّلة مؤخرًا.',
+    existingSessions: { zero: 'لا جلسات موجودة', one: 'الجلسة الموجودة', two: 'الجلستان الموجودتان', few: 'كل الجلسات الموجودة ({count})', many: 'كل الجلسات الموجودة ({count})', other: 'كل الجلسات الموجودة ({count})' },
+    replaceWarning: 'سيتم حذف {existing} واستبدالها بـ {incoming} من الملف.',
+    new: 'جديدة',
+    alreadyPresent: 'موجودة مسبقًا',
+    changed: 'متغيرة',
+    sessionsToAdd: 'الجلسات المراد إضافتها',
+    sessionsThatDiffer: 'الجلسات التي تختلف عن جلساتك',
+    setAll: 'تعيين الكل:',
+    yours: 'نسختك',
+    imported: 'المستوردة',
+    updated: 'حُدّثت {date}',
+    afterImport: { zero: 'لا جلسات بعد الاستيراد', one: 'جلسة واحدة بعد الاستيراد', two: 'جلستان بعد الاستيراد', few: '{count} جلسات بعد الاستيراد', many: '{count} جلسة بعد الاستيراد', other: '{count} جلسة بعد الاستيراد' },
+    mergeSummary: '{added} مضافة · {replaced} مستبدلة · {duplicated} مكررة · {unchanged} دون تغيير',
+    confirmReplace: 'استبدال الكل',
+    confirmImport: 'استيراد',
+  },
+  settings: {
+    saved: 'تم حفظ الإعدادات بنجاح',
+    confirmReset: 'هل أنت متأكد من إعادة كل الإعدادات إلى القيم الافتراضية؟',
+    resetDone: 'تمت إعادة الإعدادات إلى القيم الافتراضية',
+    followsServerDefault: 'يتبع الإعداد الافتراضي للخادم',
+    followsServerDefaultCurrent: 'يتبع الإعداد الافتراضي للخادم (حاليًا {searchType})',
+    title: 'الإعدادات',
+    subtitle: 'اضبط تفضيلات مساعد RAG وإعدادات النموذج',
+    resetToDefaults: 'إعادة إلى الافتراضي',
+    resetChanges: 'التراجع عن التغييرات',
+    saveChanges: 'حفظ التغييرات',
+    modelTitle: 'نموذج الذكاء الاصطناعي',
+    modelSubtitle: 'اختر نموذج OpenAI لمحادثاتك',
+    temperatureTitle: 'درجة الحرارة',
+    temperatureSubtitle: 'تحكّم في إبداع الردود وعشوائيتها',
+    currentTemperature: 'الحالية: {value}',
+    quickPresets: 'إعدادات سريعة',
+    searchTitle: 'استراتيجية البحث',
+    searchSubtitle: 'كيف تسترجع هذه الجلسة المعلومات ذات الصلة. اختر استراتيجية لتجاوز الإعداد الافتراضي للخادم في هذه الجلسة فقط.',
+    scopeTitle: 'نطاق المستندات',
+    scopeSubtitle: 'المستندات التي تقتصر عليها أسئلة هذه الجلسة. غيّر الاختيار من رأس المحادثة.',
+    removeUnavailable: 'إزالة غير المتاح ({count})',
+    clearScope: 'مسح النطاق',
+    noScope: 'لم يتم اختيار مستندات — تبحث الأسئلة في قاعدة المعرفة بأكملها.',
+    removeFromScope: 'إزالة من النطاق',
+    currentConfiguration: 'الإعداد الحالي',
+    model: 'النموذج',
+    temperature: 'درجة الحرارة',
+    searchType: 'نوع البحث',
+    scope: 'نطاق المستندات',
+    allDocuments: 'كل المستندات',
+    staleCount: '{count} لم تعد متاحة',
+    scopeDescription: 'يقيّد الاسترجاع لهذه الجلسة',
+    unsavedTitle: 'تغييرات غير محفوظة',
+    unsavedMessage: 'لديك تغييرات غير محفوظة. انقر على "حفظ التغييرات" لتطبيقها على جلستك.',
+  },
+  serverDefaults: {
+    confirmChange: 'تغيير نوع البحث الافتراضي للخادم إلى {searchType}؟ يؤثر هذا على كل مستخدم وجلسة لا تحدد نوع البحث الخاص بها.',
+    changed: 'تم تعيين نوع البحث الافتراضي للخادم إلى {searchType}',
+    notAllowed: 'ترخيصك لا يسمح بتغيير إعدادات الخادم.',
+    updateFailed: 'تعذّر تحديث نوع البحث الافتراضي للخادم',
+    title: 'الإعدادات الافتراضية للخادم',
+    subtitle: 'للمسؤول: إعدادات الخادم المشتركة بين كل المستخدمين',
+    warning: 'يُستخدم الإعداد الافتراضي للخادم في كل جلسة تكون استراتيجية البحث فيها "الإعداد الافتراضي للخادم". لا تتأثر الجلسات ذات الاستراتيجية الخاصة. حفظ إعدادات الجلسة لا يغيّر هذا.',
+    defaultSearchType: 'نوع البحث الافتراضي',
+    loading: 'جارٍ تحميل الإعداد الافتراضي الحالي…',
+    currently: 'حاليًا',
+    notReported: 'لم يُبلغ الخادم عن الإعداد الافتراضي الحالي',
+    current: 'الإعداد الافتراضي الحالي للخادم',
+    applying: 'جارٍ التطبيق…',
+    apply: 'تطبيق على الخادم',
+  },
+  appearance: {
+    title: 'المظهر',
+    subtitle: 'سمة الألوان لهذا المتصفح',
+    light: 'فاتح',
+    lightDescription: 'استخدام المظهر الفاتح دائمًا',
+    dark: 'داكن',
+    darkDescription: 'استخدام المظهر الداكن دائمًا',
+    system: 'النظام',
+    systemDescription: 'اتباع إعداد جهازك',
+  },
+  language: {
+    title: 'اللغة',
+    subtitle: 'لغة الواجهة لهذا المتصفح',
+    ltr: 'من اليسار إلى اليمين',
+    rtl: 'من اليمين إلى اليسار',
+  },
+  license: {
+    invalid: 'مفتاح الترخيص هذا غير صالح.',
+    expiredOn: 'انتهت صلاحية هذا الترخيص في {date}.',
+    notRecognised: 'لم يتم التعرف على مفتاح الترخيص هذا.',
+    verifyFailed: 'تعذّر التحقق من مفتاح الترخيص',
+    refreshed: 'تم تحديث تفاصيل الترخيص',
+    enterKey: 'يرجى إدخال مفتاح الترخيص',
+    replaced: 'تم استبدال مفتاح الترخيص',
+    confirmSignOut: 'تسجيل الخروج من هذا الترخيص؟ ستحتاج إلى إدخال مفتاح ترخيص مرة أخرى لاستخدام التطبيق.',
+    title: 'الترخيص',
+    subtitle: 'مفتاح الترخيص الذي يستخدمه هذا المتصفح للوصول إلى المساعد',
+    recheck: 'إعادة التحقق',
+    signOut: 'تسجيل الخروج',
+    detailsNotLoaded: 'المفتاح {key} — لم يتم تحميل التفاصيل بعد. استخدم إعادة التحقق لجلبها.',
+    verifying: 'جارٍ التحقق…',
+    verifyAndReplace: 'تحقق واستبدل',
+    replaceKey: 'استبدال مفتاح الترخيص',
+    expired: 'منتهي الصلاحية',
+    expiresToday: 'ينتهي اليوم',
+    daysLeft: { zero: 'لم يتبق أي يوم', one: 'يتبقى يوم واحد', two: 'يتبقى يومان', few: 'تتبقى {count} أيام', many: 'يتبقى {count} يومًا', other: 'يتبقى {count} يوم' },
+    key: 'المفتاح',
+    holder: 'صاحب الترخيص',
+    unknownHolder: 'غير معروف',
+    tier: 'الفئة',
+    standardTier: 'قياسية',
+    expires: 'تاريخ الانتهاء',
+    never: 'أبدًا',
+    signedOut: 'تم تسجيل الخروج من ترخيصك',
+    invalidOrMissing: 'الترخيص غير صالح أو مفقود. يرجى إدخال مفتاح ترخيص صالح.',
+    applied: 'تم تطبيق الترخيص',
+    appliedUnverified: 'تم حفظ مفتاح الترخيص. لا يستطيع هذا الخادم التحقق من المفاتيح مسبقًا، لذا سيتم التحقق منه مع أول طلب.',
+    detailsUnavailable: 'لا يوفّر هذا الخادم تفاصيل الترخيص.',
+    verifiedTitle: 'تم التحقق من الترخيص',
+    verifiedSubtitle: 'راجع التفاصيل أدناه قبل المتابعة.',
+    differentKey: 'استخدام مفتاح آخر',
+    continue: 'متابعة',
+    enterTitle: 'أدخل مفتاح الترخيص',
+    enterSubtitle: 'الوصول مقيّد. يرجى تقديم مفتاح الترخيص للمتابعة.',
+    keyLabel: 'مفتاح الترخيص',
+    verify: 'التحقق من الترخيص',
+    bannerExpired: 'انتهت صلاحية ترخيصك في {date}.',
+    bannerExpiresToday: 'تنتهي صلاحية ترخيصك اليوم.',
+    bannerExpiresIn: { zero: 'تنتهي صلاحية ترخيصك اليوم ({date}).', one: 'تنتهي صلاحية ترخيصك خلال يوم واحد ({date}).', two: 'تنتهي صلاحية ترخيصك خلال يومين ({date}).', few: 'تنتهي صلاحية ترخيصك خلال {count} أيام ({date}).', many: 'تنتهي صلاحية ترخيصك خلال {count} يومًا ({date}).', other: 'تنتهي صلاحية ترخيصك خلال {count} يوم ({date}).' },
+    bannerRenew: 'جدّده أو استبدل المفتاح لمواصلة استخدام المساعد.',
+    manage: 'إدارة الترخيص',
+    dismiss: 'تجاهل',
+  },
+  connection: {
+    reconnected: 'تمت إعادة الاتصال بخادم RAG.',
+    unreachable: 'تعذّر الوصول إلى خادم RAG.',
+    unreachableSince: 'تعذّر الوصول إلى خادم RAG (آخر اتصال {time}).',
+    reconnecting: 'جارٍ إعادة الاتصال…',
+    retryingIn: 'إعادة المحاولة خلال {seconds} ث.',
+    sleepingServer: 'قد يستغرق الخادم الخامل ما يصل إلى دقيقة ليبدأ.',
+    retryNow: 'إعادة المحاولة الآن',
+  },
+  status: {
+    connected: 'متصل',
+    disconnected: 'غير متصل',
+    checking: 'جارٍ الفحص...',
+    loadFailed: 'تعذّر تحميل حالة الخادم',
+    ragStatus: 'حالة RAG',
+    embeddingModel: 'نموذج التضمين',
+    llmModel: 'نموذج اللغة',
+    persistDirectory: 'مجلد التخزين',
+    reportedAt: 'وقت الإبلاغ',
+    lastHealthResponse: 'آخر استجابة للفحص',
+    healthMessage: 'رسالة الفحص',
+    lastSuccessfulCheck: 'آخر فحص ناجح',
+    lastCheck: 'آخر فحص',
+    nextCheck: 'الفحص التالي',
+    inProgress: 'قيد التنفيذ',
+    failedChecks: 'عمليات فحص فاشلة متتالية',
+    title: 'حالة الخادم',
+    subtitle: 'سلامة الاتصال وإعدادات خادم RAG',
+    connectionTitle: 'الاتصال',
+    connectionSubtitle: 'يُفحص في الخلفية أثناء فتح التطبيق',
+    pipelineTitle: 'مسار RAG',
+    pipelineSubtitle: 'النماذج والتخزين كما أبلغ عنها',
+    healthCheckFailed: 'فشل فحص الحالة',
+  },
+  markdown: {
+    copyCode: 'نسخ الشيفرة',
+    copyFailed: 'تعذّر النسخ إلى الحافظة',
+  },
+  sources: {
+    title: 'المصادر',
+    showPassages: 'إظهار المقاطع',
+    hidePassages: 'إخفاء المقاطع',
+    unknownSource: 'مصدر غير معروف',
+  },
+  apiErrors: {
+    network: 'تعذّر الوصول إلى الخادم. تحقق من اتصالك وتأكد من أن الخادم يعمل.',
+    timeout: 'استغرق الخادم وقتًا طويلًا للرد. ربما لا يزال قيد التشغيل، يرجى المحاولة بعد قليل.',
+    authRejected: 'تم رفض مفتاح الترخيص. يرجى إدخال مفتاح ترخيص صالح.',
+    forbidden: 'ترخيصك لا يسمح بهذا الإجراء.',
+    forbiddenDetail: 'ترخيصك لا يسمح بهذا الإجراء: {detail}',
+    validation: 'تم رفض الطلب: {message}',
+    rateLimit: 'طلبات كثيرة جدًا. يرجى الانتظار قليلًا والمحاولة مرة أخرى.',
+    rateLimitRetryAfter: 'طلبات كثيرة جدًا. يرجى الانتظار {seconds} ث والمحاولة مرة أخرى.',
+    server: 'واجه الخادم مشكلة. يرجى المحاولة بعد قليل.',
+    serverDetail: 'واجه الخادم مشكلة: {detail}',
+  },
+  storage: {
+    unavailable: 'تخزين المتصفح (IndexedDB) غير متاح في هذا المتصفح.',
+    upgradeBlocked: 'تحديث التخزين محظور بسبب علامة تبويب أخرى مفتوحة لهذا التطبيق. أغلق علامات التبويب الأخرى وأعد التحميل.',
+    full: 'تخزين المتصفح ممتلئ. صدّر جلسات المحادثة القديمة واحذفها لتحرير مساحة.',
+    invalidFile: 'تنسيق ملف غير صالح أو بيانات تالفة',
+    newerVersion: 'يستخدم هذا الملف تنسيق التصدير v{version}، وهو أحدث مما يدعمه هذا التطبيق. يرجى تحديث التطبيق والمحاولة مرة أخرى.',
+  },
+  transcript: {
+    title: 'نص المحادثة',
+    created: 'تاريخ الإنشاء',
+    lastUpdated: 'آخر تحديث',
+    exported: 'تاريخ التصدير',
+    settings: 'الإعدادات',
+    conversation: 'المحادثة',
+    user: 'المستخدم',
+    popupBlocked: 'تم حظر النافذة المنبثقة. اسمح بالنوافذ المنبثقة لهذا الموقع للتصدير بصيغة PDF.',
+  },
+};
+
+export default ar;
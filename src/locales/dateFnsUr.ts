@@ -0,0 +1,83 @@
+import type { Locale } from 'date-fns';
+
+// date-fns 2 has no Urdu locale; this covers formatting (format, formatDistance, formatRelative),
+// which is all the app uses. Parsing (`match`) is not supported.
+
+const formatDistanceLocale: Record<string, string | { one: string; other: string }> = {
+  lessThanXSeconds: { one: 'ایک سیکنڈ سے کم', other: '{{count}} سیکنڈ سے کم' },
+  xSeconds: { one: '1 سیکنڈ', other: '{{count}} سیکنڈ' },
+  halfAMinute: 'آدھا منٹ',
+  lessThanXMinutes: { one: 'ایک منٹ سے کم', other: '{{count}} منٹ سے کم' },
+  xMinutes: { one: '1 منٹ', other: '{{count}} منٹ' },
+  aboutXHours: { one: 'تقریباً 1 گھنٹہ', other: 'تقریباً {{count}} گھنٹے' },
+  xHours: { one: '1 گھنٹہ', other: '{{count}} گھنٹے' },
+  xDays: { one: '1 دن', other: '{{count}} دن' },
+  aboutXWeeks: { one: 'تقریباً 1 ہفتہ', other: 'تقریباً {{count}} ہفتے' },
+  xWeeks: { one: '1 ہفتہ', other: '{{count}} ہفتے' },
+  aboutXMonths: { one: 'تقریباً 1 مہینہ', other: 'تقریباً {{count}} مہینے' },
+  xMonths: { one: '1 مہینہ', other: '{{count}} مہینے' },
+  aboutXYears: { one: 'تقریباً 1 سال', other: 'تقریباً {{count}} سال' },
+  xYears: { one: '1 سال', other: '{{count}} سال' },
+  overXYears: { one: '1 سال سے زیادہ', other: '{{count}} سال سے زیادہ' },
+  almostXYears: { one: 'تقریباً 1 سال', other: 'تقریباً {{count}} سال' },
+};
+
+const MONTHS = ['جنوری', 'فروری', 'مارچ', 'اپریل', 'مئی', 'جون', 'جولائی', 'اگست', 'ستمبر', 'اکتوبر', 'نومبر', 'دسمبر'];
+const DAYS = ['اتوار', 'پیر', 'منگل', 'بدھ', 'جمعرات', 'جمعہ', 'ہفتہ'];
+const QUARTERS = ['پہلی سہ ماہی', 'دوسری سہ ماہی', 'تیسری سہ ماہی', 'چوتھی سہ ماہی'];
+
+const DATE_FORMATS: Record<string, string> = {
+  full: 'EEEE، d MMMM y',
+  long: 'd MMMM y',
+  medium: 'd MMM y',
+  short: 'dd/MM/y',
+};
+
+const TIME_FORMATS: Record<string, string> = {
+  full: 'h:mm:ss a zzzz',
+  long: 'h:mm:ss a z',
+  medium: 'h:mm:ss a',
+  short: 'h:mm a',
+};
+
+const RELATIVE_FORMATS: Record<string, string> = {
+  lastWeek: "'پچھلے' eeee 'کو' p",
+  yesterday: "'کل' p",
+  today: "'آج' p",
+  tomorrow: "'کل' p",
+  nextWeek: "eeee 'کو' p",
+  other: 'P',
+};
+
+const urDateLocale: Locale = {
+  code: 'ur',
+  formatDistance: (token: string, count: number, options?: { addSuffix?: boolean; comparison?: number }) => {
+    const value = formatDistanceLocale[token];
+    const result = typeof value === 'string'
+      ? value
+      : count === 1 ? value.one : value.other.replace('{{count}}', String(count));
+
+    if (!options?.addSuffix) return result;
+    return options.comparison && options.comparison > 0 ? `${result} میں` : `${result} پہلے`;
+  },
+  formatRelative: (token: string) => RELATIVE_FORMATS[token],
+  localize: {
+    ordinalNumber: (value: number) => String(value),
+    era: (value: number) => (value === 0 ? 'قبل مسیح' : 'عیسوی'),
+    quarter: (value: number) => QUARTERS[value - 1],
+    month: (value: number) => MONTHS[value],
+    day: (value: number) => DAYS[value],
+    dayPeriod: (value: string) => (value === 'am' ? 'قبل دوپہر' : value === 'pm' ? 'بعد دوپہر' : value),
+  },
+  formatLong: {
+    date: ({ width = 'full' }: { width?: string } = {}) => DATE_FORMATS[width] || DATE_FORMATS.full,
+    time: ({ width = 'full' }: { width?: string } = {}) => TIME_FORMATS[width] || TIME_FORMATS.full,
+    dateTime: () => '{{date}} {{time}}',
+  },
+  options: {
+    weekStartsOn: 1,
+    firstWeekContainsDate: 1,
+  },
+};
+
+export default urDateLocale;
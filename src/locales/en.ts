@@ -0,0 +1,573 @@
+// English messages. The other catalogs must define every key in this file (checked by tsc);
+// parameters are written as {name}, and plural messages select a form from {count}.
+const en = {
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    save: 'Save',
+    delete: 'Delete',
+    rename: 'Rename',
+    retry: 'Retry',
+    refresh: 'Refresh',
+    loading: 'Loading...',
+    done: 'Done',
+    apply: 'Apply',
+    clear: 'Clear',
+    messageCount: { one: '{count} message', other: '{count} messages' },
+    documentCount: { one: '{count} document', other: '{count} documents' },
+    fileCount: { one: '{count} file', other: '{count} files' },
+    chunkCount: { one: '{count} chunk', other: '{count} chunks' },
+    sessionCount: { one: '{count} session', other: '{count} sessions' },
+    unknownError: 'Something went wrong. Please try again.',
+    you: 'You',
+    assistant: 'Assistant',
+  },
+  models: {
+    latestDescription: 'Latest and most capable model, best for complex reasoning and analysis',
+    fastDescription: 'Fast and efficient, great for most tasks',
+    capableDescription: 'Most capable model, best for complex reasoning and analysis',
+    advancedDescription: 'Advanced model with enhanced reasoning capabilities',
+    balancedDescription: 'Balanced performance and speed for everyday use',
+  },
+  searchTypes: {
+    hybrid: 'Hybrid Search',
+    hybridShort: 'Hybrid',
+    hybridDescription: 'Combines semantic and keyword search for best results',
+    semantic: 'Semantic Search',
+    semanticShort: 'Semantic',
+    semanticDescription: 'Uses vector similarity for context-aware results',
+    keyword: 'Keyword Search',
+    keywordShort: 'Keyword',
+    keywordDescription: 'Uses BM25 algorithm for exact keyword matching',
+    serverDefault: 'Server default',
+    serverDefaultDescription: 'Follow the backend default search type',
+  },
+  temperature: {
+    deterministic: 'Deterministic',
+    deterministicDescription: 'Most focused and consistent',
+    creative: 'Creative',
+    creativeDescription: 'Balanced creativity and focus',
+    veryCreative: 'Very Creative',
+    veryCreativeDescription: 'More varied and imaginative',
+    maximum: 'Maximum Creativity',
+    maximumDescription: 'Most diverse and creative',
+  },
+  shortcuts: {
+    commandPalette: 'Open command palette',
+    showShortcuts: 'Show keyboard shortcuts',
+    newSession: 'New chat session',
+    focusInput: 'Focus message input',
+    toggleDocumentSelector: 'Toggle document selector',
+    nextSession: 'Next session',
+    previousSession: 'Previous session',
+  },
+  app: {
+    defaultSessionName: 'New Chat Session',
+    numberedSessionName: 'New Chat Session {number}',
+    initializeFailed: 'Failed to initialize application',
+    pageNotFound: 'Page not found: {path}',
+    sessionNotFound: 'Chat session not found. It may have been deleted.',
+    sessionCreated: 'New chat session created',
+    createSessionFailed: 'Failed to create chat session',
+    sessionDeleted: 'Chat session deleted',
+    deleteSessionFailed: 'Failed to delete chat session',
+    settingsUpdated: 'Settings updated',
+    updateSettingsFailed: 'Failed to update settings',
+    sessionsExported: 'Chat sessions exported successfully',
+    exportFailed: 'Failed to export sessions',
+    importFailed: 'Failed to import sessions',
+    sessionsImported: 'Chat sessions imported successfully',
+    loadingTitle: 'Loading RAG Assistant...',
+    loadingSubtitle: 'Initializing your AI-powered assistant',
+  },
+  palette: {
+    openChat: 'Open chat',
+    openDocuments: 'Open documents',
+    openSettings: 'Open settings',
+    openStatus: 'Open backend status',
+    exportSessions: 'Export all sessions',
+    keyboardShortcuts: 'Keyboard shortcuts',
+    lightTheme: 'Use light theme',
+    darkTheme: 'Use dark theme',
+    systemTheme: 'Use system theme',
+    changeModel: 'Change model to {model}',
+    changeSearchType: 'Change search type to {searchType}',
+    groupActions: 'Actions',
+    groupSessions: 'Sessions',
+    groupDocuments: 'Documents',
+    documentInScope: 'In chat scope: select to remove',
+    documentAddToScope: 'Add to chat scope',
+    documentsLoadFailed: 'Documents could not be loaded',
+    searchPlaceholder: 'Search sessions, actions and documents...',
+    noResults: 'No matching commands',
+    navigate: 'navigate',
+    run: 'run',
+    close: 'close',
+    ariaLabel: 'Command palette',
+  },
+  shortcutsDialog: {
+    title: 'Keyboard Shortcuts',
+    subtitle: 'Click a shortcut to change it',
+    change: 'Change shortcut',
+    recording: 'Press keys… (Esc to cancel, Backspace to remove)',
+    notSet: 'Not set',
+    notAllowed: '{shortcut} cannot be used as a shortcut',
+    reassigned: '{shortcut} was removed from "{action}"',
+    builtIn: 'Built in',
+    sendMessage: 'Send message',
+    newLine: 'New line in message',
+    closeDialog: 'Close dialog or palette',
+    typingHint: 'Shortcuts without {modifiers} are ignored while typing in a text field.',
+    reset: 'Reset to defaults',
+    resetDone: 'Keyboard shortcuts reset to defaults',
+  },
+  sidebar: {
+    confirmDelete: 'Are you sure you want to delete this chat session? This action cannot be undone.',
+    backendStatus: 'Backend status',
+    mockBackend: 'Mock backend: data is simulated and kept in memory',
+    newChat: 'New Chat',
+    commands: 'Commands...',
+    chat: 'Chat',
+    documents: 'Documents',
+    settings: 'Settings',
+    status: 'Status',
+    searchPlaceholder: 'Search all messages...',
+    resultCount: { one: '{count} result', other: '{count} results' },
+    noResults: 'No messages match "{query}"',
+    chatSessions: 'Chat Sessions',
+    statsTotal: 'Total: {count}',
+    statsMessages: 'Messages: {count}',
+    statsAverage: 'Avg: {count}',
+    perSession: 'per session',
+    exportSessions: 'Export Sessions',
+    importSessions: 'Import Sessions',
+    keyboardShortcuts: 'Keyboard Shortcuts',
+  },
+  chat: {
+    saveMessageFailed: 'Failed to save message',
+    responseReceived: 'Response received successfully',
+    responseStopped: 'Response stopped',
+    responseFailed: 'Failed to get a response. Please try again.',
+    saveSelectionFailed: 'Failed to save document selection',
+    transcriptExported: 'Transcript exported',
+    exportFailed: 'Failed to export transcript',
+    saveAndSubmit: 'Save & Submit',
+    interrupted: 'Response stopped before completion',
+    documentsRetrieved: { one: '{count} document retrieved', other: '{count} documents retrieved' },
+    processingTime: '{seconds}s processing time',
+    searchType: '{searchType} search',
+    previousVersion: 'Previous version',
+    nextVersion: 'Next version',
+    editAndResend: 'Edit and resend',
+    edit: 'Edit',
+    regenerateAnswer: 'Regenerate answer',
+    regenerate: 'Regenerate',
+    lastUpdated: 'Last updated {time}',
+    exportConversation: 'Export this conversation',
+    export: 'Export',
+    exportMarkdown: 'Markdown (.md)',
+    exportHtml: 'HTML (.html)',
+    exportPdf: 'PDF (print)',
+    welcomeTitle: 'Welcome to your RAG Assistant',
+    welcomeMessage: 'Start a conversation by typing a message below. I can help you with questions using the knowledge base.',
+    inputPlaceholder: 'Type your question here...',
+    stopGenerating: 'Stop generating',
+    stop: 'Stop',
+    inputHint: 'Press Enter to send, Shift+Enter for new line',
+  },
+  documentSelector: {
+    loadFailed: 'Failed to load documents',
+    unknownDate: 'Unknown',
+    selectDocuments: 'Select Documents',
+    selectedCount: { one: '{count} Document Selected', other: '{count} Documents Selected' },
+    title: 'Select Documents to Focus On',
+    clearAll: 'Clear All',
+    description: 'Only selected documents will be used for RAG queries, reducing hallucinations',
+    collections: 'Collections',
+    collectionUnavailable: '{missing} of {count} documents are no longer available',
+    selectCollection: { one: 'Select the {count} document in this collection', other: 'Select the {count} documents in this collection' },
+    staleCount: { one: '{count} selected document is no longer available', other: '{count} selected documents are no longer available' },
+    remove: 'Remove',
+    loading: 'Loading documents...',
+    empty: 'No documents uploaded yet',
+    emptyHint: 'Upload documents to enable selection',
+    noMatches: 'No documents match these filters',
+    focusInfo: { one: 'RAG queries will focus on {count} selected document', other: 'RAG queries will focus on {count} selected documents' },
+  },
+  documentFilters: {
+    searchPlaceholder: 'Search file names…',
+    fileType: 'File type',
+    allTypes: 'All types',
+    sortOrder: 'Sort order',
+    sortNewest: 'Newest first',
+    sortOldest: 'Oldest first',
+    sortNameAsc: 'Name (A–Z)',
+    sortNameDesc: 'Name (Z–A)',
+    sortMostChunks: 'Most chunks',
+    sortFewestChunks: 'Fewest chunks',
+    filterByDate: 'Filter by upload date',
+    uploaded: 'Uploaded',
+    uploadedAfter: 'Uploaded on or after',
+    to: 'to',
+    uploadedBefore: 'Uploaded on or before',
+    showing: 'Showing {count} of {total} documents',
+    clearFilters: 'Clear filters',
+  },
+  documents: {
+    loadFailed: 'Failed to load documents from database',
+    uploadFinished: 'Upload finished: {count} uploaded',
+    uploadFinishedFailed: ', {count} failed',
+    uploadFinishedCancelled: ', {count} cancelled',
+    replaceFailed: 'Could not remove the old {existing}; {file} was not uploaded',
+    skipped: { one: 'Skipped {count} file already in the knowledge base', other: 'Skipped {count} files already in the knowledge base' },
+    unsupportedType: '{file} is not a supported file type',
+    tooLarge: '{file} is too large. Maximum size is {size}',
+    confirmDeleteSelected: 'Are you sure you want to delete {count} selected document(s)?',
+    selectedDeleted: 'Selected documents deleted',
+    deleteSelectedFailed: 'Some documents could not be deleted',
+    confirmDelete: 'Are you sure you want to delete "{file}"? This will delete all chunks of this file across all sessions.',
+    deleted: '{file} deleted successfully ({count} chunks removed)',
+    deleteFailed: 'Failed to delete document',
+    uploadSessionDeleted: 'Upload session deleted ({count} chunks removed)',
+    deleteUploadSessionFailed: 'Failed to delete upload session',
+    title: 'Document Manager',
+    subtitle: 'Upload and manage documents for your RAG knowledge base',
+    sessionId: 'Session ID:',
+    sessionCreated: 'New session created',
+    newSession: 'New Session',
+    deleteSelected: 'Delete Selected ({count})',
+    uploadSessions: 'Upload Sessions',
+    collections: 'Collections',
+    refresh: 'Refresh Documents',
+    upload: 'Upload Documents',
+    dropFiles: 'Drop files here',
+    dragFiles: 'Drag & drop files here',
+    browseFiles: 'or click to browse files',
+    supportedFormats: 'Supported formats: PDF, DOCX, TXT, MD',
+    maxFileSize: 'Maximum file size: {size}',
+    selectShown: 'Select shown',
+    loading: 'Loading documents...',
+    loadingHint: 'Please wait while we fetch documents from the database.',
+    empty: 'No documents in database',
+    emptyHint: 'Upload documents to build your knowledge base and enable RAG-powered conversations.',
+    noMatches: 'No documents match these filters.',
+    viewChunks: 'View indexed chunks',
+    deleteDocument: 'Delete document',
+  },
+  chunkViewer: {
+    loadFailed: 'Failed to load chunks',
+    matchingCount: { one: '{count} chunk matching', other: '{count} chunks matching' },
+    loading: 'Loading chunks…',
+    searchPlaceholder: 'Search chunk text…',
+    noMatches: 'No chunks match your search.',
+    empty: 'This document has no indexed chunks.',
+    chunk: 'Chunk {number}',
+    characters: { one: '{count} character', other: '{count} characters' },
+    lowText: 'Little or no text extracted. This is often a scanned page that needs OCR.',
+    page: 'Page {page} of {total}',
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
+  },
+  collections: {
+    updateFailed: 'Failed to update collection',
+    exists: 'A collection named "{name}" already exists',
+    createdWith: { one: 'Created "{name}" with {count} document', other: 'Created "{name}" with {count} documents' },
+    created: 'Created "{name}"',
+    confirmDelete: 'Delete the collection "{name}"? The documents themselves are not deleted.',
+    deleted: 'Collection deleted',
+    title: 'Collections',
+    subtitle: 'Named groups of documents you can pick in the chat in one click',
+    namePlaceholder: 'New collection name',
+    createFromSelected: 'Create from {count} selected',
+    create: 'Create',
+    empty: 'No collections yet. Select documents below, enter a name and click Create.',
+    unavailableCount: '{count} unavailable',
+    added: { one: 'Added {count} document to "{name}"', other: 'Added {count} documents to "{name}"' },
+    addSelected: 'Add {count} selected',
+    selectDocuments: 'Select these documents in the list',
+    rename: 'Rename collection',
+    delete: 'Delete collection',
+    emptyCollection: 'Empty. Select documents in the list and click "Add selected".',
+    removeUnavailable: 'Remove unavailable ({count})',
+    noLongerAvailable: 'no longer in the knowledge base',
+    removeFile: 'Remove from collection',
+  },
+  uploadQueue: {
+    queued: 'Waiting',
+    uploading: 'Uploading',
+    processing: 'Processing on server',
+    done: 'Uploaded',
+    error: 'Failed',
+    cancelled: 'Cancelled',
+    title: 'Upload Queue',
+    inProgress: '{count} in progress',
+    uploadedCount: '{count} of {total} uploaded',
+    parallelUploads: 'Parallel uploads',
+    retryFailed: 'Retry failed ({count})',
+    cancelAll: 'Cancel all',
+    batchFinished: 'Batch finished: {count} uploaded ({chunks} chunks)',
+    failedCount: '{count} failed',
+    cancelledCount: '{count} cancelled',
+    progress: '{percent}% of {size}',
+    cancelUpload: 'Cancel upload',
+    cannotCancel: 'The file has been sent and is being indexed by the server, so it can no longer be cancelled',
+    retryUpload: 'Retry upload',
+    uploadFailed: 'Upload failed',
+    replaceCleanupFailed: '{file} was uploaded, but the old {existing} could not be removed',
+  },
+  uploadSessions: {
+    confirmDelete: 'Delete every chunk uploaded in "{name}" ({files})? Files that were also uploaded in other sessions keep those copies.',
+    unknownDate: 'Unknown date',
+    title: 'Upload Sessions',
+    subtitle: 'Files grouped by the session they were uploaded in',
+    empty: 'No uploads yet.',
+    labelPlaceholder: 'Label for this session',
+    current: 'Current',
+    rename: 'Rename session',
+    delete: 'Delete everything uploaded in this session',
+    inSessions: 'in {count} sessions',
+  },
+  uploadConflict: {
+    skip: 'Skip',
+    skipDescription: 'Do not upload this file',
+    replace: 'Replace',
+    replaceDescription: 'Upload this file in place of the existing chunks',
+    keepBoth: 'Keep both',
+    keepBothDescription: 'Upload under a new name with a number suffix',
+    duplicate: 'Identical content is already in the knowledge base',
+    changed: 'A different version with this name is already in the knowledge base',
+    nameTaken: 'A file with this name is already in the knowledge base',
+    existingName: '{description} as {name}',
+    inBatch: 'Same content as {name}, which is also in this upload',
+    title: 'Files Already Uploaded',
+    subtitle: { one: '{conflicts} of {count} file match documents in the knowledge base', other: '{conflicts} of {count} files match documents in the knowledge base' },
+    explanation: 'Uploading the same document twice duplicates its chunks and skews retrieval.',
+    setAll: 'Set all:',
+    newCount: '{count} new',
+    toUpload: '{count} to upload',
+    skipAll: 'Skip All',
+    upload: 'Upload {count}',
+  },
+  importDialog: {
+    keepMine: 'Keep mine',
+    keepMineDescription: 'Ignore the imported copy',
+    replace: 'Replace',
+    replaceDescription: 'Overwrite with the imported copy',
+    keepBoth: 'Keep both',
+    keepBothDescription: 'Add the imported copy as a new session',
+    merge: 'Merge',
+    mergeDescription: 'Add to your existing history',
+    replaceAll: 'Replace all',
+    replaceAllDescription: 'Delete your history and use the file',
+    title: 'Import Chat Sessions',
+    sessionsInFile: { one: '{count} session in file', other: '{count} sessions in file' },
+    collections: { one: 'The file also contains {count} document collection.', other: 'The file also contains {count} document collections.' },
+    collectionsReplace: 'They will replace your current collections.',
+    collectionsMerge: 'Collections you don\'t have yet are added; for the rest, the most recently edited copy is kept.',
+    existingSessions: { one: '{count} existing session', other: 'All {count} existing sessions' },
+    replaceWarning: '{existing} will be deleted and replaced by the {incoming} from the file.',
+    new: 'new',
+    alreadyPresent: 'already present',
+    changed: 'changed',
+    sessionsToAdd: 'Sessions to add',
+    sessionsThatDiffer: 'Sessions that differ from yours',
+    setAll: 'Set all:',
+    yours: 'Yours',
+    imported: 'Imported',
+    updated: 'updated {date}',
+    afterImport: { one: '{count} session after import', other: '{count} sessions after import' },
+    mergeSummary: '{added} added · {replaced} replaced · {duplicated} duplicated · {unchanged} unchanged',
+    confirmReplace: 'Replace All',
+    confirmImport: 'Import',
+  },
+  settings: {
+    saved: 'Settings saved successfully',
+    confirmReset: 'Are you sure you want to reset all settings to defaults?',
+    resetDone: 'Settings reset to defaults',
+    followsServerDefault: 'Follows the server default',
+    followsServerDefaultCurrent: 'Follows the server default (currently {searchType})',
+    title: 'Settings',
+    subtitle: 'Configure your RAG assistant preferences and model settings',
+    resetToDefaults: 'Reset to Defaults',
+    resetChanges: 'Reset Changes',
+    saveChanges: 'Save Changes',
+    modelTitle: 'AI Model',
+    modelSubtitle: 'Choose the OpenAI model for your conversations',
+    temperatureTitle: 'Temperature',
+    temperatureSubtitle: 'Control the creativity and randomness of responses',
+    currentTemperature: 'Current: {value}',
+    quickPresets: 'Quick Presets',
+    searchTitle: 'Search Strategy',
+    searchSubtitle: 'How this session retrieves relevant information. Pick a strategy to override the server default for this session only.',
+    scopeTitle: 'Document Scope',
+    scopeSubtitle: 'Documents this session\'s questions are restricted to. Change the selection from the chat header.',
+    removeUnavailable: 'Remove unavailable ({count})',
+    clearScope: 'Clear scope',
+    noScope: 'No documents selected — questions search the entire knowledge base.',
+    removeFromScope: 'Remove from scope',
+    currentConfiguration: 'Current Configuration',
+    model: 'Model',
+    temperature: 'Temperature',
+    searchType: 'Search Type',
+    scope: 'Document Scope',
+    allDocuments: 'All documents',
+    staleCount: '{count} no longer available',
+    scopeDescription: 'Restricts retrieval for this session',
+    unsavedTitle: 'Unsaved Changes',
+    unsavedMessage: 'You have unsaved changes. Click "Save Changes" to apply them to your session.',
+  },
+  serverDefaults: {
+    confirmChange: 'Change the server default search type to {searchType}? This affects every user and session that does not set its own search type.',
+    changed: 'Server default search type set to {searchType}',
+    notAllowed: 'Your license is not allowed to change server settings.',
+    updateFailed: 'Failed to update the server default search type',
+    title: 'Server Defaults',
+    subtitle: 'Admin: backend settings shared by all users',
+    warning: 'The server default is used by every session whose search strategy is set to "Server default". Sessions with their own search strategy are not affected. Saving the session settings does not change this.',
+    defaultSearchType: 'Default search type',
+    loading: 'Loading current default…',
+    currently: 'Currently',
+    notReported: 'Current default not reported by the backend',
+    current: 'Current server default',
+    applying: 'Applying…',
+    apply: 'Apply to Server',
+  },
+  appearance: {
+    title: 'Appearance',
+    subtitle: 'Color theme for this browser',
+    light: 'Light',
+    lightDescription: 'Always use the light theme',
+    dark: 'Dark',
+    darkDescription: 'Always use the dark theme',
+    system: 'System',
+    systemDescription: 'Follow your device setting',
+  },
+  language: {
+    title: 'Language',
+    subtitle: 'Interface language for this browser',
+    ltr: 'Left to right',
+    rtl: 'Right to left',
+  },
+  license: {
+    invalid: 'This license key is not valid.',
+    expiredOn: 'This license expired on {date}.',
+    notRecognised: 'This license key was not recognised.',
+    verifyFailed: 'Could not verify the license key',
+    refreshed: 'License details refreshed',
+    enterKey: 'Please enter your license key',
+    replaced: 'License key replaced',
+    confirmSignOut: 'Sign out of this license? You will need to enter a license key again to use the app.',
+    title: 'License',
+    subtitle: 'The license key this browser uses to access the assistant',
+    recheck: 'Re-check',
+    signOut: 'Sign out',
+    detailsNotLoaded: 'Key {key} — details not loaded yet. Use Re-check to fetch them.',
+    verifying: 'Verifying…',
+    verifyAndReplace: 'Verify & Replace',
+    replaceKey: 'Replace license key',
+    expired: 'expired',
+    expiresToday: 'expires today',
+    daysLeft: { one: '{count} day left', other: '{count} days left' },
+    key: 'Key',
+    holder: 'Holder',
+    unknownHolder: 'Unknown',
+    tier: 'Tier',
+    standardTier: 'Standard',
+    expires: 'Expires',
+    never: 'Never',
+    signedOut: 'Signed out of your license',
+    invalidOrMissing: 'License invalid or missing. Please enter a valid license key.',
+    applied: 'License applied',
+    appliedUnverified: 'License key saved. This server cannot verify keys in advance, so it will be checked with your first request.',
+    detailsUnavailable: 'This server does not report license details.',
+    verifiedTitle: 'License Verified',
+    verifiedSubtitle: 'Check the details below before continuing.',
+    differentKey: 'Use a different key',
+    continue: 'Continue',
+    enterTitle: 'Enter License Key',
+    enterSubtitle: 'Access is restricted. Please provide your license key to continue.',
+    keyLabel: 'License Key',
+    verify: 'Verify License',
+    bannerExpired: 'Your license expired on {date}.',
+    bannerExpiresToday: 'Your license expires today.',
+    bannerExpiresIn: { one: 'Your license expires in {count} day ({date}).', other: 'Your license expires in {count} days ({date}).' },
+    bannerRenew: 'Renew it or replace the key to keep using the assistant.',
+    manage: 'Manage license',
+    dismiss: 'Dismiss',
+  },
+  connection: {
+    reconnected: 'Reconnected to the RAG backend.',
+    unreachable: 'Cannot reach the RAG backend.',
+    unreachableSince: 'Cannot reach the RAG backend (last connected {time}).',
+    reconnecting: 'Reconnecting…',
+    retryingIn: 'Retrying in {seconds}s.',
+    sleepingServer: 'A sleeping server can take up to a minute to start.',
+    retryNow: 'Retry now',
+  },
+  status: {
+    connected: 'Connected',
+    disconnected: 'Disconnected',
+    checking: 'Checking...',
+    loadFailed: 'Failed to load backend status',
+    ragStatus: 'RAG status',
+    embeddingModel: 'Embedding model',
+    llmModel: 'LLM model',
+    persistDirectory: 'Persist directory',
+    reportedAt: 'Reported at',
+    lastHealthResponse: 'Last health response',
+    healthMessage: 'Health message',
+    lastSuccessfulCheck: 'Last successful check',
+    lastCheck: 'Last check',
+    nextCheck: 'Next check',
+    inProgress: 'In progress',
+    failedChecks: 'Failed checks in a row',
+    title: 'Backend Status',
+    subtitle: 'Connection health and configuration of the RAG backend',
+    connectionTitle: 'Connection',
+    connectionSubtitle: 'Checked in the background while the app is open',
+    pipelineTitle: 'RAG Pipeline',
+    pipelineSubtitle: 'Models and storage reported by',
+    healthCheckFailed: 'Health check failed',
+  },
+  markdown: {
+    copyCode: 'Copy code',
+    copyFailed: 'Failed to copy to clipboard',
+  },
+  sources: {
+    title: 'Sources',
+    showPassages: 'Show passages',
+    hidePassages: 'Hide passages',
+    unknownSource: 'Unknown source',
+  },
+  apiErrors: {
+    network: 'Cannot reach the server. Check your connection and make sure the backend is running.',
+    timeout: 'The server took too long to respond. It may be starting up, please try again in a moment.',
+    authRejected: 'Your license key was rejected. Please enter a valid license key.',
+    forbidden: 'Your license does not allow this action.',
+    forbiddenDetail: 'Your license does not allow this action: {detail}',
+    validation: 'The request was rejected: {message}',
+    rateLimit: 'Too many requests. Please wait a moment and try again.',
+    rateLimitRetryAfter: 'Too many requests. Please wait {seconds}s and try again.',
+    server: 'The server ran into a problem. Please try again shortly.',
+    serverDetail: 'The server ran into a problem: {detail}',
+  },
+  storage: {
+    unavailable: 'Browser storage (IndexedDB) is not available in this browser.',
+    upgradeBlocked: 'Storage upgrade is blocked by another open tab of this app. Close the other tabs and reload.',
+    full: 'Browser storage is full. Export and delete old chat sessions to free up space.',
+    invalidFile: 'Invalid file format or corrupted data',
+    newerVersion: 'This file uses export format v{version}, which is newer than this app supports. Please update the app and try again.',
+  },
+  transcript: {
+    title: 'Transcript',
+    created: 'Created',
+    lastUpdated: 'Last updated',
+    exported: 'Exported',
+    settings: 'Settings',
+    conversation: 'Conversation',
+    user: 'User',
+    popupBlocked: 'Pop-up blocked. Allow pop-ups for this site to export as PDF.',
+  },
+};
+
+export default en;
@@ -0,0 +1,574 @@
+import type { MessageCatalog } from '@/services/i18n';
+
+// Urdu messages. Plural messages use the "one" and "other" forms, like English.
+const ur: MessageCatalog = {
+  common: {
+    cancel: 'منسوخ کریں',
+    close: 'بند کریں',
+    save: 'محفوظ کریں',
+    delete: 'حذف کریں',
+    rename: 'نام تبدیل کریں',
+    retry: 'دوبارہ کوشش کریں',
+    refresh: 'ریفریش کریں',
+    loading: 'لوڈ ہو رہا ہے...',
+    done: 'ہو گیا',
+    apply: 'لاگو کریں',
+    clear: 'صاف کریں',
+    messageCount: { one: '{count} پیغام', other: '{count} پیغامات' },
+    documentCount: { one: '{count} دستاویز', other: '{count} دستاویزات' },
+    fileCount: { one: '{count} فائل', other: '{count} فائلیں' },
+    chunkCount: { one: '{count} حصہ', other: '{count} حصے' },
+    sessionCount: { one: '{count} سیشن', other: '{count} سیشنز' },
+    unknownError: 'کچھ غلط ہو گیا۔ براہ کرم دوبارہ کوشش کریں۔',
+    you: 'آپ',
+    assistant: 'اسسٹنٹ',
+  },
+  models: {
+    latestDescription: 'جدید ترین اور سب سے قابل ماڈل، پیچیدہ استدلال اور تجزیے کے لیے بہترین',
+    fastDescription: 'تیز اور مؤثر، زیادہ تر کاموں کے لیے بہترین',
+    capableDescription: 'سب سے قابل ماڈل، پیچیدہ استدلال اور تجزیے کے لیے بہترین',
+    advancedDescription: 'بہتر استدلالی صلاحیتوں والا جدید ماڈل',
+    balancedDescription: 'روزمرہ استعمال کے لیے کارکردگی اور رفتار میں توازن',
+  },
+  searchTypes: {
+    hybrid: 'ہائبرڈ تلاش',
+    hybridShort: 'ہائبرڈ',
+    hybridDescription: 'بہترین نتائج کے لیے معنوی اور کلیدی الفاظ کی تلاش کو یکجا کرتا ہے',
+    semantic: 'معنوی تلاش',
+    semanticShort: 'معنوی',
+    semanticDescription: 'سیاق و سباق کے مطابق نتائج کے لیے ویکٹر مماثلت استعمال کرتا ہے',
+    keyword: 'کلیدی الفاظ کی تلاش',
+    keywordShort: 'کلیدی الفاظ',
+    keywordDescription: 'کلیدی الفاظ کی درست مطابقت کے لیے BM25 الگورتھم استعمال کرتا ہے',
+    serverDefault: 'سرور کا طے شدہ',
+    serverDefaultDescription: 'بیک اینڈ کی طے شدہ تلاش کی قسم پر عمل کریں',
+  },
+  temperature: {
+    deterministic: 'متعین',
+    deterministicDescription: 'سب سے زیادہ مرکوز اور یکساں',
+    creative: 'تخلیقی',
+    creativeDescription: 'تخلیقیت اور توجہ میں توازن',
+    veryCreative: 'بہت تخلیقی',
+    veryCreativeDescription: 'زیادہ متنوع اور تخیلاتی',
+    maximum: 'زیادہ سے زیادہ تخلیقیت',
+    maximumDescription: 'سب سے زیادہ متنوع اور تخلیقی',
+  },
+  shortcuts: {
+    commandPalette: 'کمانڈ پیلیٹ کھولیں',
+    showShortcuts: 'کی بورڈ شارٹ کٹس دکھائیں',
+    newSession: 'نیا چیٹ سیشن',
+    focusInput: 'پیغام کے خانے پر جائیں',
+    toggleDocumentSelector: 'دستاویز منتخب کنندہ دکھائیں یا چھپائیں',
+    nextSession: 'اگلا سیشن',
+    previousSession: 'پچھلا سیشن',
+  },
+  app: {
+    defaultSessionName: 'نیا چیٹ سیشن',
+    numberedSessionName: 'نیا چیٹ سیشن {number}',
+    initializeFailed: 'ایپلیکیشن شروع نہیں ہو سکی',
+    pageNotFound: 'صفحہ نہیں ملا: {path}',
+    sessionNotFound: 'چیٹ سیشن نہیں ملا۔ شاید اسے حذف کر دیا گیا ہے۔',
+    sessionCreated: 'نیا چیٹ سیشن بن گیا',
+    createSessionFailed: 'چیٹ سیشن نہیں بن سکا',
+    sessionDeleted: 'چیٹ سیشن حذف ہو گیا',
+    deleteSessionFailed: 'چیٹ سیشن حذف نہیں ہو سکا',
+    settingsUpdated: 'ترتیبات اپ ڈیٹ ہو گئیں',
+    updateSettingsFailed: 'ترتیبات اپ ڈیٹ نہیں ہو سکیں',
+    sessionsExported: 'چیٹ سیشنز کامیابی سے برآمد ہو گئے',
+    exportFailed: 'سیشنز برآمد نہیں ہو سکے',
+    importFailed: 'سیشنز درآمد نہیں ہو سکے',
+    sessionsImported: 'چیٹ سیشنز کامیابی سے درآمد ہو گئے',
+    loadingTitle: 'RAG اسسٹنٹ لوڈ ہو رہا ہے...',
+    loadingSubtitle: 'آپ کا AI اسسٹنٹ تیار کیا جا رہا ہے',
+  },
+  palette: {
+    openChat: 'چیٹ کھولیں',
+    openDocuments: 'دستاویزات کھولیں',
+    openSettings: 'ترتیبات کھولیں',
+    openStatus: 'بیک اینڈ کی حالت کھولیں',
+    exportSessions: 'تمام سیشنز برآمد کریں',
+    keyboardShortcuts: 'کی بورڈ شارٹ کٹس',
+    lightTheme: 'ہلکی تھیم استعمال کریں',
+    darkTheme: 'گہری تھیم استعمال کریں',
+    systemTheme: 'سسٹم تھیم استعمال کریں',
+    changeModel: 'ماڈل کو {model} میں تبدیل کریں',
+    changeSearchType: 'تلاش کی قسم کو {searchType} میں تبدیل کریں',
+    groupActions: 'کارروائیاں',
+    groupSessions: 'سیشنز',
+    groupDocuments: 'دستاویزات',
+    documentInScope: 'چیٹ کے دائرے میں: ہٹانے کے لیے منتخب کریں',
+    documentAddToScope: 'چیٹ کے دائرے میں شامل کریں',
+    documentsLoadFailed: 'دستاویزات لوڈ نہیں ہو سکیں',
+    searchPlaceholder: 'سیشنز، کارروائیاں اور دستاویزات تلاش کریں...',
+    noResults: 'کوئی مماثل کمانڈ نہیں',
+    navigate: 'منتقل ہوں',
+    run: 'چلائیں',
+    close: 'بند کریں',
+    ariaLabel: 'کمانڈ پیلیٹ',
+  },
+  shortcutsDialog: {
+    title: 'کی بورڈ شارٹ کٹس',
+    subtitle: 'شارٹ کٹ تبدیل کرنے کے لیے اس پر کلک کریں',
+    change: 'شارٹ کٹ تبدیل کریں',
+    recording: 'کیز دبائیں… (منسوخ کرنے کے لیے Esc، ہٹانے کے لیے Backspace)',
+    notSet: 'مقرر نہیں',
+    notAllowed: '{shortcut} بطور شارٹ کٹ استعمال نہیں ہو سکتا',
+    reassigned: '{shortcut} کو "{action}" سے ہٹا دیا گیا',
+    builtIn: 'پہلے سے موجود',
+    sendMessage: 'پیغام بھیجیں',
+    newLine: 'پیغام میں نئی سطر',
+    closeDialog: 'ڈائیلاگ یا پیلیٹ بند کریں',
+    typingHint: 'ٹیکسٹ فیلڈ میں لکھتے وقت {modifiers} کے بغیر شارٹ کٹس نظر انداز ہو جاتے ہیں۔',
+    reset: 'طے شدہ پر بحال کریں',
+    resetDone: 'کی بورڈ شارٹ کٹس طے شدہ پر بحال ہو گئے',
+  },
+  sidebar: {
+    confirmDelete: 'کیا آپ واقعی یہ چیٹ سیشن حذف کرنا چاہتے ہیں؟ یہ عمل واپس نہیں ہو سکتا۔',
+    backendStatus: 'بیک اینڈ کی حالت',
+    mockBackend: 'فرضی بیک اینڈ: ڈیٹا مصنوعی ہے اور میموری میں رکھا جاتا ہے',
+    newChat: 'نئی چیٹ',
+    commands: 'کمانڈز...',
+    chat: 'چیٹ',
+    documents: 'دستاویزات',
+    settings: 'ترتیبات',
+    status: 'حالت',
+    searchPlaceholder: 'تمام پیغامات تلاش کریں...',
+    resultCount: { one: '{count} نتیجہ', other: '{count} نتائج' },
+    noResults: '"{query}" سے کوئی پیغام مماثل نہیں',
+    chatSessions: 'چیٹ سیشنز',
+    statsTotal: 'کل: {count}',
+    statsMessages: 'پیغامات: {count}',
+    statsAverage: 'اوسط: {count}',
+    perSession: 'فی سیشن',
+    exportSessions: 'سیشنز برآمد کریں',
+    importSessions: 'سیشنز درآمد کریں',
+    keyboardShortcuts: 'کی بورڈ شارٹ کٹس',
+  },
+  chat: {
+    saveMessageFailed: 'پیغام محفوظ نہیں ہو سکا',
+    responseReceived: 'جواب کامیابی سے موصول ہو گیا',
+    responseStopped: 'جواب روک دیا گیا',
+    responseFailed: 'جواب حاصل نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+    saveSelectionFailed: 'دستاویزات کا انتخاب محفوظ نہیں ہو سکا',
+    transcriptExported: 'ٹرانسکرپٹ برآمد ہو گئی',
+    exportFailed: 'ٹرانسکرپٹ برآمد نہیں ہو سکی',
+    saveAndSubmit: 'محفوظ کریں اور بھیجیں',
+    interrupted: 'جواب مکمل ہونے سے پہلے روک دیا گیا',
+    documentsRetrieved: { one: '{count} دستاویز حاصل کی گئی', other: '{count} دستاویزات حاصل کی گئیں' },
+    processingTime: 'پروسیسنگ کا وقت {seconds} سیکنڈ',
+    searchType: '{searchType} تلاش',
+    previousVersion: 'پچھلا ورژن',
+    nextVersion: 'اگلا ورژن',
+    editAndResend: 'ترمیم کر کے دوبارہ بھیجیں',
+    edit: 'ترمیم',
+    regenerateAnswer: 'جواب دوبارہ بنائیں',
+    regenerate: 'دوبارہ بنائیں',
+    lastUpdated: 'آخری اپ ڈیٹ {time}',
+    exportConversation: 'یہ گفتگو برآمد کریں',
+    export: 'برآمد کریں',
+    exportMarkdown: 'Markdown (.md)',
+    exportHtml: 'HTML (.html)',
+    exportPdf: 'PDF (پرنٹ)',
+    welcomeTitle: 'آپ کے RAG اسسٹنٹ میں خوش آمدید',
+    welcomeMessage: 'نیچے پیغام لکھ کر گفتگو شروع کریں۔ میں نالج بیس کی مدد سے آپ کے سوالات میں مدد کر سکتا ہوں۔',
+    inputPlaceholder: 'اپنا سوال یہاں لکھیں...',
+    stopGenerating: 'جواب بنانا روکیں',
+    stop: 'روکیں',
+    inputHint: 'بھیجنے کے لیے Enter، نئی سطر کے لیے Shift+Enter دبائیں',
+  },
+  documentSelector: {
+    loadFailed: 'دستاویزات لوڈ نہیں ہو سکیں',
+    unknownDate: 'نامعلوم',
+    selectDocuments: 'دستاویزات منتخب کریں',
+    selectedCount: { one: '{count} دستاویز منتخب', other: '{count} دستاویزات منتخب' },
+    title: 'توجہ کے لیے دستاویزات منتخب کریں',
+    clearAll: 'سب صاف کریں',
+    description: 'RAG سوالات میں صرف منتخب دستاویزات استعمال ہوں گی، جس سے غلط معلومات کم ہوتی ہیں',
+    collections: 'مجموعے',
+    collectionUnavailable: '{count} میں سے {missing} دستاویزات اب دستیاب نہیں',
+    selectCollection: { one: 'اس مجموعے کی {count} دستاویز منتخب کریں', other: 'اس مجموعے کی {count} دستاویزات منتخب کریں' },
+    staleCount: { one: '{count} منتخب دستاویز اب دستیاب نہیں', other: '{count} منتخب دستاویزات اب دستیاب نہیں' },
+    remove: 'ہٹائیں',
+    loading: 'دستاویزات لوڈ ہو رہی ہیں...',
+    empty: 'ابھی تک کوئی دستاویز اپ لوڈ نہیں ہوئی',
+    emptyHint: 'انتخاب کے لیے دستاویزات اپ لوڈ کریں',
+    noMatches: 'ان فلٹرز سے کوئی دستاویز مماثل نہیں',
+    focusInfo: { one: 'RAG سوالات {count} منتخب دستاویز پر مرکوز ہوں گے', other: 'RAG سوالات {count} منتخب دستاویزات پر مرکوز ہوں گے' },
+  },
+  documentFilters: {
+    searchPlaceholder: 'فائل کے نام تلاش کریں…',
+    fileType: 'فائل کی قسم',
+    allTypes: 'تمام اقسام',
+    sortOrder: 'ترتیب',
+    sortNewest: 'نئی پہلے',
+    sortOldest: 'پرانی پہلے',
+    sortNameAsc: 'نام (ا–ی)',
+    sortNameDesc: 'نام (ی–ا)',
+    sortMostChunks: 'سب سے زیادہ حصے',
+    sortFewestChunks: 'سب سے کم حصے',
+    filterByDate: 'اپ لوڈ کی تاریخ سے فلٹر کریں',
+    uploaded: 'اپ لوڈ',
+    uploadedAfter: 'اس تاریخ یا اس کے بعد اپ لوڈ',
+    to: 'تا',
+    uploadedBefore: 'اس تاریخ یا اس سے پہلے اپ لوڈ',
+    showing: '{total} میں سے {count} دستاویزات دکھائی جا رہی ہیں',
+    clearFilters: 'فلٹرز صاف کریں',
+  },
+  documents: {
+    loadFailed: 'ڈیٹا بیس سے دستاویزات لوڈ نہیں ہو سکیں',
+    uploadFinished: 'اپ لوڈ مکمل: {count} اپ لوڈ ہوئیں',
+    uploadFinishedFailed: '، {count} ناکام',
+    uploadFinishedCancelled: '، {count} منسوخ',
+    replaceFailed: 'پرانی {existing} ہٹائی نہیں جا سکی؛ {file} اپ لوڈ نہیں ہوئی',
+    skipped: { one: 'نالج بیس میں پہلے سے موجود {count} فائل چھوڑ دی گئی', other: 'نالج بیس میں پہلے سے موجود {count} فائلیں چھوڑ دی گئیں' },
+    unsupportedType: '{file} معاون فائل کی قسم نہیں ہے',
+    tooLarge: '{file} بہت بڑی ہے۔ زیادہ سے زیادہ سائز {size} ہے',
+    confirmDeleteSelected: 'کیا آپ واقعی {count} منتخب دستاویزات حذف کرنا چاہتے ہیں؟',
+    selectedDeleted: 'منتخب دستاویزات حذف ہو گئیں',
+    deleteSelectedFailed: 'کچھ دستاویزات حذف نہیں ہو سکیں',
+    confirmDelete: 'کیا آپ واقعی "{file}" حذف کرنا چاہتے ہیں؟ اس سے تمام سیشنز میں اس فائل کے تمام حصے حذف ہو جائیں گے۔',
+    deleted: '{file} کامیابی سے حذف ہو گئی ({count} حصے ہٹائے گئے)',
+    deleteFailed: 'دستاویز حذف نہیں ہو سکی',
+    uploadSessionDeleted: 'اپ لوڈ سیشن حذف ہو گیا ({count} حصے ہٹائے گئے)',
+    deleteUploadSessionFailed: 'اپ لوڈ سیشن حذف نہیں ہو سکا',
+    title: 'دستاویز مینیجر',
+    subtitle: 'اپنے RAG نالج بیس کے لیے دستاویزات اپ لوڈ اور منظم کریں',
+    sessionId: 'سیشن ID:',
+    sessionCreated: 'نیا سیشن بن گیا',
+    newSession: 'نیا سیشن',
+    deleteSelected: 'منتخب حذف کریں ({count})',
+    uploadSessions: 'اپ لوڈ سیشنز',
+    collections: 'مجموعے',
+    refresh: 'دستاویزات ریفریش کریں',
+    upload: 'دستاویزات اپ لوڈ کریں',
+    dropFiles: 'فائلیں یہاں چھوڑیں',
+    dragFiles: 'فائلیں یہاں گھسیٹ کر چھوڑیں',
+    browseFiles: 'یا فائلیں منتخب کرنے کے لیے کلک کریں',
+    supportedFormats: 'معاون فارمیٹس: PDF، DOCX، TXT، MD',
+    maxFileSize: 'فائل کا زیادہ سے زیادہ سائز: {size}',
+    selectShown: 'دکھائی گئی منتخب کریں',
+    loading: 'دستاویزات لوڈ ہو رہی ہیں...',
+    loadingHint: 'براہ کرم انتظار کریں، ڈیٹا بیس سے دستاویزات لائی جا رہی ہیں۔',
+    empty: 'ڈیٹا بیس میں کوئی دستاویز نہیں',
+    emptyHint: 'اپنا نالج بیس بنانے اور RAG پر مبنی گفتگو کے لیے دستاویزات اپ لوڈ کریں۔',
+    noMatches: 'ان فلٹرز سے کوئی دستاویز مماثل نہیں۔',
+    viewChunks: 'انڈیکس شدہ حصے دیکھیں',
+    deleteDocument: 'دستاویز حذف کریں',
+  },
+  chunkViewer: {
+    loadFailed: 'حصے لوڈ نہیں ہو سکے',
+    matchingCount: { one: '{count} مماثل حصہ', other: '{count} مماثل حصے' },
+    loading: 'حصے لوڈ ہو رہے ہیں…',
+    searchPlaceholder: 'حصوں کا متن تلاش کریں…',
+    noMatches: 'آپ کی تلاش سے کوئی حصہ مماثل نہیں۔',
+    empty: 'اس دستاویز کا کوئی انڈیکس شدہ حصہ نہیں۔',
+    chunk: 'حصہ {number}',
+    characters: { one: '{count} حرف', other: '{count} حروف' },
+    lowText: 'بہت کم یا کوئی متن نہیں نکلا۔ یہ اکثر اسکین شدہ صفحہ ہوتا ہے جسے OCR کی ضرورت ہوتی ہے۔',
+    page: 'صفحہ {page} از {total}',
+    previousPage: 'پچھلا صفحہ',
+    nextPage: 'اگلا صفحہ',
+  },
+  collections: {
+    updateFailed: 'مجموعہ اپ ڈیٹ نہیں ہو سکا',
+    exists: '"{name}" نام کا مجموعہ پہلے سے موجود ہے',
+    createdWith: { one: '"{name}" {count} دستاویز کے ساتھ بن گیا', other: '"{name}" {count} دستاویزات کے ساتھ بن گیا' },
+    created: '"{name}" بن گیا',
+    confirmDelete: 'مجموعہ "{name}" حذف کریں؟ دستاویزات خود حذف نہیں ہوں گی۔',
+    deleted: 'مجموعہ حذف ہو گیا',
+    title: 'مجموعے',
+    subtitle: 'دستاویزات کے نام والے گروپ جنہیں آپ چیٹ میں ایک کلک سے منتخب کر سکتے ہیں',
+    namePlaceholder: 'نئے مجموعے کا نام',
+    createFromSelected: '{count} منتخب سے بنائیں',
+    create: 'بنائیں',
+    empty: 'ابھی کوئی مجموعہ نہیں۔ نیچے دستاویزات منتخب کریں، نام درج کریں اور بنائیں پر کلک کریں۔',
+    unavailableCount: '{count} دستیاب نہیں',
+    added: { one: '"{name}" میں {count} دستاویز شامل کی گئی', other: '"{name}" میں {count} دستاویزات شامل کی گئیں' },
+    addSelected: '{count} منتخب شامل کریں',
+    selectDocuments: 'فہرست میں یہ دستاویزات منتخب کریں',
+    rename: 'مجموعے کا نام تبدیل کریں',
+    delete: 'مجموعہ حذف کریں',
+    emptyCollection: 'خالی۔ فہرست میں دستاویزات منتخب کریں اور "منتخب شامل کریں" پر کلک کریں۔',
+    removeUnavailable: 'غیر دستیاب ہٹائیں ({count})',
+    noLongerAvailable: 'اب نالج بیس میں نہیں',
+    removeFile: 'مجموعے سے ہٹائیں',
+  },
+  uploadQueue: {
+    queued: 'انتظار میں',
+    uploading: 'اپ لوڈ ہو رہی ہے',
+    processing: 'سرور پر پروسیسنگ',
+    done: 'اپ لوڈ ہو گئی',
+    error: 'ناکام',
+    cancelled: 'منسوخ',
+    title: 'اپ لوڈ قطار',
+    inProgress: '{count} جاری',
+    uploadedCount: '{total} میں سے {count} اپ لوڈ ہوئیں',
+    parallelUploads: 'متوازی اپ لوڈز',
+    retryFailed: 'ناکام دوبارہ آزمائیں ({count})',
+    cancelAll: 'سب منسوخ کریں',
+    batchFinished: 'بیچ مکمل: {count} اپ لوڈ ہوئیں ({chunks} حصے)',
+    failedCount: '{count} ناکام',
+    cancelledCount: '{count} منسوخ',
+    progress: '{size} کا {percent}%',
+    cancelUpload: 'اپ لوڈ منسوخ کریں',
+    cannotCancel: 'فائل بھیجی جا چکی ہے اور سرور اسے انڈیکس کر رہا ہے، اس لیے اب اسے منسوخ نہیں کیا جا سکتا',
+    retryUpload: 'اپ لوڈ دوبارہ آزمائیں',
+    uploadFailed: 'اپ لوڈ ناکام',
+    replaceCleanupFailed: '{file} اپ لوڈ ہو گئی، لیکن پرانی {existing} ہٹائی نہیں جا سکی',
+  },
+  uploadSessions: {
+    confirmDelete: '"{name}" میں اپ لوڈ ہونے والا ہر حصہ حذف کریں ({files})؟ جو فائلیں دوسرے سیشنز میں بھی اپ لوڈ ہوئیں ان کی وہ نقول باقی رہیں گی۔',
+    unknownDate: 'نامعلوم تاریخ',
+    title: 'اپ لوڈ سیشنز',
+    subtitle: 'فائلیں اس سیشن کے مطابق گروپ کی گئی ہیں جس میں وہ اپ لوڈ ہوئیں',
+    empty: 'ابھی تک کوئی اپ لوڈ نہیں۔',
+    labelPlaceholder: 'اس سیشن کا لیبل',
+    current: 'موجودہ',
+    rename: 'سیشن کا نام تبدیل کریں',
+    delete: 'اس سیشن میں اپ لوڈ ہونے والی ہر چیز حذف کریں',
+    inSessions: '{count} سیشنز میں',
+  },
+  uploadConflict: {
+    skip: 'چھوڑ دیں',
+    skipDescription: 'یہ فائل اپ لوڈ نہ کریں',
+    replace: 'تبدیل کریں',
+    replaceDescription: 'موجودہ حصوں کی جگہ یہ فائل اپ لوڈ کریں',
+    keepBoth: 'دونوں رکھیں',
+    keepBothDescription: 'نمبر کے لاحقے کے ساتھ نئے نام سے اپ لوڈ کریں',
+    duplicate: 'یکساں مواد پہلے سے نالج بیس میں موجود ہے',
+    changed: 'اس نام کا مختلف ورژن پہلے سے نالج بیس میں موجود ہے',
+    nameTaken: 'اس نام کی فائل پہلے سے نالج بیس میں موجود ہے',
+    existingName: '{description}، بطور {name}',
+    inBatch: '{name} جیسا ہی مواد، جو اسی اپ لوڈ میں شامل ہے',
+    title: 'پہلے سے اپ لوڈ شدہ فائلیں',
+    subtitle: { one: '{count} میں سے {conflicts} فائل نالج بیس کی دستاویزات سے مماثل ہے', other: '{count} میں سے {conflicts} فائلیں نالج بیس کی دستاویزات سے مماثل ہیں' },
+    explanation: 'ایک ہی دستاویز دو بار اپ لوڈ کرنے سے اس کے حصے دہرائے جاتے ہیں اور بازیافت متاثر ہوتی ہے۔',
+    setAll: 'سب کے لیے:',
+    newCount: '{count} نئی',
+    toUpload: '{count} اپ لوڈ کے لیے',
+    skipAll: 'سب چھوڑ دیں',
+    upload: '{count} اپ لوڈ کریں',
+  },
+  importDialog: {
+    keepMine: 'میرا رکھیں',
+    keepMineDescription: 'درآمد شدہ نقل نظر انداز کریں',
+    replace: 'تبدیل کریں',
+    replaceDescription: 'درآمد شدہ نقل سے بدل دیں',
+    keepBoth: 'دونوں رکھیں',
+    keepBothDescription: 'درآمد شدہ نقل نئے سیشن کے طور پر شامل کریں',
+    merge: 'ضم کریں',
+    mergeDescription: 'اپنی موجودہ ہسٹری میں شامل کریں',
+    replaceAll: 'سب تبدیل کریں',
+    replaceAllDescription: 'اپنی ہسٹری حذف کر کے فائل استعمال کریں',
+    title: 'چیٹ سیشنز درآمد کریں',
+    sessionsInFile: { one: 'فائل میں {count} سیشن', other: 'فائل میں {count} سیشنز' },
+    collections: { one: 'فائل میں {count} دستاویزی مجموعہ بھی ہے۔', other: 'فائل میں {count} دستاویزی مجموعے بھی ہیں۔' },
+    collectionsReplace: 'یہ آپ کے موجودہ مجموعوں کی جگہ لیں گے۔',
+    collectionsMerge: 'جو مجموعے آپ کے پاس نہیں وہ شامل ہو جائیں گے؛ باقی کے لیے حال ہی میں ترمیم شدہ نقل رکھی جائے گی۔',
+    existingSessions: { one: '{count} موجودہ سیشن', other: 'تمام {count} موجودہ سیشنز' },
+    replaceWarning: '{existing} حذف ہو کر فائل کے {incoming} سے بدل دیے جائیں گے۔',
+    new: 'نیا',
+    alreadyPresent: 'پہلے سے موجود',
+    changed: 'تبدیل شدہ',
+    sessionsToAdd: 'شامل کیے جانے والے سیشنز',
+    sessionsThatDiffer: 'آپ کے سیشنز سے مختلف سیشنز',
+    setAll: 'سب کے لیے:',
+    yours: 'آپ کا',
+    imported: 'درآمد شدہ',
+    updated: 'اپ ڈیٹ {date}',
+    afterImport: { one: 'درآمد کے بعد {count} سیشن', other: 'درآمد کے بعد {count} سیشنز' },
+    mergeSummary: '{added} شامل · {replaced} تبدیل · {duplicated} دہرائے گئے · {unchanged} بغیر تبدیلی',
+    confirmReplace: 'سب تبدیل کریں',
+    confirmImport: 'درآمد کریں',
+  },
+  settings: {
+    saved: 'ترتیبات کامیابی سے محفوظ ہو گئیں',
+    confirmReset: 'کیا آپ واقعی تمام ترتیبات طے شدہ پر بحال کرنا چاہتے ہیں؟',
+    resetDone: 'ترتیبات طے شدہ پر بحال ہو گئیں',
+    followsServerDefault: 'سرور کے طے شدہ پر عمل کرتا ہے',
+    followsServerDefaultCurrent: 'سرور کے طے شدہ پر عمل کرتا ہے (فی الحال {searchType})',
+    title: 'ترتیبات',
+    subtitle: 'اپنے RAG اسسٹنٹ کی ترجیحات اور ماڈل کی ترتیبات طے کریں',
+    resetToDefaults: 'طے شدہ پر بحال کریں',
+    resetChanges: 'تبدیلیاں واپس لیں',
+    saveChanges: 'تبدیلیاں محفوظ کریں',
+    modelTitle: 'AI ماڈل',
+    modelSubtitle: 'اپنی گفتگو کے لیے OpenAI ماڈل منتخب کریں',
+    temperatureTitle: 'ٹمپریچر',
+    temperatureSubtitle: 'جوابات کی تخلیقیت اور بے ترتیبی کو کنٹرول کریں',
+    currentTemperature: 'موجودہ: {value}',
+    quickPresets: 'فوری انتخاب',
+    searchTitle: 'تلاش کی حکمت عملی',
+    searchSubtitle: 'یہ سیشن متعلقہ معلومات کیسے حاصل کرتا ہے۔ صرف اس سیشن کے لیے سرور کے طے شدہ کو بدلنے کے لیے حکمت عملی منتخب کریں۔',
+    scopeTitle: 'دستاویزات کا دائرہ',
+    scopeSubtitle: 'وہ دستاویزات جن تک اس سیشن کے سوالات محدود ہیں۔ انتخاب چیٹ کے ہیڈر سے تبدیل کریں۔',
+    removeUnavailable: 'غیر دستیاب ہٹائیں ({count})',
+    clearScope: 'دائرہ صاف کریں',
+    noScope: 'کوئی دستاویز منتخب نہیں — سوالات پورے نالج بیس میں تلاش کرتے ہیں۔',
+    removeFromScope: 'دائرے سے ہٹائیں',
+    currentConfiguration: 'موجودہ ترتیب',
+    model: 'ماڈل',
+    temperature: 'ٹمپریچر',
+    searchType: 'تلاش کی قسم',
+    scope: 'دستاویزات کا دائرہ',
+    allDocuments: 'تمام دستاویزات',
+    staleCount: '{count} اب دستیاب نہیں',
+    scopeDescription: 'اس سیشن کے لیے بازیافت کو محدود کرتا ہے',
+    unsavedTitle: 'غیر محفوظ تبدیلیاں',
+    unsavedMessage: 'آپ کی تبدیلیاں محفوظ نہیں ہوئیں۔ انہیں اپنے سیشن پر لاگو کرنے کے لیے "تبدیلیاں محفوظ کریں" پر کلک کریں۔',
+  },
+  serverDefaults: {
+    confirmChange: 'سرور کی طے شدہ تلاش کی قسم کو {searchType} میں تبدیل کریں؟ اس کا اثر ہر اس صارف اور سیشن پر ہوگا جو اپنی تلاش کی قسم مقرر نہیں کرتا۔',
+    changed: 'سرور کی طے شدہ تلاش کی قسم {searchType} مقرر ہو گئی',
+    notAllowed: 'آپ کا لائسنس سرور کی ترتیبات تبدیل کرنے کی اجازت نہیں دیتا۔',
+    updateFailed: 'سرور کی طے شدہ تلاش کی قسم اپ ڈیٹ نہیں ہو سکی',
+    title: 'سرور کے طے شدہ',
+    subtitle: 'ایڈمن: تمام صارفین کی مشترکہ بیک اینڈ ترتیبات',
+    warning: 'سرور کا طے شدہ ہر اس سیشن میں استعمال ہوتا ہے جس کی تلاش کی حکمت عملی "سرور کا طے شدہ" ہو۔ اپنی حکمت عملی والے سیشنز متاثر نہیں ہوتے۔ سیشن کی ترتیبات محفوظ کرنے سے یہ تبدیل نہیں ہوتا۔',
+    defaultSearchType: 'طے شدہ تلاش کی قسم',
+    loading: 'موجودہ طے شدہ لوڈ ہو رہا ہے…',
+    currently: 'فی الحال',
+    notReported: 'بیک اینڈ نے موجودہ طے شدہ نہیں بتایا',
+    current: 'سرور کا موجودہ طے شدہ',
+    applying: 'لاگو ہو رہا ہے…',
+    apply: 'سرور پر لاگو کریں',
+  },
+  appearance: {
+    title: 'ظاہری شکل',
+    subtitle: 'اس براؤزر کے لیے رنگوں کی تھیم',
+    light: 'ہلکی',
+    lightDescription: 'ہمیشہ ہلکی تھیم استعمال کریں',
+    dark: 'گہری',
+    darkDescription: 'ہمیشہ گہری تھیم استعمال کریں',
+    system: 'سسٹم',
+    systemDescription: 'اپنے آلے کی ترتیب پر عمل کریں',
+  },
+  language: {
+    title: 'زبان',
+    subtitle: 'اس براؤزر کے لیے انٹرفیس کی زبان',
+    ltr: 'بائیں سے دائیں',
+    rtl: 'دائیں سے بائیں',
+  },
+  license: {
+    invalid: 'یہ لائسنس کی درست نہیں ہے۔',
+    expiredOn: 'اس لائسنس کی میعاد {date} کو ختم ہو گئی۔',
+    notRecognised: 'یہ لائسنس کی پہچانی نہیں گئی۔',
+    verifyFailed: 'لائسنس کی کی تصدیق نہیں ہو سکی',
+    refreshed: 'لائسنس کی تفصیلات ریفریش ہو گئیں',
+    enterKey: 'براہ کرم اپنی لائسنس کی درج کریں',
+    replaced: 'لائسنس کی تبدیل ہو گئی',
+    confirmSignOut: 'اس لائسنس سے سائن آؤٹ کریں؟ ایپ استعمال کرنے کے لیے آپ کو دوبارہ لائسنس کی درج کرنی ہوگی۔',
+    title: 'لائسنس',
+    subtitle: 'وہ لائسنس کی جو یہ براؤزر اسسٹنٹ تک رسائی کے لیے استعمال کرتا ہے',
+    recheck: 'دوبارہ جانچیں',
+    signOut: 'سائن آؤٹ',
+    detailsNotLoaded: 'کی {key} — تفصیلات ابھی لوڈ نہیں ہوئیں۔ انہیں لانے کے لیے دوبارہ جانچیں استعمال کریں۔',
+    verifying: 'تصدیق ہو رہی ہے…',
+    verifyAndReplace: 'تصدیق کریں اور تبدیل کریں',
+    replaceKey: 'لائسنس کی تبدیل کریں',
+    expired: 'میعاد ختم',
+    expiresToday: 'آج میعاد ختم',
+    daysLeft: { one: '{count} دن باقی', other: '{count} دن باقی' },
+    key: 'کی',
+    holder: 'حامل',
+    unknownHolder: 'نامعلوم',
+    tier: 'درجہ',
+    standardTier: 'معیاری',
+    expires: 'میعاد ختم',
+    never: 'کبھی نہیں',
+    signedOut: 'آپ اپنے لائسنس سے سائن آؤٹ ہو گئے',
+    invalidOrMissing: 'لائسنس غلط یا غائب ہے۔ براہ کرم درست لائسنس کی درج کریں۔',
+    applied: 'لائسنس لاگو ہو گیا',
+    appliedUnverified: 'لائسنس کی محفوظ ہو گئی۔ یہ سرور کیز کی پیشگی تصدیق نہیں کر سکتا، اس لیے آپ کی پہلی درخواست کے ساتھ اس کی جانچ ہوگی۔',
+    detailsUnavailable: 'یہ سرور لائسنس کی تفصیلات فراہم نہیں کرتا۔',
+    verifiedTitle: 'لائسنس کی تصدیق ہو گئی',
+    verifiedSubtitle: 'جاری رکھنے سے پہلے نیچے دی گئی تفصیلات دیکھ لیں۔',
+    differentKey: 'دوسری کی استعمال کریں',
+    continue: 'جاری رکھیں',
+    enterTitle: 'لائسنس کی درج کریں',
+    enterSubtitle: 'رسائی محدود ہے۔ جاری رکھنے کے لیے براہ کرم اپنی لائسنس کی فراہم کریں۔',
+    keyLabel: 'لائسنس کی',
+    verify: 'لائسنس کی تصدیق کریں',
+    bannerExpired: 'آپ کے لائسنس کی میعاد {date} کو ختم ہو گئی۔',
+    bannerExpiresToday: 'آپ کے لائسنس کی میعاد آج ختم ہو رہی ہے۔',
+    bannerExpiresIn: { one: 'آپ کے لائسنس کی میعاد {count} دن میں ختم ہو جائے گی ({date})۔', other: 'آپ کے لائسنس کی میعاد {count} دنوں میں ختم ہو جائے گی ({date})۔' },
+    bannerRenew: 'اسسٹنٹ استعمال کرتے رہنے کے لیے اس کی تجدید کریں یا کی تبدیل کریں۔',
+    manage: 'لائسنس کا انتظام',
+    dismiss: 'رد کریں',
+  },
+  connection: {
+    reconnected: 'RAG بیک اینڈ سے دوبارہ رابطہ ہو گیا۔',
+    unreachable: 'RAG بیک اینڈ تک رسائی نہیں ہو رہی۔',
+    unreachableSince: 'RAG بیک اینڈ تک رسائی نہیں ہو رہی (آخری رابطہ {time})۔',
+    reconnecting: 'دوبارہ رابطہ ہو رہا ہے…',
+    retryingIn: '{seconds} سیکنڈ میں دوبارہ کوشش۔',
+    sleepingServer: 'غیر فعال سرور کو شروع ہونے میں ایک منٹ تک لگ سکتا ہے۔',
+    retryNow: 'ابھی دوبارہ کوشش کریں',
+  },
+  status: {
+    connected: 'منسلک',
+    disconnected: 'غیر منسلک',
+    checking: 'جانچ ہو رہی ہے...',
+    loadFailed: 'بیک اینڈ کی حالت لوڈ نہیں ہو سکی',
+    ragStatus: 'RAG کی حالت',
+    embeddingModel: 'ایمبیڈنگ ماڈل',
+    llmModel: 'LLM ماڈل',
+    persistDirectory: 'اسٹوریج ڈائریکٹری',
+    reportedAt: 'رپورٹ کا وقت',
+    lastHealthResponse: 'آخری ہیلتھ جواب',
+    healthMessage: 'ہیلتھ پیغام',
+    lastSuccessfulCheck: 'آخری کامیاب جانچ',
+    lastCheck: 'آخری جانچ',
+    nextCheck: 'اگلی جانچ',
+    inProgress: 'جاری ہے',
+    failedChecks: 'مسلسل ناکام جانچیں',
+    title: 'بیک اینڈ کی حالت',
+    subtitle: 'RAG بیک اینڈ کے رابطے کی صحت اور ترتیب',
+    connectionTitle: 'رابطہ',
+    connectionSubtitle: 'ایپ کھلی ہونے کے دوران پس منظر میں جانچا جاتا ہے',
+    pipelineTitle: 'RAG پائپ لائن',
+    pipelineSubtitle: 'ماڈلز اور اسٹوریج، جیسا کہ رپورٹ کیا گیا',
+    healthCheckFailed: 'ہیلتھ جانچ ناکام',
+  },
+  markdown: {
+    copyCode: 'کوڈ کاپی کریں',
+    copyFailed: 'کلپ بورڈ پر کاپی نہیں ہو سکا',
+  },
+  sources: {
+    title: 'ماخذ',
+    showPassages: 'اقتباسات دکھائیں',
+    hidePassages: 'اقتباسات چھپائیں',
+    unknownSource: 'نامعلوم ماخذ',
+  },
+  apiErrors: {
+    network: 'سرور تک رسائی نہیں ہو رہی۔ اپنا کنکشن چیک کریں اور یقینی بنائیں کہ بیک اینڈ چل رہا ہے۔',
+    timeout: 'سرور نے جواب دینے میں بہت دیر لگائی۔ شاید یہ شروع ہو رہا ہے، براہ کرم کچھ دیر بعد دوبارہ کوشش کریں۔',
+    authRejected: 'آپ کی لائسنس کی مسترد کر دی گئی۔ براہ کرم درست لائسنس کی درج کریں۔',
+    forbidden: 'آپ کا لائسنس اس کارروائی کی اجازت نہیں دیتا۔',
+    forbiddenDetail: 'آپ کا لائسنس اس کارروائی کی اجازت نہیں دیتا: {detail}',
+    validation: 'درخواست مسترد کر دی گئی: {message}',
+    rateLimit: 'بہت زیادہ درخواستیں۔ براہ کرم کچھ دیر انتظار کر کے دوبارہ کوشش کریں۔',
+    rateLimitRetryAfter: 'بہت زیادہ درخواستیں۔ براہ کرم {seconds} سیکنڈ انتظار کر کے دوبارہ کوشش کریں۔',
+    server: 'سرور کو ایک مسئلہ پیش آیا۔ براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔',
+    serverDetail: 'سرور کو ایک مسئلہ پیش آیا: {detail}',
+  },
+  storage: {
+    unavailable: 'اس براؤزر میں براؤزر اسٹوریج (IndexedDB) دستیاب نہیں۔',
+    upgradeBlocked: 'اس ایپ کا دوسرا کھلا ٹیب اسٹوریج اپ گریڈ روک رہا ہے۔ دوسرے ٹیب بند کر کے دوبارہ لوڈ کریں۔',
+    full: 'براؤزر اسٹوریج بھر گیا ہے۔ جگہ خالی کرنے کے لیے پرانے چیٹ سیشنز برآمد کر کے حذف کریں۔',
+    invalidFile: 'غلط فائل فارمیٹ یا خراب ڈیٹا',
+    newerVersion: 'یہ فائل ایکسپورٹ فارمیٹ v{version} استعمال کرتی ہے، جو اس ایپ کے معاون ورژن سے نیا ہے۔ براہ کرم ایپ اپ ڈیٹ کر کے دوبارہ کوشش کریں۔',
+  },
+  transcript: {
+    title: 'ٹرانسکرپٹ',
+    created: 'بنایا گیا',
+    lastUpdated: 'آخری اپ ڈیٹ',
+    exported: 'برآمد کیا گیا',
+    settings: 'ترتیبات',
+    conversation: 'گفتگو',
+    user: 'صارف',
+    popupBlocked: 'پاپ اپ بلاک ہو گیا۔ PDF کے طور پر برآمد کرنے کے لیے اس سائٹ کے پاپ اپس کی اجازت دیں۔',
+  },
+};
+
+export default ur;
@@ -1,38 +1,15 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
-import App from './App.tsx'
-import LicenseGate from '@/components/LicenseGate'
+import AppRoot from '@/components/AppRoot'
 import './index.css'
-import { Toaster } from 'react-hot-toast'
+import { themeService } from '@/services/theme'
+import { i18nService } from '@/services/i18n'
+
+themeService.init()
+i18nService.init()
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <LicenseGate>
-      <App />
-    </LicenseGate>
-    <Toaster 
-      position="top-right"
-      toastOptions={{
-        duration: 4000,
-        style: {
-          background: '#363636',
-          color: '#fff',
-        },
-        success: {
-          duration: 3000,
-          iconTheme: {
-            primary: '#10b981',
-            secondary: '#fff',
-          },
-        },
-        error: {
-          duration: 5000,
-          iconTheme: {
-            primary: '#ef4444',
-            secondary: '#fff',
-          },
-        },
-      }}
-    />
+    <AppRoot />
   </React.StrictMode>,
 )
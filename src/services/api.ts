@@ -1,27 +1,155 @@
-import { RAGRequest, RAGResponse } from '@/types';
+import {
+  RAGRequest,
+  RAGResponse,
+  RAGStreamEvent,
+  RAGStreamHandlers,
+  LicenseInfo,
+  DocumentChunksResponse,
+  DocumentFileInfo,
+  HealthResponse,
+  RAGStatus,
+} from '@/types';
 import { licenseService } from './license';
+import { API_CONFIG } from '@/constants';
+import { retry, isAbortError } from '@/utils';
+import {
+  ApiError,
+  AuthError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  createApiErrorFromResponse,
+} from './apiErrors';
 
 // Get API URL from environment variable, with fallback for production
 const getApiBaseUrl = () => {
-  const meta = import.meta as any;
-  const envUrl = meta.env?.VITE_API_URL;
+  const envUrl = import.meta.env.VITE_API_URL;
   if (envUrl) return envUrl;
   
   // In production (Vercel), use the backend URL
-  if (meta.env?.PROD) {
+  if (import.meta.env.PROD) {
     return 'https://ragaichatbot-backend.onrender.com';
   }
   
   // Default to localhost for development
-  return 'https://ragaichatbot-backend.onrender.com';
+  return 'http://localhost:8000';
 };
 
 const API_BASE_URL = getApiBaseUrl();
 
+// Serve every request from the in-browser mock backend (offline development, demos, tests)
+const USE_MOCK_BACKEND = import.meta.env.VITE_USE_MOCK_BACKEND === 'true';
+
+// fetch, or the mock backend when enabled. The mock is imported on demand so it stays out of production bundles.
+async function transportFetch(url: string, init: RequestInit, onUploadProgress?: (loaded: number, total: number) => void): Promise<Response> {
+  if (!USE_MOCK_BACKEND) return fetch(url, init);
+  const { mockBackend } = await import('./mockBackend');
+  return mockBackend.fetch(url, init, { onProgress: onUploadProgress });
+}
+
+export interface ApiCallOptions {
+  signal?: AbortSignal;
+  timeout?: number; // ms, 0 disables the timeout
+  retries?: number; // only honoured for GET requests
+}
+
+type RequestOptions = RequestInit & Omit<ApiCallOptions, 'signal'>;
+
+export interface UploadOptions extends ApiCallOptions {
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface DocumentUploadResponse {
+  message: string;
+  documents_processed: number;
+  status: string;
+  session_id: string;
+}
+
+// Combines the caller's signal with a timeout into a single signal for fetch
+function createRequestSignal(callerSignal: AbortSignal | null | undefined, timeout: number) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let currentTimeout = timeout;
+
+  const forwardAbort = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+  }
+
+  // Start the countdown again, e.g. after each chunk of a stream
+  const restartTimer = (ms: number) => {
+    clearTimeout(timer);
+    currentTimeout = ms;
+    timer = ms > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, ms)
+      : undefined;
+  };
+  restartTimer(timeout);
+
+  return {
+    signal: controller.signal,
+    didTimeOut: () => timedOut,
+    getTimeout: () => currentTimeout,
+    restartTimer,
+    release: () => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+    },
+  };
+}
+
+// Turn a non-2xx response into a typed error. If the stored license key was rejected,
+// clear it so the user is sent back to the gate; a candidate key being validated is left alone.
+async function toApiError(response: Response, sentKey?: string): Promise<ApiError> {
+  const error = await createApiErrorFromResponse(response);
+  if (error instanceof AuthError && error.status === 401 && sentKey && sentKey === licenseService.getKey()) {
+    licenseService.clearKey();
+  }
+  return error;
+}
+
+// Network failures, timeouts, rate limiting and 5xx responses are worth another attempt
+const isRetryableError = (error: unknown): boolean =>
+  error instanceof ApiError && error.retryable;
+
+// How long the server asked us to wait before trying again, in ms
+const getRetryAfter = (error: unknown): number =>
+  error instanceof RateLimitError && error.retryAfter ? error.retryAfter * 1000 : 0;
+
 class ApiService {
+  readonly usingMockBackend = USE_MOCK_BACKEND;
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { timeout = API_CONFIG.DEFAULT_TIMEOUT, retries, ...init } = options;
+    const method = (init.method || 'GET').toUpperCase();
+    // Never retry non-idempotent requests such as POST queries
+    const maxRetries = method === 'GET' ? retries ?? API_CONFIG.GET_RETRIES : 0;
+
+    return retry(
+      () => this.send<T>(endpoint, init, timeout),
+      maxRetries,
+      API_CONFIG.RETRY_DELAY,
+      // A Retry-After longer than we are willing to wait is reported instead of retried
+      (error) => !init.signal?.aborted && isRetryableError(error) && getRetryAfter(error) <= API_CONFIG.MAX_RETRY_AFTER,
+      { signal: init.signal, minDelay: getRetryAfter }
+    );
+  }
+
+  private async send<T>(
+    endpoint: string,
+    options: RequestInit,
+    timeout: number
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`;
     const licenseKey = licenseService.getKey() || '';
@@ -39,86 +167,204 @@ class ApiService {
       headers['Content-Type'] = 'application/json';
     }
     
-    // Always add license key header if available
-    if (licenseKey) {
-      headers['X-License-Key'] = licenseKey;
+    // Always add license key header if available, unless the caller supplies its own
+    if (licenseKey && !headers[licenseService.headerName]) {
+      headers[licenseService.headerName] = licenseKey;
     }
 
+    const requestSignal = createRequestSignal(options.signal, timeout);
     const config: RequestInit = {
       ...options,
       headers,
+      signal: requestSignal.signal,
     };
 
     try {
-      const response = await fetch(url, config);
+      const response = await transportFetch(url, config);
       
       if (!response.ok) {
-        // Handle 401 Unauthorized specifically
-        if (response.status === 401) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.detail || 'Unauthorized: Please check your license key');
-        }
-        
-        // Handle other HTTP errors
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
+        throw await toApiError(response, headers[licenseService.headerName]);
       }
 
       return await response.json();
     } catch (error) {
-      // Handle CORS and network errors
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        const corsError = new Error(
-          'Network error: Unable to connect to the server. This may be a CORS issue. Please check your backend configuration.'
-        );
-        (corsError as any).isCorsError = true;
-        throw corsError;
+      if (isAbortError(error) && requestSignal.didTimeOut()) {
+        throw new TimeoutError(timeout);
+      }
+
+      // fetch rejects with a TypeError on CORS and network failures
+      if (error instanceof TypeError) {
+        throw new NetworkError();
       }
       
-      // Re-throw other errors as-is
+      // Re-throw other errors (including caller aborts) as-is
       throw error;
+    } finally {
+      requestSignal.release();
     }
   }
 
   // Health check
-  async getHealth(): Promise<{ status: string; message: string; timestamp: string }> {
-    return this.request('/health');
+  async getHealth(options: ApiCallOptions = {}): Promise<HealthResponse> {
+    return this.request('/health', options);
   }
 
   // RAG query
-  async processRAGQuery(request: RAGRequest): Promise<RAGResponse> {
+  async processRAGQuery(request: RAGRequest, options: ApiCallOptions = {}): Promise<RAGResponse> {
     return this.request('/api/rag/query', {
       method: 'POST',
       body: JSON.stringify(request),
+      timeout: API_CONFIG.QUERY_TIMEOUT,
+      ...options,
+    });
+  }
+
+  // Streaming RAG query - emits tokens as they arrive and resolves with the full response.
+  // Falls back to the regular query endpoint if the backend has no streaming endpoint,
+  // and to a regular JSON body if the streaming endpoint does not stream.
+  // The timeout covers the wait for the first response; after that the stream may run longer,
+  // but is aborted if no data arrives for STREAM_IDLE_TIMEOUT.
+  async processRAGQueryStream(
+    request: RAGRequest,
+    handlers: RAGStreamHandlers,
+    options: ApiCallOptions = {}
+  ): Promise<RAGResponse> {
+    const timeout = options.timeout ?? API_CONFIG.STREAM_CONNECT_TIMEOUT;
+    const requestSignal = createRequestSignal(options.signal, timeout);
+    try {
+      return await this.readRAGStream(request, handlers, requestSignal);
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 404 || error.status === 405)) {
+        requestSignal.release();
+        const data = await this.processRAGQuery(request, { signal: options.signal });
+        if (data.response) handlers.onToken(data.response);
+        return data;
+      }
+      if (isAbortError(error) && requestSignal.didTimeOut()) {
+        throw new TimeoutError(requestSignal.getTimeout());
+      }
+      if (error instanceof TypeError) {
+        throw new NetworkError();
+      }
+      throw error;
+    } finally {
+      requestSignal.release();
+    }
+  }
+
+  private async readRAGStream(
+    request: RAGRequest,
+    handlers: RAGStreamHandlers,
+    requestSignal: ReturnType<typeof createRequestSignal>
+  ): Promise<RAGResponse> {
+    const url = `${API_BASE_URL}/api/rag/query/stream`;
+    const licenseKey = licenseService.getKey() || '';
+
+    const response = await transportFetch(url, {
+      method: 'POST',
+      body: JSON.stringify(request),
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(licenseKey ? { [licenseService.headerName]: licenseKey } : {}),
+      },
+      signal: requestSignal.signal,
+    });
+    requestSignal.restartTimer(API_CONFIG.STREAM_IDLE_TIMEOUT);
+
+    if (!response.ok) {
+      throw await toApiError(response, licenseKey);
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      const data: RAGResponse = await response.json();
+      if (data.response) handlers.onToken(data.response);
+      return data;
+    }
+
+    const result: RAGResponse = { response: '' };
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const handleEvent = (rawEvent: string) => {
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (!data || data === '[DONE]') return;
+
+      let event: RAGStreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // One bad frame should not cost the whole answer
+        console.warn('Skipping malformed stream event:', data);
+        return;
+      }
+      if (event.type === 'token') {
+        result.response += event.content;
+        handlers.onToken(event.content);
+      } else if (event.type === 'done') {
+        result.context_used = event.context_used;
+        result.documents_retrieved = event.documents_retrieved;
+        result.processing_time = event.processing_time;
+        result.search_type = event.search_type;
+      } else if (event.type === 'error') {
+        throw new ServerError(undefined, event.error);
+      }
+    };
+
+    let chunk = await reader.read();
+    while (!chunk.done) {
+      requestSignal.restartTimer(API_CONFIG.STREAM_IDLE_TIMEOUT);
+
+      buffer += decoder.decode(chunk.value, { stream: true }).replace(/\r\n/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        handleEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      chunk = await reader.read();
+    }
+    if (buffer.trim()) handleEvent(buffer);
+
+    return result;
+  }
+
+  // Validate a license key without storing it; the key is sent in place of the stored one
+  async validateLicense(key: string, options: ApiCallOptions = {}): Promise<LicenseInfo> {
+    return this.request('/api/license/validate', {
+      headers: { [licenseService.headerName]: key },
+      retries: 1,
+      ...options,
     });
   }
 
   // Get all documents
-  async getAllDocuments(): Promise<{
+  async getAllDocuments(options: ApiCallOptions = {}): Promise<{
     total_documents: number;
     unique_files: number;
-    files: Array<{
-      file_name: string;
-      uploaded_at: string;
-      content_type: string;
-      total_chunks: number;
-      sessions: string[];
-    }>;
+    files: DocumentFileInfo[];
     timestamp: string;
   }> {
-    return this.request('/api/documents/all');
+    return this.request('/api/documents/all', options);
   }
 
   // Update search type
   async updateSearchType(searchType: string): Promise<{ message: string; search_type: string; timestamp: string }> {
-    return this.request(`/api/rag/search-type?search_type=${searchType}`, {
+    return this.request(`/api/rag/search-type?search_type=${encodeURIComponent(searchType)}`, {
       method: 'POST',
     });
   }
 
   // Get RAG status
-  async getRAGStatus(): Promise<{ status: string; persist_directory: string; embedding_model: string; llm_model: string; timestamp: string }> {
-    return this.request('/api/rag/status');
+  async getRAGStatus(options: ApiCallOptions = {}): Promise<RAGStatus> {
+    return this.request('/api/rag/status', options);
   }
 
   // Delete session documents
@@ -128,6 +374,17 @@ class ApiService {
     });
   }
 
+  // Get the indexed chunks of a file, one page at a time, optionally filtered by text
+  async getDocumentChunks(
+    fileName: string,
+    { page = 1, pageSize = 20, query = '' }: { page?: number; pageSize?: number; query?: string } = {},
+    options: ApiCallOptions = {}
+  ): Promise<DocumentChunksResponse> {
+    const params = new URLSearchParams({ page: String(page), page_size: String(pageSize) });
+    if (query.trim()) params.set('q', query.trim());
+    return this.request(`/api/documents/file/${encodeURIComponent(fileName)}/chunks?${params}`, options);
+  }
+
   // Delete documents by file name
   async deleteDocumentsByFileName(fileName: string): Promise<{ message: string; deleted_count: number; file_name: string; timestamp: string }> {
     // Encode the file name in case it contains special characters
@@ -137,35 +394,106 @@ class ApiService {
     });
   }
 
-  // Document upload (placeholder for future implementation)
-  async uploadDocument(file: File, sessionId?: string): Promise<{ message: string; documents_processed: number; status: string; session_id: string }> {
+  // Document upload. Uses XMLHttpRequest because fetch cannot report upload progress.
+  async uploadDocument(
+    file: File,
+    sessionId?: string,
+    options: UploadOptions = {}
+  ): Promise<DocumentUploadResponse> {
     const formData = new FormData();
     formData.append('file', file);
     if (sessionId) {
       formData.append('session_id', sessionId);
     }
-    
-    const url = `${API_BASE_URL}/api/documents/upload`;
+
+    const { signal, timeout = API_CONFIG.UPLOAD_TIMEOUT, onProgress } = options;
     const licenseKey = licenseService.getKey() || '';
-    
+
+    if (USE_MOCK_BACKEND) {
+      return this.uploadToMockBackend(formData, licenseKey, options);
+    }
+
     try {
-      const response = await fetch(url, {
+      return await new Promise<DocumentUploadResponse>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new DOMException('Upload cancelled', 'AbortError'));
+          return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', `${API_BASE_URL}/api/documents/upload`);
+        xhr.timeout = timeout;
+        if (licenseKey) {
+          xhr.setRequestHeader(licenseService.headerName, licenseKey);
+        }
+
+        const abort = () => xhr.abort();
+        signal?.addEventListener('abort', abort, { once: true });
+        const settle = (callback: () => void) => {
+          signal?.removeEventListener('abort', abort);
+          callback();
+        };
+
+        if (onProgress) {
+          xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable) onProgress(event.loaded, event.total);
+          };
+        }
+
+        xhr.onload = () => settle(async () => {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            try {
+              resolve(JSON.parse(xhr.responseText));
+            } catch (error) {
+              reject(error);
+            }
+            return;
+          }
+
+          // Reuse the fetch error mapping by wrapping the XHR result in a Response
+          const retryAfter = xhr.getResponseHeader('Retry-After');
+          const response = new Response(xhr.responseText, {
+            status: xhr.status,
+            headers: retryAfter ? { 'Retry-After': retryAfter } : {},
+          });
+          reject(await toApiError(response, licenseKey));
+        });
+        xhr.onerror = () => settle(() => reject(new NetworkError()));
+        xhr.ontimeout = () => settle(() => reject(new TimeoutError(timeout)));
+        xhr.onabort = () => settle(() => reject(new DOMException('Upload cancelled', 'AbortError')));
+
+        xhr.send(formData);
+      });
+    } catch (error) {
+      if (!isAbortError(error)) console.error('Document upload failed:', error);
+      throw error;
+    }
+  }
+
+  // The mock backend has no XHR to report progress through, so it calls onProgress itself
+  private async uploadToMockBackend(
+    formData: FormData,
+    licenseKey: string,
+    { signal, timeout = API_CONFIG.UPLOAD_TIMEOUT, onProgress }: UploadOptions
+  ): Promise<DocumentUploadResponse> {
+    const requestSignal = createRequestSignal(signal, timeout);
+    try {
+      const response = await transportFetch(`${API_BASE_URL}/api/documents/upload`, {
         method: 'POST',
         body: formData,
-        headers: {
-          ...(licenseKey ? { 'X-License-Key': licenseKey } : {}),
-        },
-      });
-      
+        signal: requestSignal.signal,
+      }, onProgress);
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `HTTP error! status: ${response.status}`);
+        throw await toApiError(response, licenseKey);
       }
-
       return await response.json();
     } catch (error) {
-      console.error('Document upload failed:', error);
+      if (isAbortError(error) && requestSignal.didTimeOut()) {
+        throw new TimeoutError(timeout);
+      }
       throw error;
+    } finally {
+      requestSignal.release();
     }
   }
 }
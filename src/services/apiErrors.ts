@@ -0,0 +1,132 @@
+import { t } from '@/services/i18n';
+
+// Typed errors thrown by ApiService so callers can react to the kind of failure
+
+export type ApiErrorKind = 'network' | 'timeout' | 'auth' | 'validation' | 'rate_limit' | 'server';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number, detail?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.detail = detail;
+  }
+
+  // Transient failures that may succeed on another attempt
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'rate_limit' || this.kind === 'server';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to connect to the server. This may be a CORS issue or the backend may be down.') {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super('timeout', `Request timed out after ${Math.round(timeout / 1000)}s`);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(status: number, detail?: string) {
+    super('auth', detail || 'Unauthorized: Please check your license key', status, detail);
+    this.name = 'AuthError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(status: number, detail?: string) {
+    super('validation', detail || `Request rejected (status ${status})`, status, detail);
+    this.name = 'ValidationError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  readonly retryAfter?: number; // seconds
+
+  constructor(detail?: string, retryAfter?: number) {
+    super('rate_limit', detail || 'Too many requests', 429, detail);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(status?: number, detail?: string) {
+    super('server', detail || `Server error${status ? ` (status ${status})` : ''}`, status, detail);
+    this.name = 'ServerError';
+  }
+}
+
+// Older backends do not have every endpoint this app can use
+export const isEndpointUnavailable = (error: unknown): boolean =>
+  error instanceof ApiError && (error.status === 404 || error.status === 405);
+
+const isObject = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+// FastAPI sends `detail` as a string, or as a list of field errors for 422 responses
+function readDetail(body: unknown): string | undefined {
+  if (!isObject(body)) return undefined;
+  const { detail } = body as { detail?: unknown };
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map(item => isObject(item) ? (item as { msg?: unknown }).msg : undefined)
+      .filter((msg): msg is string => typeof msg === 'string' && msg.length > 0);
+    return messages.length > 0 ? messages.join('; ') : undefined;
+  }
+  return undefined;
+}
+
+export async function createApiErrorFromResponse(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  const detail = readDetail(body);
+  const { status } = response;
+
+  if (status === 401 || status === 403) return new AuthError(status, detail);
+  if (status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return new RateLimitError(detail, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+  }
+  if (status >= 500) return new ServerError(status, detail);
+  return new ValidationError(status, detail);
+}
+
+// A message suitable for toasts and chat bubbles, worded for the kind of failure
+export function getApiErrorMessage(error: unknown, fallback = t('common.unknownError')): string {
+  if (!(error instanceof ApiError)) {
+    return error instanceof Error && error.message ? error.message : fallback;
+  }
+
+  switch (error.kind) {
+    case 'network':
+      return t('apiErrors.network');
+    case 'timeout':
+      return t('apiErrors.timeout');
+    case 'auth':
+      return error.status === 401
+        ? t('apiErrors.authRejected')
+        : error.detail ? t('apiErrors.forbiddenDetail', { detail: error.detail }) : t('apiErrors.forbidden');
+    case 'validation':
+      return t('apiErrors.validation', { message: error.message });
+    case 'rate_limit':
+      return error instanceof RateLimitError && error.retryAfter
+        ? t('apiErrors.rateLimitRetryAfter', { seconds: error.retryAfter })
+        : t('apiErrors.rateLimit');
+    case 'server':
+      return error.detail ? t('apiErrors.serverDetail', { detail: error.detail }) : t('apiErrors.server');
+  }
+}
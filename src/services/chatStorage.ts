@@ -1,40 +1,142 @@
-import { ChatSession, ChatMessage } from '@/types';
+import { ChatSession, ChatMessage, DocumentCollection } from '@/types';
 import { format } from 'date-fns';
+import { openDatabase, promisifyRequest, transactionComplete, isQuotaError, STORES } from './database';
+import { collectionsService } from './collections';
+import { normalizeMessageTree, downloadFile, omit, ROOT_BRANCH_KEY } from '@/utils';
+import { t } from './i18n';
+
+// Bump when the exported ChatSession shape changes, and add a migration below
+export const SESSION_EXPORT_VERSION = 2;
+
+export interface SessionExportFile {
+  version: number;
+  exported_at: string;
+  sessions: ChatSession[];
+  collections?: DocumentCollection[]; // absent in files exported before collections existed
+}
+
+export interface ImportFileContents {
+  sessions: ChatSession[];
+  collections: DocumentCollection[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+export type ConflictResolution = 'keep' | 'replace' | 'duplicate';
+
+export interface ImportConflict {
+  existing: ChatSession;
+  incoming: ChatSession;
+}
+
+export interface ImportPreview {
+  incoming: ChatSession[];
+  newSessions: ChatSession[];
+  unchanged: ChatSession[];
+  conflicts: ImportConflict[];
+  existingCount: number;
+  collections: DocumentCollection[];
+}
+
+// Sessions and messages as read from JSON (legacy storage, import files), before dates are revived
+type SerializedMessage = Omit<ChatMessage, 'timestamp'> & { timestamp: string | Date };
+type SerializedSession = Omit<ChatSession, 'createdAt' | 'updatedAt' | 'messages'> & {
+  createdAt: string | Date;
+  updatedAt: string | Date;
+  messages: SerializedMessage[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isValidDate = (value: unknown): boolean =>
+  (typeof value === 'string' || typeof value === 'number' || value instanceof Date) &&
+  !isNaN(new Date(value).getTime());
+
+function isValidMessage(message: unknown): message is SerializedMessage {
+  return (
+    isRecord(message) &&
+    typeof message.id === 'string' &&
+    (message.role === 'user' || message.role === 'assistant') &&
+    typeof message.content === 'string' &&
+    (message.parentId === undefined || message.parentId === null || typeof message.parentId === 'string') &&
+    isValidDate(message.timestamp)
+  );
+}
+
+// SESSION_MIGRATIONS[n] upgrades raw sessions from export format n to n + 1.
+// Input is untrusted, so the result is validated after the last migration.
+const SESSION_MIGRATIONS: Record<number, (sessions: unknown[]) => unknown[]> = {
+  // v1: bare array, linear messages -> v2: message tree and per-session document scope
+  1: (sessions) => sessions.map((session) => {
+    if (!isRecord(session)) return session;
+    const { settings, messages } = session;
+    return {
+      ...session,
+      settings: isRecord(settings) ? { selected_documents: [], ...settings } : settings,
+      // Malformed messages are left for validation to reject
+      messages: Array.isArray(messages) && messages.every(isValidMessage)
+        ? normalizeMessageTree(messages)
+        : messages,
+    };
+  }),
+};
+
+// Records as persisted in IndexedDB: sessions and messages live in separate stores
+type SessionRecord = Omit<ChatSession, 'messages'>;
+type MessageRecord = ChatMessage & { sessionId: string };
 
 class ChatStorageService {
-  private readonly STORAGE_KEY = 'rag_chat_sessions';
-  private readonly MAX_SESSIONS = 50;
+  // Legacy localStorage key, migrated into IndexedDB on first use
+  private readonly LEGACY_STORAGE_KEY = 'rag_chat_sessions';
 
-  // Get all chat sessions
-  getSessions(): ChatSession[] {
-    try {
-      const stored = localStorage.getItem(this.STORAGE_KEY);
-      if (!stored) return [];
-      
-      const sessions = JSON.parse(stored);
-      return sessions.map((session: any) => ({
-        ...session,
-        createdAt: new Date(session.createdAt),
-        updatedAt: new Date(session.updatedAt),
-        messages: session.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp),
-        })),
-      }));
-    } catch (error) {
-      console.error('Error loading chat sessions:', error);
-      return [];
+  private migration: Promise<void> | null = null;
+
+  // Get all chat sessions, most recently created first
+  async getSessions(): Promise<ChatSession[]> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([STORES.SESSIONS, STORES.MESSAGES], 'readonly');
+
+    const [sessionRecords, messageRecords] = await Promise.all([
+      promisifyRequest<SessionRecord[]>(transaction.objectStore(STORES.SESSIONS).getAll()),
+      promisifyRequest<MessageRecord[]>(transaction.objectStore(STORES.MESSAGES).getAll()),
+    ]);
+
+    const messagesBySession = new Map<string, ChatMessage[]>();
+    for (const record of messageRecords) {
+      const messages = messagesBySession.get(record.sessionId) || [];
+      messages.push(this.toMessage(record));
+      messagesBySession.set(record.sessionId, messages);
     }
+
+    return sessionRecords
+      .map(record => ({
+        ...record,
+        messages: this.sortMessages(messagesBySession.get(record.id) || []),
+      }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
   // Get a specific session by ID
-  getSession(sessionId: string): ChatSession | null {
-    const sessions = this.getSessions();
-    return sessions.find(session => session.id === sessionId) || null;
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([STORES.SESSIONS, STORES.MESSAGES], 'readonly');
+
+    const record = await promisifyRequest<SessionRecord | undefined>(
+      transaction.objectStore(STORES.SESSIONS).get(sessionId)
+    );
+    if (!record) return null;
+
+    const messages = await promisifyRequest<MessageRecord[]>(
+      transaction.objectStore(STORES.MESSAGES).index('sessionId').getAll(sessionId)
+    );
+
+    return {
+      ...record,
+      messages: this.sortMessages(messages.map(message => this.toMessage(message))),
+    };
   }
 
   // Create a new chat session
-  createSession(name: string, settings: ChatSession['settings']): ChatSession {
+  async createSession(name: string, settings: ChatSession['settings']): Promise<ChatSession> {
     const newSession: ChatSession = {
       id: this.generateId(),
       name,
@@ -44,159 +146,428 @@ class ChatStorageService {
       settings,
     };
 
-    const sessions = this.getSessions();
-    sessions.unshift(newSession);
-    
-    // Limit the number of sessions
-    if (sessions.length > this.MAX_SESSIONS) {
-      sessions.splice(this.MAX_SESSIONS);
-    }
-    
-    this.saveSessions(sessions);
+    await this.write([STORES.SESSIONS], (transaction) => {
+      transaction.objectStore(STORES.SESSIONS).add(this.toSessionRecord(newSession));
+    });
+
     return newSession;
   }
 
   // Update session name
-  updateSessionName(sessionId: string, name: string): boolean {
-    const sessions = this.getSessions();
-    const sessionIndex = sessions.findIndex(s => s.id === sessionId);
-    
-    if (sessionIndex === -1) return false;
-    
-    sessions[sessionIndex].name = name;
-    sessions[sessionIndex].updatedAt = new Date();
-    this.saveSessions(sessions);
-    return true;
-  }
-
-  // Add a message to a session
-  addMessage(sessionId: string, message: Omit<ChatMessage, 'id' | 'timestamp'>): ChatMessage | null {
-    const sessions = this.getSessions();
-    const sessionIndex = sessions.findIndex(s => s.id === sessionId);
-    
-    if (sessionIndex === -1) return null;
-    
+  async updateSessionName(sessionId: string, name: string): Promise<boolean> {
+    return this.updateSessionRecord(sessionId, (record) => {
+      record.name = name;
+    });
+  }
+
+  // Add a message to a session; it becomes the selected branch under its parent
+  async addMessage(sessionId: string, message: Omit<ChatMessage, 'id' | 'timestamp'>): Promise<ChatMessage | null> {
     const newMessage: ChatMessage = {
       ...message,
       id: this.generateId(),
       timestamp: new Date(),
     };
-    
-    sessions[sessionIndex].messages.push(newMessage);
-    sessions[sessionIndex].updatedAt = new Date();
-    this.saveSessions(sessions);
-    
-    return newMessage;
+
+    let found = false;
+    await this.write([STORES.SESSIONS, STORES.MESSAGES], async (transaction) => {
+      const sessions = transaction.objectStore(STORES.SESSIONS);
+      const record = await promisifyRequest<SessionRecord | undefined>(sessions.get(sessionId));
+      if (!record) return;
+
+      found = true;
+      record.updatedAt = newMessage.timestamp;
+      record.activeBranches = {
+        ...record.activeBranches,
+        [newMessage.parentId ?? ROOT_BRANCH_KEY]: newMessage.id,
+      };
+      sessions.put(record);
+      transaction.objectStore(STORES.MESSAGES).add({ ...newMessage, sessionId });
+    });
+
+    return found ? newMessage : null;
   }
 
   // Update session settings
-  updateSessionSettings(sessionId: string, settings: Partial<ChatSession['settings']>): boolean {
-    const sessions = this.getSessions();
-    const sessionIndex = sessions.findIndex(s => s.id === sessionId);
-    
-    if (sessionIndex === -1) return false;
-    
-    sessions[sessionIndex].settings = {
-      ...sessions[sessionIndex].settings,
-      ...settings,
-    };
-    sessions[sessionIndex].updatedAt = new Date();
-    this.saveSessions(sessions);
-    return true;
+  async updateSessionSettings(sessionId: string, settings: Partial<ChatSession['settings']>): Promise<boolean> {
+    return this.updateSessionRecord(sessionId, (record) => {
+      record.settings = {
+        ...record.settings,
+        ...settings,
+      };
+    });
   }
 
-  // Delete a session
-  deleteSession(sessionId: string): boolean {
-    const sessions = this.getSessions();
-    const filteredSessions = sessions.filter(s => s.id !== sessionId);
-    
-    if (filteredSessions.length === sessions.length) return false;
-    
-    this.saveSessions(filteredSessions);
-    return true;
+  // Select which child is shown at one or more forks of the conversation tree
+  async updateActiveBranches(sessionId: string, branches: Record<string, string>): Promise<boolean> {
+    return this.updateSessionRecord(sessionId, (record) => {
+      record.activeBranches = {
+        ...record.activeBranches,
+        ...branches,
+      };
+    }, { touch: false });
+  }
+
+  // Delete a session together with its messages
+  async deleteSession(sessionId: string): Promise<boolean> {
+    let found = false;
+    await this.write([STORES.SESSIONS, STORES.MESSAGES], async (transaction) => {
+      const sessions = transaction.objectStore(STORES.SESSIONS);
+      const record = await promisifyRequest<SessionRecord | undefined>(sessions.get(sessionId));
+      if (!record) return;
+
+      found = true;
+      sessions.delete(sessionId);
+      await this.deleteMessagesOf(transaction, sessionId);
+    });
+
+    return found;
   }
 
   // Clear all sessions
-  clearAllSessions(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
-  }
-
-  // Export sessions to JSON file
-  exportSessions(): void {
-    const sessions = this.getSessions();
-    const dataStr = JSON.stringify(sessions, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(dataBlob);
-    link.download = `rag-chat-sessions-${format(new Date(), 'yyyy-MM-dd-HH-mm')}.json`;
-    link.click();
-    URL.revokeObjectURL(link.href);
-  }
-
-  // Import sessions from JSON file
-  importSessions(file: File): Promise<boolean> {
-    return new Promise((resolve) => {
+  async clearAllSessions(): Promise<void> {
+    await this.write([STORES.SESSIONS, STORES.MESSAGES], (transaction) => {
+      transaction.objectStore(STORES.SESSIONS).clear();
+      transaction.objectStore(STORES.MESSAGES).clear();
+    });
+  }
+
+  // Export sessions to a versioned JSON file
+  async exportSessions(): Promise<void> {
+    const [sessions, collections] = await Promise.all([
+      this.getSessions(),
+      collectionsService.getCollections(),
+    ]);
+    const data: SessionExportFile = {
+      version: SESSION_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      sessions,
+      collections,
+    };
+    const dataStr = JSON.stringify(data, null, 2);
+    downloadFile(dataStr, `rag-chat-sessions-${format(new Date(), 'yyyy-MM-dd-HH-mm')}.json`, 'application/json');
+  }
+
+  // Read an export file, migrating older formats to the current schema
+  readImportFile(file: File): Promise<ImportFileContents> {
+    return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      
+
       reader.onload = (e) => {
         try {
           const content = e.target?.result as string;
-          const sessions = JSON.parse(content);
-          
-          // Validate the imported data
-          if (Array.isArray(sessions) && sessions.every(this.isValidSession)) {
-            this.saveSessions(sessions);
-            resolve(true);
-          } else {
-            resolve(false);
-          }
+          resolve(this.migrateImport(JSON.parse(content)));
         } catch (error) {
           console.error('Error importing sessions:', error);
-          resolve(false);
+          reject(error instanceof SyntaxError ? new Error(t('storage.invalidFile')) : error);
         }
       };
-      
+      reader.onerror = () => reject(reader.error);
+
       reader.readAsText(file);
     });
   }
 
+  // Work out what an import would change, without writing anything
+  async previewImport({ sessions: incoming, collections }: ImportFileContents): Promise<ImportPreview> {
+    const existing = await this.getSessions();
+    const existingById = new Map(existing.map(session => [session.id, session]));
+
+    const preview: ImportPreview = {
+      incoming,
+      newSessions: [],
+      unchanged: [],
+      conflicts: [],
+      existingCount: existing.length,
+      collections,
+    };
+
+    for (const session of incoming) {
+      const current = existingById.get(session.id);
+      if (!current) {
+        preview.newSessions.push(session);
+      } else if (this.fingerprint(current) === this.fingerprint(session)) {
+        preview.unchanged.push(session);
+      } else {
+        preview.conflicts.push({ existing: current, incoming: session });
+      }
+    }
+
+    return preview;
+  }
+
+  // Apply a previewed import. Merge keeps local sessions; replace swaps out the whole history.
+  async applyImport(
+    preview: ImportPreview,
+    mode: ImportMode,
+    resolutions: Record<string, ConflictResolution> = {}
+  ): Promise<void> {
+    // Files without collections leave the local ones alone, even in replace mode
+    if (preview.collections.length > 0) {
+      await collectionsService.importCollections(preview.collections, mode);
+    }
+
+    if (mode === 'replace') {
+      await this.replaceAllSessions(preview.incoming);
+      return;
+    }
+
+    await this.write([STORES.SESSIONS, STORES.MESSAGES], async (transaction) => {
+      for (const session of preview.newSessions) {
+        this.putSession(transaction, session);
+      }
+
+      for (const { incoming } of preview.conflicts) {
+        const resolution = resolutions[incoming.id] || 'keep';
+        if (resolution === 'replace') {
+          await this.deleteMessagesOf(transaction, incoming.id);
+          this.putSession(transaction, incoming);
+        } else if (resolution === 'duplicate') {
+          this.putSession(transaction, this.cloneSession(incoming, `${incoming.name} (imported)`));
+        }
+      }
+    });
+  }
+
   // Private methods
-  private saveSessions(sessions: ChatSession[]): void {
+  private async getDatabase(): Promise<IDBDatabase> {
+    const db = await openDatabase();
+    if (!this.migration) {
+      this.migration = this.migrateFromLocalStorage(db).catch((error) => {
+        // Leave the legacy data in place so the migration is retried on next load
+        console.error('Error migrating chat sessions from localStorage:', error);
+        this.migration = null;
+      });
+    }
+    await this.migration;
+    return db;
+  }
+
+  // One-time move of the legacy localStorage array into IndexedDB
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const stored = localStorage.getItem(this.LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    const legacySessions = JSON.parse(stored);
+    const validSessions = Array.isArray(legacySessions)
+      ? legacySessions.filter(this.isValidSession).map(session => this.reviveSession(session))
+      : [];
+
+    const transaction = db.transaction([STORES.SESSIONS, STORES.MESSAGES], 'readwrite');
+    for (const session of validSessions) {
+      this.putSession(transaction, session);
+    }
+    await transactionComplete(transaction);
+
+    localStorage.removeItem(this.LEGACY_STORAGE_KEY);
+  }
+
+  private async replaceAllSessions(sessions: ChatSession[]): Promise<void> {
+    await this.write([STORES.SESSIONS, STORES.MESSAGES], (transaction) => {
+      transaction.objectStore(STORES.SESSIONS).clear();
+      transaction.objectStore(STORES.MESSAGES).clear();
+      for (const session of sessions) {
+        this.putSession(transaction, session);
+      }
+    });
+  }
+
+  private putSession(transaction: IDBTransaction, session: ChatSession): void {
+    transaction.objectStore(STORES.SESSIONS).put(this.toSessionRecord(session));
+    const messages = transaction.objectStore(STORES.MESSAGES);
+    for (const message of session.messages) {
+      messages.put({ ...message, sessionId: session.id });
+    }
+  }
+
+  private async deleteMessagesOf(transaction: IDBTransaction, sessionId: string): Promise<void> {
+    const messages = transaction.objectStore(STORES.MESSAGES);
+    const messageKeys = await promisifyRequest(messages.index('sessionId').getAllKeys(sessionId));
+    for (const key of messageKeys) {
+      messages.delete(key);
+    }
+  }
+
+  // Copy of a session under fresh ids, so it can be stored next to the original
+  private cloneSession(session: ChatSession, name: string): ChatSession {
+    const idMap = new Map(session.messages.map(message => [message.id, this.generateId()]));
+    const remap = (id: string) => idMap.get(id) || id;
+
+    return {
+      ...session,
+      id: this.generateId(),
+      name,
+      messages: session.messages.map(message => ({
+        ...message,
+        id: remap(message.id),
+        parentId: message.parentId ? remap(message.parentId) : message.parentId,
+      })),
+      activeBranches: session.activeBranches && Object.fromEntries(
+        Object.entries(session.activeBranches).map(([parent, child]) => [
+          parent === ROOT_BRANCH_KEY ? parent : remap(parent),
+          remap(child),
+        ])
+      ),
+    };
+  }
+
+  // Parse the envelope, run schema migrations in order and validate the result
+  private migrateImport(data: unknown): ImportFileContents {
+    // Files exported before versioning were a bare array of sessions
+    const isLegacy = Array.isArray(data);
+    const envelope = (isLegacy || typeof data !== 'object' || data === null ? {} : data) as {
+      version?: unknown;
+      sessions?: unknown;
+      collections?: unknown;
+    };
+
+    const version = isLegacy ? 1 : envelope.version;
+    if (typeof version !== 'number' || version < 1) {
+      throw new Error(t('storage.invalidFile'));
+    }
+    if (version > SESSION_EXPORT_VERSION) {
+      throw new Error(t('storage.newerVersion', { version }));
+    }
+
+    const rawSessions = isLegacy ? data : envelope.sessions;
+    if (!Array.isArray(rawSessions)) {
+      throw new Error(t('storage.invalidFile'));
+    }
+
+    let sessions: unknown[] = rawSessions;
+    for (let v = version; v < SESSION_EXPORT_VERSION; v++) {
+      sessions = SESSION_MIGRATIONS[v](sessions);
+    }
+
+    if (!sessions.every(this.isValidSession)) {
+      throw new Error(t('storage.invalidFile'));
+    }
+
+    const collections = isLegacy ? [] : envelope.collections ?? [];
+    if (!Array.isArray(collections) || !collections.every(collectionsService.isValidCollection)) {
+      throw new Error(t('storage.invalidFile'));
+    }
+
+    return {
+      sessions: sessions.map(session => this.reviveSession(session)),
+      collections: collections.map(collection => collectionsService.reviveCollection(collection)),
+    };
+  }
+
+  // Stable representation of the parts of a session an import can change
+  private fingerprint(session: ChatSession): string {
+    const settings = Object.fromEntries(
+      Object.entries(session.settings).sort(([a], [b]) => a.localeCompare(b))
+    );
+    const activeBranches = Object.fromEntries(
+      Object.entries(session.activeBranches || {}).sort(([a], [b]) => a.localeCompare(b))
+    );
+    return JSON.stringify({
+      name: session.name,
+      settings,
+      activeBranches,
+      messages: session.messages.map(m => [m.id, m.parentId ?? null, m.role, m.content]),
+    });
+  }
+
+  private async updateSessionRecord(
+    sessionId: string,
+    update: (record: SessionRecord) => void,
+    { touch = true }: { touch?: boolean } = {}
+  ): Promise<boolean> {
+    let found = false;
+    await this.write([STORES.SESSIONS], async (transaction) => {
+      const sessions = transaction.objectStore(STORES.SESSIONS);
+      const record = await promisifyRequest<SessionRecord | undefined>(sessions.get(sessionId));
+      if (!record) return;
+
+      found = true;
+      update(record);
+      if (touch) record.updatedAt = new Date();
+      sessions.put(record);
+    });
+    return found;
+  }
+
+  // Run a read-write transaction and turn quota failures into a readable error
+  private async write(
+    storeNames: string[],
+    run: (transaction: IDBTransaction) => void | Promise<void>
+  ): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(storeNames, 'readwrite');
+    const completed = transactionComplete(transaction);
+    // If `run` throws, the transaction aborts while nobody awaits `completed`
+    completed.catch(() => undefined);
+
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(sessions));
+      await run(transaction);
+      await completed;
     } catch (error) {
       console.error('Error saving chat sessions:', error);
+      if (isQuotaError(error)) {
+        throw new Error(t('storage.full'));
+      }
+      throw error;
     }
   }
 
+  private toSessionRecord(session: ChatSession): SessionRecord {
+    return omit(session, ['messages']);
+  }
+
+  private toMessage(record: MessageRecord): ChatMessage {
+    return omit(record, ['sessionId']);
+  }
+
+  private sortMessages(messages: ChatMessage[]): ChatMessage[] {
+    return normalizeMessageTree(messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+  }
+
+  // JSON sources (legacy storage, import files) carry dates as strings
+  private reviveSession(session: SerializedSession): ChatSession {
+    return {
+      ...session,
+      createdAt: new Date(session.createdAt),
+      updatedAt: new Date(session.updatedAt),
+      messages: normalizeMessageTree(session.messages.map(message => ({
+        ...message,
+        timestamp: new Date(message.timestamp),
+      }))),
+    };
+  }
+
   private generateId(): string {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
-  private isValidSession(session: any): session is ChatSession {
+  private isValidSession(session: unknown): session is SerializedSession {
+    if (!isRecord(session) || !isRecord(session.settings)) return false;
+    const { settings } = session;
     return (
-      session &&
       typeof session.id === 'string' &&
       typeof session.name === 'string' &&
+      isValidDate(session.createdAt) &&
+      isValidDate(session.updatedAt) &&
       Array.isArray(session.messages) &&
-      session.settings &&
-      typeof session.settings.model === 'string' &&
-      typeof session.settings.temperature === 'number' &&
-      ['hybrid', 'semantic', 'keyword'].includes(session.settings.search_type)
+      session.messages.every(isValidMessage) &&
+      typeof settings.model === 'string' &&
+      typeof settings.temperature === 'number' &&
+      (settings.search_type === undefined ||
+        ['hybrid', 'semantic', 'keyword'].includes(settings.search_type as string)) &&
+      (settings.selected_documents === undefined ||
+        (Array.isArray(settings.selected_documents) &&
+          settings.selected_documents.every((name: unknown) => typeof name === 'string')))
     );
   }
 
   // Get session statistics
-  getSessionStats(): {
+  getSessionStats(sessions: ChatSession[]): {
     totalSessions: number;
     totalMessages: number;
     averageMessagesPerSession: number;
     oldestSession: Date | null;
     newestSession: Date | null;
   } {
-    const sessions = this.getSessions();
-    
     if (sessions.length === 0) {
       return {
         totalSessions: 0,
@@ -0,0 +1,157 @@
+import { DocumentCollection } from '@/types';
+import { openDatabase, promisifyRequest, transactionComplete, isQuotaError, STORES } from './database';
+import { generateId } from '@/utils';
+import { t } from './i18n';
+
+// A collection as read from an import file, before its dates are revived
+export type SerializedCollection = Omit<DocumentCollection, 'createdAt' | 'updatedAt'> & {
+  createdAt: string | Date;
+  updatedAt: string | Date;
+};
+
+// Named groups of knowledge base files, stored in IndexedDB next to the chat history.
+// Every change fires a `collections:updated` window event so open views can reload.
+class CollectionsService {
+  async getCollections(): Promise<DocumentCollection[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.COLLECTIONS], 'readonly');
+    const collections = await promisifyRequest<DocumentCollection[]>(
+      transaction.objectStore(STORES.COLLECTIONS).getAll()
+    );
+    return collections.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createCollection(name: string, fileNames: string[] = []): Promise<DocumentCollection> {
+    const collection: DocumentCollection = {
+      id: generateId(),
+      name,
+      fileNames: Array.from(new Set(fileNames)),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await this.write((store) => {
+      store.add(collection);
+    });
+    return collection;
+  }
+
+  async renameCollection(id: string, name: string): Promise<boolean> {
+    return this.updateCollection(id, (collection) => {
+      collection.name = name;
+    });
+  }
+
+  async addFiles(id: string, fileNames: string[]): Promise<boolean> {
+    return this.updateCollection(id, (collection) => {
+      collection.fileNames = Array.from(new Set([...collection.fileNames, ...fileNames]));
+    });
+  }
+
+  async removeFiles(id: string, fileNames: string[]): Promise<boolean> {
+    return this.updateCollection(id, (collection) => {
+      collection.fileNames = collection.fileNames.filter(name => !fileNames.includes(name));
+    });
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await this.write((store) => {
+      store.delete(id);
+    });
+  }
+
+  // Drop deleted files from every collection; returns how many collections changed
+  async removeFilesFromAll(fileNames: string[]): Promise<number> {
+    let changed = 0;
+    await this.write(async (store) => {
+      const collections = await promisifyRequest<DocumentCollection[]>(store.getAll());
+      for (const collection of collections) {
+        const remaining = collection.fileNames.filter(name => !fileNames.includes(name));
+        if (remaining.length === collection.fileNames.length) continue;
+
+        changed++;
+        store.put({ ...collection, fileNames: remaining, updatedAt: new Date() });
+      }
+    });
+    return changed;
+  }
+
+  // Used by session import. Merge keeps the most recently updated copy of each collection.
+  async importCollections(incoming: DocumentCollection[], mode: 'merge' | 'replace'): Promise<void> {
+    await this.write(async (store) => {
+      if (mode === 'replace') {
+        store.clear();
+      }
+
+      const existing = mode === 'merge'
+        ? new Map((await promisifyRequest<DocumentCollection[]>(store.getAll())).map(c => [c.id, c]))
+        : new Map<string, DocumentCollection>();
+
+      for (const collection of incoming) {
+        const current = existing.get(collection.id);
+        if (!current || current.updatedAt.getTime() < collection.updatedAt.getTime()) {
+          store.put(collection);
+        }
+      }
+    });
+  }
+
+  // JSON import files carry dates as strings
+  reviveCollection(collection: SerializedCollection): DocumentCollection {
+    return {
+      id: collection.id,
+      name: collection.name,
+      fileNames: collection.fileNames,
+      createdAt: new Date(collection.createdAt),
+      updatedAt: new Date(collection.updatedAt),
+    };
+  }
+
+  isValidCollection(value: unknown): value is SerializedCollection {
+    if (typeof value !== 'object' || value === null) return false;
+    const collection = value as Partial<Record<keyof DocumentCollection, unknown>>;
+    return (
+      typeof collection.id === 'string' &&
+      typeof collection.name === 'string' &&
+      Array.isArray(collection.fileNames) &&
+      collection.fileNames.every((name: unknown) => typeof name === 'string')
+    );
+  }
+
+  private async updateCollection(id: string, update: (collection: DocumentCollection) => void): Promise<boolean> {
+    let found = false;
+    await this.write(async (store) => {
+      const collection = await promisifyRequest<DocumentCollection | undefined>(store.get(id));
+      if (!collection) return;
+
+      found = true;
+      update(collection);
+      collection.updatedAt = new Date();
+      store.put(collection);
+    });
+    return found;
+  }
+
+  private async write(run: (store: IDBObjectStore) => void | Promise<void>): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.COLLECTIONS], 'readwrite');
+    const completed = transactionComplete(transaction);
+    // If `run` throws, the transaction aborts while nobody awaits `completed`
+    completed.catch(() => undefined);
+
+    try {
+      await run(transaction.objectStore(STORES.COLLECTIONS));
+      await completed;
+    } catch (error) {
+      console.error('Error saving document collections:', error);
+      if (isQuotaError(error)) {
+        throw new Error(t('storage.full'));
+      }
+      throw error;
+    }
+
+    window.dispatchEvent(new CustomEvent('collections:updated'));
+  }
+}
+
+export const collectionsService = new CollectionsService();
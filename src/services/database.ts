@@ -0,0 +1,85 @@
+import { t } from './i18n';
+
+// Thin promise wrappers around the IndexedDB API used by the storage services
+
+const DB_NAME = 'rag_assistant';
+const DB_VERSION = 2;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  MESSAGES: 'messages',
+  COLLECTIONS: 'collections',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and upgrade if needed) the shared database. The connection is reused across calls.
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(t('storage.unavailable')));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+        db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.MESSAGES)) {
+        const messages = db.createObjectStore(STORES.MESSAGES, { keyPath: 'id' });
+        messages.createIndex('sessionId', 'sessionId', { unique: false });
+      }
+
+      // v2: named document collections
+      if (!db.objectStoreNames.contains(STORES.COLLECTIONS)) {
+        db.createObjectStore(STORES.COLLECTIONS, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(t('storage.upgradeBlocked')));
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves once the transaction commits; quota errors surface here as an abort
+export function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
@@ -0,0 +1,101 @@
+export type UploadConflictKind = 'duplicate' | 'changed' | 'name_taken';
+
+export type UploadConflictResolution = 'skip' | 'replace' | 'keep_both';
+
+export interface UploadCheck {
+  file: File;
+  hash: string | null; // null when the browser cannot hash (no SubtleCrypto outside secure contexts)
+  conflict?: UploadConflictKind;
+  existingName?: string; // knowledge base file (or earlier file in the same drop) it conflicts with
+  inBatch?: boolean; // duplicate of another file in the same drop, so there is nothing to replace
+}
+
+const HASHES_STORAGE_KEY = 'document_hashes';
+
+// Remembers the SHA-256 of every file uploaded from this browser, keyed by file name,
+// so re-uploads of the same content can be caught before they duplicate chunks.
+// The backend does not store hashes, so files uploaded elsewhere are matched by name only.
+class DocumentHashService {
+  // Null when the file cannot be hashed, so callers fall back to matching by name
+  async hashFile(file: File): Promise<string | null> {
+    if (!window.crypto?.subtle) return null;
+
+    try {
+      const digest = await window.crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+      return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+    } catch (error) {
+      console.error(`Failed to hash ${file.name}:`, error);
+      return null;
+    }
+  }
+
+  // Hash the files and compare them with the knowledge base and with each other
+  async checkFiles(files: File[], existingFileNames: string[]): Promise<UploadCheck[]> {
+    const existing = new Set(existingFileNames);
+    const hashes = this.getHashes();
+    // Hashes of deleted files are ignored rather than pruned, since the list may be stale
+    const namesByHash = new Map(
+      Object.entries(hashes)
+        .filter(([fileName]) => existing.has(fileName))
+        .map(([fileName, hash]) => [hash, fileName])
+    );
+    const batchNamesByHash = new Map<string, string>();
+    const checks: UploadCheck[] = [];
+
+    for (const file of files) {
+      const hash = await this.hashFile(file);
+      const check: UploadCheck = { file, hash };
+
+      if (hash && batchNamesByHash.has(hash)) {
+        check.conflict = 'duplicate';
+        check.existingName = batchNamesByHash.get(hash);
+        check.inBatch = true;
+      } else if (hash && namesByHash.has(hash)) {
+        check.conflict = 'duplicate';
+        check.existingName = namesByHash.get(hash);
+      } else if (existing.has(file.name)) {
+        check.conflict = hash && hashes[file.name] ? 'changed' : 'name_taken';
+        check.existingName = file.name;
+      }
+
+      if (hash && !batchNamesByHash.has(hash)) {
+        batchNamesByHash.set(hash, file.name);
+      }
+      checks.push(check);
+    }
+
+    return checks;
+  }
+
+  getHashes(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(HASHES_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to read document hashes', error);
+      return {};
+    }
+  }
+
+  record(fileName: string, hash: string): void {
+    this.save({ ...this.getHashes(), [fileName]: hash });
+  }
+
+  forget(fileNames: string[]): void {
+    const hashes = this.getHashes();
+    fileNames.forEach(fileName => delete hashes[fileName]);
+    this.save(hashes);
+  }
+
+  private save(hashes: Record<string, string>): void {
+    try {
+      localStorage.setItem(HASHES_STORAGE_KEY, JSON.stringify(hashes));
+    } catch (error) {
+      console.error('Failed to save document hashes', error);
+    }
+  }
+}
+
+export const documentHashService = new DocumentHashService();
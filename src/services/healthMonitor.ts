@@ -0,0 +1,144 @@
+import { apiService } from './api';
+import { getApiErrorMessage } from './apiErrors';
+import { t } from './i18n';
+import { HealthResponse } from '@/types';
+import { HEALTH_MONITOR } from '@/constants';
+
+export type ConnectionStatus = 'checking' | 'online' | 'offline';
+
+export interface HealthSnapshot {
+  status: ConnectionStatus;
+  lastResponse: HealthResponse | null;
+  lastCheckedAt: Date | null;
+  lastHealthyAt: Date | null;
+  consecutiveFailures: number;
+  nextCheckAt: Date | null;
+  error?: string;
+}
+
+type HealthListener = (snapshot: HealthSnapshot) => void;
+
+// Polls the backend health endpoint while anything is subscribed. Checks run every
+// HEALTH_MONITOR.INTERVAL while connected and back off exponentially while the backend
+// is unreachable (free-tier hosts can take a minute to wake from a cold start).
+class HealthMonitorService {
+  private snapshot: HealthSnapshot = {
+    status: 'checking',
+    lastResponse: null,
+    lastCheckedAt: null,
+    lastHealthyAt: null,
+    consecutiveFailures: 0,
+    nextCheckAt: null,
+  };
+  private listeners = new Set<HealthListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private controller: AbortController | null = null;
+
+  subscribe(listener: HealthListener): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot);
+    if (this.listeners.size === 1) this.start();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  getSnapshot(): HealthSnapshot {
+    return this.snapshot;
+  }
+
+  // Check immediately, e.g. from a "Retry now" button; resets the polling schedule
+  async checkNow(): Promise<void> {
+    this.clearTimer();
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+
+    this.update(this.snapshot.status === 'offline'
+      ? { status: 'checking', nextCheckAt: null }
+      : { nextCheckAt: null });
+
+    try {
+      const response = await apiService.getHealth({
+        signal: controller.signal,
+        timeout: HEALTH_MONITOR.TIMEOUT,
+        retries: 0, // the monitor has its own backoff
+      });
+      const now = new Date();
+      this.update({
+        status: 'online',
+        lastResponse: response,
+        lastCheckedAt: now,
+        lastHealthyAt: now,
+        consecutiveFailures: 0,
+        error: undefined,
+      });
+    } catch (error) {
+      // Superseded by another check or stopped
+      if (controller.signal.aborted) return;
+      this.update({
+        status: 'offline',
+        lastCheckedAt: new Date(),
+        consecutiveFailures: this.snapshot.consecutiveFailures + 1,
+        error: getApiErrorMessage(error, t('status.healthCheckFailed')),
+      });
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+        if (this.listeners.size > 0) this.schedule();
+      }
+    }
+  }
+
+  private start(): void {
+    window.addEventListener('online', this.handleWake);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.checkNow();
+  }
+
+  private stop(): void {
+    window.removeEventListener('online', this.handleWake);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.clearTimer();
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private schedule(): void {
+    const delay = this.snapshot.status === 'online'
+      ? HEALTH_MONITOR.INTERVAL
+      : Math.min(
+          HEALTH_MONITOR.MAX_RETRY_DELAY,
+          HEALTH_MONITOR.MIN_RETRY_DELAY * Math.pow(2, Math.max(0, this.snapshot.consecutiveFailures - 1))
+        );
+
+    this.clearTimer();
+    this.timer = setTimeout(() => this.checkNow(), delay);
+    this.update({ nextCheckAt: new Date(Date.now() + delay) });
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Coming back online or to the tab is a good moment to re-check instead of waiting out the backoff
+  private handleWake = () => {
+    if (this.snapshot.status !== 'online') this.checkNow();
+  };
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') this.handleWake();
+  };
+
+  private update(changes: Partial<HealthSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
+
+export const healthMonitorService = new HealthMonitorService();
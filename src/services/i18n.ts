@@ -0,0 +1,93 @@
+import type { Locale as DateLocale } from 'date-fns';
+import { enUS, ar as arDateLocale } from 'date-fns/locale';
+import { Language } from '@/types';
+import { LANGUAGES } from '@/constants';
+import en from '@/locales/en';
+import ar from '@/locales/ar';
+import ur from '@/locales/ur';
+import urDateLocale from '@/locales/dateFnsUr';
+
+// Plural messages pick a form with Intl.PluralRules from the `count` parameter;
+// Arabic uses all six categories, English and Urdu only "one" and "other"
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type EnglishCatalog = typeof en;
+
+// Every catalog has the same sections and keys as the English one
+export type MessageCatalog = {
+  [Section in keyof EnglishCatalog]: { [Key in keyof EnglishCatalog[Section]]: string | PluralMessage };
+};
+
+export type MessageKey = {
+  [Section in keyof EnglishCatalog]: `${Section & string}.${keyof EnglishCatalog[Section] & string}`;
+}[keyof EnglishCatalog];
+
+export type MessageParams = Record<string, string | number>;
+
+const LANGUAGE_STORAGE_KEY = 'language';
+
+const CATALOGS: Record<Language, MessageCatalog> = { en, ar, ur };
+
+const DATE_LOCALES: Record<Language, DateLocale> = { en: enUS, ar: arDateLocale, ur: urDateLocale };
+
+// UI language and text direction. Components read messages while rendering, so
+// AppRoot re-renders the app when the language changes.
+class I18nService {
+  private language: Language = 'en';
+  private pluralRules = new Intl.PluralRules('en');
+
+  init(): void {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    this.language = LANGUAGES.some(lang => lang.value === stored) ? stored as Language : 'en';
+    this.apply();
+  }
+
+  getLanguage(): Language {
+    return this.language;
+  }
+
+  setLanguage(language: Language): void {
+    this.language = language;
+    try {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    } catch (error) {
+      console.error('Failed to save language preference', error);
+    }
+    this.apply();
+    window.dispatchEvent(new CustomEvent('language:updated'));
+  }
+
+  getDirection(): 'ltr' | 'rtl' {
+    return LANGUAGES.find(lang => lang.value === this.language)?.dir || 'ltr';
+  }
+
+  getDateLocale(): DateLocale {
+    return DATE_LOCALES[this.language];
+  }
+
+  // Falls back to English for anything missing at runtime, and to the key itself as a last resort
+  t(key: MessageKey, params?: MessageParams): string {
+    const [section, name] = key.split('.') as [keyof MessageCatalog, string];
+    const message = (CATALOGS[this.language][section] as Record<string, string | PluralMessage>)[name]
+      ?? (CATALOGS.en[section] as Record<string, string | PluralMessage>)[name];
+    if (message === undefined) return key;
+
+    const text = typeof message === 'string'
+      ? message
+      : message[this.pluralRules.select(Number(params?.count ?? 0))] ?? message.other;
+
+    return params
+      ? text.replace(/\{(\w+)\}/g, (match, param) => param in params ? String(params[param]) : match)
+      : text;
+  }
+
+  private apply(): void {
+    this.pluralRules = new Intl.PluralRules(this.language);
+    document.documentElement.lang = this.language;
+    document.documentElement.dir = this.getDirection();
+  }
+}
+
+export const i18nService = new I18nService();
+
+export const t = (key: MessageKey, params?: MessageParams): string => i18nService.t(key, params);
@@ -1,5 +1,13 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { LicenseInfo } from '@/types';
+import { t } from '@/services/i18n';
+import { formatDate } from '@/utils';
+
+export type LicenseClearReason = 'rejected' | 'signed_out';
+
 export class LicenseService {
   private static readonly STORAGE_KEY = 'license_key';
+  private static readonly INFO_STORAGE_KEY = 'license_info';
   private static readonly HEADER_NAME = 'X-License-Key';
 
   get headerName(): string {
@@ -15,19 +23,25 @@ export class LicenseService {
     }
   }
 
-  setKey(key: string): void {
+  setKey(key: string, info?: LicenseInfo): void {
     try {
       localStorage.setItem(LicenseService.STORAGE_KEY, key);
+      if (info) {
+        localStorage.setItem(LicenseService.INFO_STORAGE_KEY, JSON.stringify(info));
+      } else {
+        localStorage.removeItem(LicenseService.INFO_STORAGE_KEY);
+      }
       window.dispatchEvent(new CustomEvent('license:updated'));
     } catch (error) {
       console.error('Failed to save license key', error);
     }
   }
 
-  clearKey(): void {
+  clearKey(reason: LicenseClearReason = 'rejected'): void {
     try {
       localStorage.removeItem(LicenseService.STORAGE_KEY);
-      window.dispatchEvent(new CustomEvent('license:cleared'));
+      localStorage.removeItem(LicenseService.INFO_STORAGE_KEY);
+      window.dispatchEvent(new CustomEvent('license:cleared', { detail: { reason } }));
     } catch (error) {
       console.error('Failed to clear license key', error);
     }
@@ -37,8 +51,53 @@ export class LicenseService {
     const key = this.getKey();
     return Boolean(key && key.trim().length > 0);
   }
-}
 
-export const licenseService = new LicenseService();
+  // Details returned by the backend the last time the stored key was validated
+  getInfo(): LicenseInfo | null {
+    try {
+      const stored = localStorage.getItem(LicenseService.INFO_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Failed to read license details from storage', error);
+      return null;
+    }
+  }
+
+  updateInfo(info: LicenseInfo): void {
+    try {
+      localStorage.setItem(LicenseService.INFO_STORAGE_KEY, JSON.stringify(info));
+      window.dispatchEvent(new CustomEvent('license:updated'));
+    } catch (error) {
+      console.error('Failed to save license details', error);
+    }
+  }
 
+  getExpiry(info: LicenseInfo | null = this.getInfo()): Date | null {
+    if (!info?.expires_at) return null;
+    const expiry = new Date(info.expires_at);
+    return isNaN(expiry.getTime()) ? null : expiry;
+  }
 
+  // Negative once the license has expired, null when it never expires
+  getDaysUntilExpiry(info: LicenseInfo | null = this.getInfo()): number | null {
+    const expiry = this.getExpiry(info);
+    return expiry ? differenceInCalendarDays(expiry, new Date()) : null;
+  }
+
+  // Why a validation result should not unlock the app, or null if it is usable
+  getValidationProblem(info: LicenseInfo): string | null {
+    if (!info.valid) return t('license.invalid');
+
+    const expiry = this.getExpiry(info);
+    if (expiry && expiry.getTime() < Date.now()) {
+      return t('license.expiredOn', { date: formatDate(expiry) });
+    }
+    return null;
+  }
+
+  maskKey(key: string): string {
+    return key.length <= 8 ? '•'.repeat(key.length) : `${key.slice(0, 4)}${'•'.repeat(8)}${key.slice(-4)}`;
+  }
+}
+
+export const licenseService = new LicenseService();
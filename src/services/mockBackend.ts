@@ -0,0 +1,359 @@
+import { RAGRequest, DocumentFileInfo, DocumentChunk } from '@/types';
+import { sleep } from '@/utils';
+
+// In-browser stand-in for the RAG backend, enabled with VITE_USE_MOCK_BACKEND=true.
+// ApiService hands it the same URL and RequestInit it would give fetch and gets a
+// Response back, so error mapping, timeouts and cancellation behave as in production.
+// Documents live in memory for the lifetime of the page.
+
+interface MockChunk {
+  content: string;
+  sessionId: string;
+}
+
+interface MockDocument {
+  fileName: string;
+  contentType: string;
+  uploadedAt: Date;
+  chunks: MockChunk[];
+}
+
+export interface MockUploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+const CHUNK_SIZE = 400;
+const STREAM_TOKEN_DELAY = 25;
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'her', 'was', 'one', 'our', 'out',
+  'what', 'when', 'how', 'who', 'why', 'does', 'this', 'that', 'with', 'have', 'from', 'they',
+  'will', 'would', 'there', 'their', 'about', 'which', 'into', 'your', 'is', 'do', 'of', 'to', 'in',
+  'many', 'much', 'get', 'my', 'me', 'an', 'it', 'be', 'on', 'or', 'if', 'we', 'should',
+]);
+
+const SEED_SESSION_ID = 'session_mock_seed';
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const SEED_DOCUMENTS: Array<{ fileName: string; contentType: string; uploadedAt: Date; text: string }> = [
+  {
+    fileName: 'Adult Sepsis Management Protocol.pdf',
+    contentType: 'application/pdf',
+    uploadedAt: daysAgo(21),
+    text: `Screening. Screen every adult presenting to the emergency department or deteriorating on the ward for sepsis when there is a suspected infection and a NEWS2 score of 5 or more, or any single parameter scoring 3.
+
+Time zero. Time zero is the moment sepsis is first suspected by a clinician. All bundle elements are timed from this point and must be documented in the sepsis pathway form.
+
+One-hour bundle. Measure serum lactate, obtain blood cultures before antibiotics, give broad-spectrum antibiotics according to the local antimicrobial guideline, and start fluid resuscitation when indicated. Remeasure lactate within 2 to 4 hours if the initial value is above 2 mmol/L.
+
+Fluid resuscitation. Give 30 mL/kg of balanced crystalloid within the first three hours for hypotension or a lactate of 4 mmol/L or more. Reassess fluid responsiveness after each bolus and involve critical care early in patients with heart failure or end-stage renal disease.
+
+Escalation. Refer to critical care if the mean arterial pressure stays below 65 mmHg after fluid resuscitation, the lactate stays above 4 mmol/L, or the patient needs vasopressors. Norepinephrine is the first-line vasopressor.`,
+  },
+  {
+    fileName: 'Type 2 Diabetes Care Pathway.md',
+    contentType: 'text/markdown',
+    uploadedAt: daysAgo(9),
+    text: `Diagnosis. Type 2 diabetes is confirmed by an HbA1c of 48 mmol/mol (6.5%) or more, or a fasting plasma glucose of 7.0 mmol/L or more. Repeat the test to confirm the diagnosis in patients without symptoms.
+
+Glycaemic targets. Agree an individual HbA1c target with each patient. A target of 53 mmol/mol (7.0%) suits most adults; relax the target for frail older adults and patients at high risk of hypoglycaemia.
+
+First-line treatment. Offer structured education and lifestyle advice to every patient. Standard-release metformin is the first-line medicine unless contraindicated; review the dose when eGFR falls below 45 mL/min/1.73m2 and stop it below 30.
+
+Hypoglycaemia. Treat a blood glucose below 4.0 mmol/L in a conscious patient with 15 to 20 g of fast-acting carbohydrate, such as glucose tablets. Recheck after 15 minutes and repeat up to three times, then give a longer-acting carbohydrate snack once glucose is above 4.0 mmol/L.
+
+Annual review. Check HbA1c, blood pressure, lipids, kidney function and urine albumin-to-creatinine ratio, and arrange foot and retinal screening every year.`,
+  },
+  {
+    fileName: 'Infection Prevention and Control Policy.docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    uploadedAt: daysAgo(3),
+    text: `Hand hygiene. Clean hands at the five moments: before touching a patient, before a clean or aseptic procedure, after body fluid exposure risk, after touching a patient and after touching patient surroundings. Alcohol-based hand rub should take 20 to 30 seconds.
+
+Soap and water. Wash hands with soap and water instead of using hand rub when hands are visibly soiled and when caring for patients with suspected or confirmed Clostridioides difficile or norovirus, because alcohol does not reliably inactivate spores and non-enveloped viruses.
+
+Contact precautions. Patients colonised or infected with MRSA, CPE or C. difficile are nursed in a single room with the door closed where possible. Wear a disposable apron and gloves for all patient contact and remove them before leaving the room.
+
+Sharps. Never resheath used needles. Dispose of sharps at the point of use into a sharps container that is no more than three-quarters full. Report every needlestick injury to Occupational Health immediately.`,
+  },
+];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+// Split on paragraph boundaries, packing paragraphs into chunks of roughly CHUNK_SIZE characters
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > CHUNK_SIZE) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+class MockBackendService {
+  private documents = new Map<string, MockDocument>();
+  private searchType = 'hybrid';
+
+  constructor() {
+    for (const seed of SEED_DOCUMENTS) {
+      this.documents.set(seed.fileName, {
+        fileName: seed.fileName,
+        contentType: seed.contentType,
+        uploadedAt: seed.uploadedAt,
+        chunks: chunkText(seed.text).map(content => ({ content, sessionId: SEED_SESSION_ID })),
+      });
+    }
+  }
+
+  async fetch(url: string, init: RequestInit = {}, uploadOptions: MockUploadOptions = {}): Promise<Response> {
+    const { pathname, searchParams } = new URL(url, 'http://mock.local');
+    const method = (init.method || 'GET').toUpperCase();
+    const signal = init.signal;
+
+    // Simulated network latency
+    await sleep(150 + Math.random() * 250, signal);
+
+    const fileMatch = pathname.match(/^\/api\/documents\/file\/([^/]+)(\/chunks)?$/);
+    const sessionMatch = pathname.match(/^\/api\/documents\/sessions\/([^/]+)$/);
+
+    if (method === 'GET' && pathname === '/health') {
+      return json({ status: 'healthy', message: 'Mock RAG backend is running', timestamp: new Date().toISOString() });
+    }
+    if (method === 'GET' && pathname === '/api/license/validate') {
+      return json({ valid: true, holder: 'Demo User', tier: 'demo', expires_at: daysAgo(-365).toISOString() });
+    }
+    if (method === 'GET' && pathname === '/api/rag/status') {
+      return json({
+        status: 'operational',
+        persist_directory: 'memory://mock-vector-store',
+        embedding_model: 'mock-term-overlap',
+        llm_model: 'mock-extractive',
+        search_type: this.searchType,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    if (method === 'POST' && pathname === '/api/rag/search-type') {
+      const searchType = searchParams.get('search_type') || '';
+      if (!['hybrid', 'semantic', 'keyword'].includes(searchType)) {
+        return json({ detail: `Invalid search type: ${searchType}` }, 400);
+      }
+      this.searchType = searchType;
+      return json({ message: `Search type updated to ${searchType}`, search_type: searchType, timestamp: new Date().toISOString() });
+    }
+    if (method === 'POST' && pathname === '/api/rag/query') {
+      return json(this.answer(JSON.parse(String(init.body))));
+    }
+    if (method === 'POST' && pathname === '/api/rag/query/stream') {
+      return this.streamAnswer(JSON.parse(String(init.body)), signal);
+    }
+    if (method === 'GET' && pathname === '/api/documents/all') {
+      const files = this.listFiles();
+      return json({
+        total_documents: files.reduce((total, file) => total + file.total_chunks, 0),
+        unique_files: files.length,
+        files,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    if (method === 'POST' && pathname === '/api/documents/upload' && init.body instanceof FormData) {
+      return this.upload(init.body, signal, uploadOptions);
+    }
+    if (method === 'GET' && fileMatch?.[2]) {
+      return this.getChunks(decodeURIComponent(fileMatch[1]), searchParams);
+    }
+    if (method === 'DELETE' && fileMatch && !fileMatch[2]) {
+      const fileName = decodeURIComponent(fileMatch[1]);
+      const document = this.documents.get(fileName);
+      if (!document) return json({ detail: `No documents found for file: ${fileName}` }, 404);
+      this.documents.delete(fileName);
+      return json({ message: `Deleted ${fileName}`, deleted_count: document.chunks.length, file_name: fileName, timestamp: new Date().toISOString() });
+    }
+    if (method === 'DELETE' && sessionMatch) {
+      return json({ message: 'Session documents deleted', deleted_count: this.deleteSession(sessionMatch[1]), timestamp: new Date().toISOString() });
+    }
+
+    return json({ detail: 'Not Found' }, 404);
+  }
+
+  private listFiles(): DocumentFileInfo[] {
+    return Array.from(this.documents.values()).map(document => ({
+      file_name: document.fileName,
+      uploaded_at: document.uploadedAt.toISOString(),
+      content_type: document.contentType,
+      total_chunks: document.chunks.length,
+      sessions: Array.from(new Set(document.chunks.map(chunk => chunk.sessionId))),
+    }));
+  }
+
+  private getChunks(fileName: string, params: URLSearchParams): Response {
+    const document = this.documents.get(fileName);
+    if (!document) return json({ detail: `File not found: ${fileName}` }, 404);
+
+    const page = Math.max(1, Number(params.get('page')) || 1);
+    const pageSize = Math.max(1, Number(params.get('page_size')) || 20);
+    const query = (params.get('q') || '').toLowerCase();
+
+    const matches: DocumentChunk[] = document.chunks
+      .map((chunk, index) => ({ chunk_index: index, content: chunk.content, metadata: { session_id: chunk.sessionId } }))
+      .filter(chunk => !query || chunk.content.toLowerCase().includes(query));
+
+    return json({
+      file_name: fileName,
+      total_chunks: matches.length,
+      page,
+      page_size: pageSize,
+      chunks: matches.slice((page - 1) * pageSize, page * pageSize),
+    });
+  }
+
+  private deleteSession(sessionId: string): number {
+    let deleted = 0;
+    for (const [fileName, document] of this.documents) {
+      const remaining = document.chunks.filter(chunk => chunk.sessionId !== sessionId);
+      deleted += document.chunks.length - remaining.length;
+      if (remaining.length === 0) {
+        this.documents.delete(fileName);
+      } else {
+        document.chunks = remaining;
+      }
+    }
+    return deleted;
+  }
+
+  private async upload(formData: FormData, signal: AbortSignal | null | undefined, { onProgress }: MockUploadOptions): Promise<Response> {
+    const file = formData.get('file');
+    if (!(file instanceof File)) return json({ detail: 'No file provided' }, 422);
+    const sessionId = String(formData.get('session_id') || `session_${Date.now()}`);
+
+    // Report progress in a few steps so the upload queue has something to show
+    for (let step = 1; step <= 5; step++) {
+      await sleep(120, signal);
+      onProgress?.(Math.round((file.size * step) / 5), file.size);
+    }
+
+    // Only plain text formats can be read in the browser; binary formats get placeholder text
+    const text = file.type === 'text/plain' || file.type === 'text/markdown'
+      ? await file.text()
+      : `Text extracted from ${file.name} by the mock backend. Binary formats such as PDF and DOCX are not parsed offline, so this placeholder stands in for the document's contents.`;
+    const contents = chunkText(text);
+    if (contents.length === 0) return json({ detail: `${file.name} contains no text` }, 422);
+
+    // Processing time grows with the number of chunks
+    await sleep(200 + contents.length * 50, signal);
+
+    const existing = this.documents.get(file.name);
+    this.documents.set(file.name, {
+      fileName: file.name,
+      contentType: file.type || 'text/plain',
+      uploadedAt: new Date(),
+      chunks: [...(existing?.chunks || []), ...contents.map(content => ({ content, sessionId }))],
+    });
+
+    return json({ message: `Processed ${file.name}`, documents_processed: contents.length, status: 'success', session_id: sessionId });
+  }
+
+  // Rank chunks by term overlap with the question: keyword counts occurrences,
+  // semantic rewards covering more distinct terms, hybrid averages the two
+  private retrieve(question: string, searchType: string, selectedDocuments?: string[]) {
+    const terms = Array.from(new Set(tokenize(question)));
+    if (terms.length === 0) return [];
+
+    const candidates = Array.from(this.documents.values())
+      .filter(document => !selectedDocuments?.length || selectedDocuments.includes(document.fileName))
+      .flatMap(document => document.chunks.map(chunk => ({ fileName: document.fileName, content: chunk.content })));
+
+    return candidates
+      .map(candidate => {
+        const words = tokenize(candidate.content);
+        const keyword = terms.reduce((total, term) => total + words.filter(word => word === term).length, 0) / Math.sqrt(words.length || 1);
+        const semantic = terms.filter(term => words.some(word => word.startsWith(term) || term.startsWith(word))).length / terms.length;
+        const score = searchType === 'keyword' ? keyword : searchType === 'semantic' ? semantic : (keyword + semantic) / 2;
+        return { ...candidate, score };
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3);
+  }
+
+  // The two sentences of a passage that share the most terms with the question, in reading order
+  private summarize(content: string, question: string): string {
+    const terms = new Set(tokenize(question));
+    const sentences = content.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]*/g) || [content];
+    return sentences
+      .map((sentence, index) => ({
+        sentence: sentence.trim(),
+        index,
+        score: tokenize(sentence).filter(word => terms.has(word)).length,
+      }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, 2)
+      .sort((a, b) => a.index - b.index)
+      .map(entry => entry.sentence)
+      .join(' ');
+  }
+
+  private answer(request: RAGRequest) {
+    const started = Date.now();
+    const question = [...request.transcript].reverse().find(utterance => utterance.role === 'user')?.content || '';
+    const searchType = request.search_type || this.searchType;
+    const passages = this.retrieve(question, searchType, request.selected_documents);
+
+    const response = passages.length === 0
+      ? `I couldn't find anything about that in the knowledge base. Try rephrasing the question or upload a document that covers it.`
+      : [
+          'Here is what the knowledge base says:',
+          '',
+          ...passages.map((passage, i) => `- ${this.summarize(passage.content, question)} [${i + 1}]`),
+          '',
+          `_Answered by the offline mock backend from ${passages.length} retrieved passage${passages.length === 1 ? '' : 's'}._`,
+        ].join('\n');
+
+    return {
+      response,
+      context_used: passages.map(passage => `[Source: ${passage.fileName}]\n${passage.content}`).join('\n\n---\n\n'),
+      documents_retrieved: passages.length,
+      processing_time: (Date.now() - started) / 1000 + 0.4,
+      search_type: searchType,
+    };
+  }
+
+  private streamAnswer(request: RAGRequest, signal?: AbortSignal | null): Response {
+    const result = this.answer(request);
+    const tokens = result.response.match(/\S+\s*/g) || [];
+    const encoder = new TextEncoder();
+    const event = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for (const token of tokens) {
+            await sleep(STREAM_TOKEN_DELAY, signal);
+            controller.enqueue(event({ type: 'token', content: token }));
+          }
+          controller.enqueue(event({
+            type: 'done',
+            context_used: result.context_used,
+            documents_retrieved: result.documents_retrieved,
+            processing_time: result.processing_time,
+            search_type: result.search_type,
+          }));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+}
+
+export const mockBackend = new MockBackendService();
@@ -0,0 +1,86 @@
+export type AppView = 'chat' | 'documents' | 'settings' | 'status';
+
+export type AppRoute =
+  | { view: 'chat'; sessionId?: string }
+  | { view: 'documents' | 'settings' | 'status' }
+  | { view: 'not_found'; path: string };
+
+type RouteListener = (route: AppRoute) => void;
+
+const STATIC_VIEWS: Record<string, 'documents' | 'settings' | 'status'> = {
+  '/documents': 'documents',
+  '/settings': 'settings',
+  '/status': 'status',
+};
+
+export function parseRoute(pathname: string): AppRoute {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  if (path === '/' || path === '/chat') return { view: 'chat' };
+
+  const chatMatch = path.match(/^\/chat\/([^/]+)$/);
+  if (chatMatch) {
+    try {
+      return { view: 'chat', sessionId: decodeURIComponent(chatMatch[1]) };
+    } catch {
+      // Malformed escape sequence in a hand-edited URL
+      return { view: 'not_found', path };
+    }
+  }
+
+  const view = STATIC_VIEWS[path];
+  return view ? { view } : { view: 'not_found', path };
+}
+
+export function getRoutePath(view: AppView, sessionId?: string): string {
+  if (view === 'chat') return sessionId ? `/chat/${encodeURIComponent(sessionId)}` : '/';
+  return `/${view}`;
+}
+
+// Minimal History API router: the URL is the source of truth for which screen and chat are open,
+// so views can be bookmarked and browser back/forward work. Hosting rewrites every path to index.html.
+class RouterService {
+  private listeners = new Set<RouteListener>();
+  private route = parseRoute(window.location.pathname);
+
+  subscribe(listener: RouteListener): () => void {
+    if (this.listeners.size === 0) {
+      window.addEventListener('popstate', this.handlePopState);
+    }
+    this.listeners.add(listener);
+    listener(this.route);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        window.removeEventListener('popstate', this.handlePopState);
+      }
+    };
+  }
+
+  getRoute(): AppRoute {
+    return this.route;
+  }
+
+  // Replace instead of push for redirects, so back does not return to the address that redirected
+  navigate(path: string, { replace = false }: { replace?: boolean } = {}): void {
+    if (path === window.location.pathname) return;
+
+    if (replace) {
+      window.history.replaceState(null, '', path);
+    } else {
+      window.history.pushState(null, '', path);
+    }
+    this.setRoute(parseRoute(path));
+  }
+
+  private handlePopState = () => {
+    this.setRoute(parseRoute(window.location.pathname));
+  };
+
+  private setRoute(route: AppRoute): void {
+    this.route = route;
+    this.listeners.forEach(listener => listener(route));
+  }
+}
+
+export const routerService = new RouterService();
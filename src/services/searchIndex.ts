@@ -0,0 +1,159 @@
+import { ChatSession, ChatMessage } from '@/types';
+
+export interface SearchResult {
+  sessionId: string;
+  sessionName: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  timestamp: Date;
+  snippet: string;
+  highlights: Array<[number, number]>;  // [start, end) ranges within snippet
+}
+
+interface IndexedMessage {
+  sessionId: string;
+  message: ChatMessage;
+}
+
+const SNIPPET_RADIUS = 60;
+
+// Lowercased word tokens; keeps letters and digits from any script
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Incremental inverted index over message content of every chat session.
+// Sessions are re-indexed only when their messages array changes.
+class SearchIndexService {
+  private postings = new Map<string, Set<string>>();
+  private messages = new Map<string, IndexedMessage>();
+  private sessionMessageIds = new Map<string, Set<string>>();
+  private sessionNames = new Map<string, string>();
+  private indexedArrays = new Map<string, ChatMessage[]>();
+
+  // Bring the index in line with the given sessions, touching only what changed
+  syncSessions(sessions: ChatSession[]): void {
+    const liveIds = new Set(sessions.map(session => session.id));
+    for (const sessionId of Array.from(this.sessionMessageIds.keys())) {
+      if (!liveIds.has(sessionId)) this.removeSession(sessionId);
+    }
+
+    for (const session of sessions) {
+      this.sessionNames.set(session.id, session.name);
+      if (this.indexedArrays.get(session.id) === session.messages) continue;
+
+      const indexedIds = this.sessionMessageIds.get(session.id) || new Set<string>();
+      const currentIds = new Set(session.messages.map(message => message.id));
+
+      for (const messageId of Array.from(indexedIds)) {
+        if (!currentIds.has(messageId)) this.removeMessage(messageId);
+      }
+      for (const message of session.messages) {
+        if (!indexedIds.has(message.id)) this.addMessage(session.id, message);
+      }
+
+      this.indexedArrays.set(session.id, session.messages);
+    }
+  }
+
+  addMessage(sessionId: string, message: ChatMessage): void {
+    if (this.messages.has(message.id)) return;
+
+    this.messages.set(message.id, { sessionId, message });
+    const sessionIds = this.sessionMessageIds.get(sessionId) || new Set<string>();
+    sessionIds.add(message.id);
+    this.sessionMessageIds.set(sessionId, sessionIds);
+
+    for (const token of new Set(tokenize(message.content))) {
+      const ids = this.postings.get(token) || new Set<string>();
+      ids.add(message.id);
+      this.postings.set(token, ids);
+    }
+  }
+
+  removeSession(sessionId: string): void {
+    for (const messageId of Array.from(this.sessionMessageIds.get(sessionId) || [])) {
+      this.removeMessage(messageId);
+    }
+    this.sessionMessageIds.delete(sessionId);
+    this.sessionNames.delete(sessionId);
+    this.indexedArrays.delete(sessionId);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.messages.clear();
+    this.sessionMessageIds.clear();
+    this.sessionNames.clear();
+    this.indexedArrays.clear();
+  }
+
+  // Every query term must match (as a word prefix); newest hits first
+  search(query: string, limit: number = 50): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    let matches: string[] = [];
+    terms.forEach((term, i) => {
+      const termMatches = new Set<string>();
+      for (const [token, ids] of this.postings) {
+        if (token.startsWith(term)) ids.forEach(id => termMatches.add(id));
+      }
+      matches = i === 0
+        ? Array.from(termMatches)
+        : matches.filter(id => termMatches.has(id));
+    });
+
+    return matches
+      .map(id => this.messages.get(id)!)
+      .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime())
+      .slice(0, limit)
+      .map(({ sessionId, message }) => ({
+        sessionId,
+        sessionName: this.sessionNames.get(sessionId) || '',
+        messageId: message.id,
+        role: message.role,
+        timestamp: message.timestamp,
+        ...this.buildSnippet(message.content, terms),
+      }));
+  }
+
+  private removeMessage(messageId: string): void {
+    const entry = this.messages.get(messageId);
+    if (!entry) return;
+
+    for (const token of new Set(tokenize(entry.message.content))) {
+      const ids = this.postings.get(token);
+      if (!ids) continue;
+      ids.delete(messageId);
+      if (ids.size === 0) this.postings.delete(token);
+    }
+    this.messages.delete(messageId);
+    this.sessionMessageIds.get(entry.sessionId)?.delete(messageId);
+  }
+
+  private buildSnippet(content: string, terms: string[]): Pick<SearchResult, 'snippet' | 'highlights'> {
+    const text = content.replace(/\s+/g, ' ').trim();
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})[\\p{L}\\p{N}]*`,
+      'giu'
+    );
+
+    const first = pattern.exec(text);
+    const start = first ? Math.max(0, first.index - SNIPPET_RADIUS) : 0;
+    const end = Math.min(text.length, (first ? first.index + first[0].length : 0) + SNIPPET_RADIUS * 2);
+    const prefix = start > 0 ? '…' : '';
+    const snippet = prefix + text.slice(start, end) + (end < text.length ? '…' : '');
+
+    const highlights: Array<[number, number]> = [];
+    pattern.lastIndex = 0;
+    const body = text.slice(start, end);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(body)) !== null) {
+      highlights.push([match.index + prefix.length, match.index + prefix.length + match[0].length]);
+    }
+
+    return { snippet, highlights };
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
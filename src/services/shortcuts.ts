@@ -0,0 +1,125 @@
+import { ShortcutAction, ShortcutBindings } from '@/types';
+import { KEYBOARD_SHORTCUTS } from '@/constants';
+
+const SHORTCUTS_STORAGE_KEY = 'keyboard_shortcuts';
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'AltGraph', 'Shift', 'CapsLock', 'OS'];
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+export const IS_MAC = /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+const MODIFIER_LABELS: Record<string, string> = IS_MAC
+  ? { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' }
+  : { Mod: 'Ctrl', Ctrl: 'Ctrl', Alt: 'Alt', Shift: 'Shift' };
+
+// "Mod+Shift+K" -> ['Mod', 'Shift', 'K']; the key itself may be "+"
+const splitShortcut = (binding: string): string[] => {
+  if (binding.endsWith('++') || binding === '+') {
+    return [...binding.slice(0, -2).split('+').filter(Boolean), '+'];
+  }
+  return binding.split('+');
+};
+
+// Normalizes a key press to the stored shortcut format, or null for a lone modifier key
+export function getShortcutFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  // Letters and digits use the physical key so Option/Alt combinations on macOS
+  // (which type characters like "˜") and non-Latin layouts still match
+  const codeMatch = event.code?.match(/^(?:Key([A-Z])|Digit([0-9]))$/);
+  const key = codeMatch ? codeMatch[1] || codeMatch[2] : event.key === ' ' ? 'Space' : event.key;
+  // Shift is already part of symbols such as "?"
+  const isSymbol = !codeMatch && event.key.length === 1 && event.key !== ' ';
+
+  const parts: string[] = [];
+  if (IS_MAC ? event.metaKey : event.ctrlKey) parts.push('Mod');
+  if (IS_MAC && event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key.length === 1 ? key.toUpperCase() : key);
+
+  return parts.join('+');
+}
+
+// Shortcuts without Ctrl/Cmd/Alt would type text, so they are ignored while a text field has focus
+export function hasModifier(binding: string): boolean {
+  return splitShortcut(binding).slice(0, -1).some(part => part !== 'Shift');
+}
+
+export function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+// Labels for each key of a shortcut, e.g. ['⌘', 'K'] on macOS or ['Ctrl', 'K'] elsewhere
+export function getShortcutKeys(binding: string): string[] {
+  if (!binding) return [];
+  const parts = splitShortcut(binding);
+  const key = parts.pop() as string;
+  return [...parts.map(part => MODIFIER_LABELS[part] || part), KEY_LABELS[key] || key];
+}
+
+export function formatShortcut(binding: string): string {
+  return getShortcutKeys(binding).join(IS_MAC ? '' : '+');
+}
+
+const getDefaultBindings = (): ShortcutBindings =>
+  Object.fromEntries(
+    KEYBOARD_SHORTCUTS.map(shortcut => [shortcut.action, shortcut.defaultBinding])
+  ) as ShortcutBindings;
+
+// User-configurable keyboard shortcuts, kept in this browser
+class ShortcutService {
+  getBindings(): ShortcutBindings {
+    const bindings = getDefaultBindings();
+    try {
+      const stored = JSON.parse(localStorage.getItem(SHORTCUTS_STORAGE_KEY) || '{}');
+      for (const action of Object.keys(bindings) as ShortcutAction[]) {
+        if (typeof stored[action] === 'string') bindings[action] = stored[action];
+      }
+    } catch (error) {
+      console.error('Failed to read keyboard shortcuts', error);
+    }
+    return bindings;
+  }
+
+  getAction(bindings: ShortcutBindings, shortcut: string): ShortcutAction | null {
+    const action = (Object.keys(bindings) as ShortcutAction[]).find(a => bindings[a] === shortcut);
+    return action || null;
+  }
+
+  // A combination can only trigger one action, so assigning it takes it away from the action
+  // that had it; that action is returned so the caller can say so
+  setBinding(action: ShortcutAction, binding: string): { bindings: ShortcutBindings; replaced: ShortcutAction | null } {
+    const bindings = this.getBindings();
+    const replaced = binding ? this.getAction(bindings, binding) : null;
+    if (replaced && replaced !== action) bindings[replaced] = '';
+    bindings[action] = binding;
+    this.save(bindings);
+    return { bindings, replaced: replaced !== action ? replaced : null };
+  }
+
+  resetBindings(): ShortcutBindings {
+    localStorage.removeItem(SHORTCUTS_STORAGE_KEY);
+    window.dispatchEvent(new CustomEvent('shortcuts:updated'));
+    return getDefaultBindings();
+  }
+
+  private save(bindings: ShortcutBindings): void {
+    try {
+      localStorage.setItem(SHORTCUTS_STORAGE_KEY, JSON.stringify(bindings));
+    } catch (error) {
+      console.error('Failed to save keyboard shortcuts', error);
+    }
+    window.dispatchEvent(new CustomEvent('shortcuts:updated'));
+  }
+}
+
+export const shortcutService = new ShortcutService();
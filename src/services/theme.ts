@@ -0,0 +1,50 @@
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+const THEME_STORAGE_KEY = 'theme';
+
+const darkQuery = window.matchMedia('(prefers-color-scheme: dark)');
+
+// Applies the light/dark theme by toggling the `dark` class on <html>; the Tailwind palette
+// is defined through CSS variables that switch with it. "system" follows the OS setting live.
+class ThemeService {
+  getPreference(): ThemePreference {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return stored === 'light' || stored === 'dark' ? stored : 'system';
+  }
+
+  setPreference(preference: ThemePreference): void {
+    try {
+      if (preference === 'system') {
+        localStorage.removeItem(THEME_STORAGE_KEY);
+      } else {
+        localStorage.setItem(THEME_STORAGE_KEY, preference);
+      }
+    } catch (error) {
+      console.error('Failed to save theme preference', error);
+    }
+    this.apply();
+    window.dispatchEvent(new CustomEvent('theme:updated'));
+  }
+
+  isDark(): boolean {
+    const preference = this.getPreference();
+    return preference === 'dark' || (preference === 'system' && darkQuery.matches);
+  }
+
+  // Called once before the first render
+  init(): void {
+    this.apply();
+    darkQuery.addEventListener('change', () => {
+      if (this.getPreference() === 'system') {
+        this.apply();
+        window.dispatchEvent(new CustomEvent('theme:updated'));
+      }
+    });
+  }
+
+  private apply(): void {
+    document.documentElement.classList.toggle('dark', this.isDark());
+  }
+}
+
+export const themeService = new ThemeService();
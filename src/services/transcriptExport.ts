@@ -0,0 +1,196 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { format } from 'date-fns';
+import { ChatSession, ChatMessage } from '@/types';
+import { OPENAI_MODELS } from '@/constants';
+import { i18nService, t } from '@/services/i18n';
+import { getActivePath, downloadFile, escapeHtml, slugify, getSearchTypeName, getSourceName } from '@/utils';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'pdf';
+
+const TIMESTAMP_FORMAT = 'yyyy-MM-dd HH:mm:ss';
+
+const TRANSCRIPT_STYLES = `
+  body { font-family: Inter, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.55; font-size: 14px; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .meta, .retrieval { color: #6b7280; font-size: 0.8rem; }
+  table.settings { border-collapse: collapse; margin-top: 0.5rem; }
+  table.settings td { padding-block: 0.25rem; padding-inline-end: 1rem; vertical-align: top; }
+  table.settings td:first-child { color: #6b7280; }
+  .message { border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; page-break-inside: avoid; }
+  .message.user { background: #eff6ff; border-color: #bfdbfe; }
+  .message header { display: flex; justify-content: space-between; font-weight: 600; font-size: 0.85rem; margin-bottom: 0.5rem; }
+  .message header time { font-weight: 400; color: #6b7280; }
+  .content p:first-child { margin-top: 0; }
+  .content pre { background: #f3f4f6; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; }
+  .sources { margin-top: 0.75rem; border-top: 1px solid #f3f4f6; padding-top: 0.5rem; font-size: 0.8rem; }
+  .sources blockquote { margin: 0.25rem 0 0.75rem; padding-inline-start: 0.75rem; border-inline-start: 3px solid #d1d5db; color: #4b5563; white-space: pre-wrap; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+// Readable per-session transcripts (Markdown, standalone HTML, print-to-PDF) of the active branch
+class TranscriptExportService {
+  export(session: ChatSession, transcriptFormat: TranscriptFormat): void {
+    const baseName = `${slugify(session.name)}-${format(new Date(), 'yyyy-MM-dd-HH-mm')}`;
+
+    switch (transcriptFormat) {
+      case 'markdown':
+        downloadFile(this.toMarkdown(session), `${baseName}.md`, 'text/markdown');
+        break;
+      case 'html':
+        downloadFile(this.toHtml(session), `${baseName}.html`, 'text/html');
+        break;
+      case 'pdf':
+        this.printAsPdf(session);
+        break;
+    }
+  }
+
+  toMarkdown(session: ChatSession): string {
+    const lines: string[] = [
+      `# ${session.name}`,
+      '',
+      `- **${t('transcript.created')}:** ${format(session.createdAt, TIMESTAMP_FORMAT)}`,
+      `- **${t('transcript.lastUpdated')}:** ${format(session.updatedAt, TIMESTAMP_FORMAT)}`,
+      `- **${t('transcript.exported')}:** ${format(new Date(), TIMESTAMP_FORMAT)}`,
+      '',
+      `## ${t('transcript.settings')}`,
+      '',
+      ...this.describeSettings(session).map(([label, value]) => `- **${label}:** ${value}`),
+      '',
+      `## ${t('transcript.conversation')}`,
+    ];
+
+    for (const message of getActivePath(session)) {
+      lines.push('', `### ${this.describeRole(message)} — ${format(message.timestamp, TIMESTAMP_FORMAT)}`, '');
+      lines.push(message.content);
+
+      const retrieval = this.describeRetrieval(message);
+      if (retrieval) lines.push('', `_${retrieval}_`);
+
+      const sources = message.metadata?.sources || [];
+      if (sources.length > 0) {
+        lines.push('', `**${t('sources.title')}**`, '');
+        for (const source of sources) {
+          lines.push(`${source.index}. **${getSourceName(source)}**`);
+          lines.push(...source.content.split('\n').map(line => `   > ${line}`));
+        }
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  toHtml(session: ChatSession): string {
+    const settingsRows = this.describeSettings(session)
+      .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`)
+      .join('');
+
+    const messages = getActivePath(session).map((message) => {
+      const isUser = message.role === 'user';
+      const content = isUser
+        ? `<p style="white-space: pre-wrap">${escapeHtml(message.content)}</p>`
+        : this.renderMarkdown(message.content);
+
+      const retrieval = this.describeRetrieval(message);
+      const sources = message.metadata?.sources || [];
+      const sourcesHtml = sources.length === 0 ? '' : `
+        <div class="sources">
+          <strong>${escapeHtml(t('sources.title'))}</strong>
+          ${sources.map(source => `
+            <div>[${source.index}] ${escapeHtml(getSourceName(source))}</div>
+            <blockquote>${escapeHtml(source.content)}</blockquote>`).join('')}
+        </div>`;
+
+      return `
+      <section class="message ${isUser ? 'user' : 'assistant'}">
+        <header>
+          <span>${escapeHtml(this.describeRole(message))}</span>
+          <time datetime="${message.timestamp.toISOString()}">${format(message.timestamp, TIMESTAMP_FORMAT)}</time>
+        </header>
+        <div class="content">${content}</div>
+        ${retrieval ? `<div class="retrieval">${escapeHtml(retrieval)}</div>` : ''}
+        ${sourcesHtml}
+      </section>`;
+    }).join('');
+
+    return `<!doctype html>
+<html lang="${i18nService.getLanguage()}" dir="${i18nService.getDirection()}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(session.name)} — ${escapeHtml(t('transcript.title'))}</title>
+  <style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <div class="meta">
+    ${escapeHtml(t('transcript.created'))} ${format(session.createdAt, TIMESTAMP_FORMAT)} ·
+    ${escapeHtml(t('transcript.lastUpdated'))} ${format(session.updatedAt, TIMESTAMP_FORMAT)} ·
+    ${escapeHtml(t('transcript.exported'))} ${format(new Date(), TIMESTAMP_FORMAT)}
+  </div>
+  <h2>${escapeHtml(t('transcript.settings'))}</h2>
+  <table class="settings">${settingsRows}</table>
+  <h2>${escapeHtml(t('transcript.conversation'))}</h2>
+  ${messages}
+</body>
+</html>
+`;
+  }
+
+  // Open the HTML transcript in a new window and hand it to the browser's print-to-PDF dialog
+  private printAsPdf(session: ChatSession): void {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error(t('transcript.popupBlocked'));
+    }
+
+    printWindow.document.open();
+    printWindow.document.write(this.toHtml(session));
+    printWindow.document.close();
+    printWindow.focus();
+    // Give the new document a moment to lay out before printing
+    setTimeout(() => printWindow.print(), 250);
+  }
+
+  private renderMarkdown(content: string): string {
+    return renderToStaticMarkup(
+      createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], rehypePlugins: [rehypeSanitize] }, content)
+    );
+  }
+
+  private describeSettings(session: ChatSession): Array<[string, string]> {
+    const { model, temperature, search_type, selected_documents } = session.settings;
+    return [
+      [t('settings.model'), OPENAI_MODELS.find(m => m.value === model)?.label || model],
+      [t('settings.temperature'), String(temperature)],
+      [t('settings.searchType'), getSearchTypeName(search_type)],
+      [t('settings.scope'), selected_documents && selected_documents.length > 0
+        ? selected_documents.join(', ')
+        : t('settings.allDocuments')],
+    ];
+  }
+
+  private describeRetrieval(message: ChatMessage): string {
+    const metadata = message.metadata;
+    if (message.role !== 'assistant' || !metadata) return '';
+
+    const parts: string[] = [];
+    if (metadata.documents_retrieved) parts.push(t('chat.documentsRetrieved', { count: metadata.documents_retrieved }));
+    if (metadata.processing_time) parts.push(t('chat.processingTime', { seconds: metadata.processing_time.toFixed(2) }));
+    if (metadata.search_type) parts.push(t('chat.searchType', { searchType: getSearchTypeName(metadata.search_type) }));
+    if (metadata.interrupted) parts.push(t('chat.interrupted'));
+    return parts.join(' · ');
+  }
+
+  private describeRole(message: ChatMessage): string {
+    return message.role === 'user' ? t('transcript.user') : t('common.assistant');
+  }
+}
+
+export const transcriptExportService = new TranscriptExportService();
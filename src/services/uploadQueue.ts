@@ -0,0 +1,256 @@
+import { apiService, DocumentUploadResponse } from './api';
+import { UPLOAD_QUEUE } from '@/constants';
+import { generateId, isAbortError } from '@/utils';
+import { ApiError, getApiErrorMessage } from './apiErrors';
+import { t } from './i18n';
+import { documentHashService } from './documentHashes';
+import { collectionsService } from './collections';
+
+export type UploadStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  sessionId?: string;
+  hash?: string; // SHA-256 of the file, remembered once the upload succeeds
+  replaces?: string; // knowledge base file whose chunks this upload supersedes
+  status: UploadStatus;
+  progress: number; // 0-1, bytes sent to the server
+  error?: string;
+  result?: DocumentUploadResponse;
+}
+
+export interface UploadBatchSummary {
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  chunks: number;
+  finishedAt: Date;
+}
+
+export interface UploadQueueSnapshot {
+  items: UploadQueueItem[];
+  concurrency: number;
+  summary: UploadBatchSummary | null;
+}
+
+type UploadQueueListener = (snapshot: UploadQueueSnapshot) => void;
+
+const CONCURRENCY_STORAGE_KEY = 'upload_concurrency';
+
+// Uploads documents in the background with a limit on parallel requests.
+// Lives outside React so uploads keep running while the user switches views.
+class UploadQueueService {
+  private items: UploadQueueItem[] = [];
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<UploadQueueListener>();
+  private batchIds = new Set<string>();
+  private summary: UploadBatchSummary | null = null;
+  private concurrency = this.loadConcurrency();
+
+  subscribe(listener: UploadQueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSnapshot(): UploadQueueSnapshot {
+    return { items: this.items, concurrency: this.concurrency, summary: this.summary };
+  }
+
+  enqueue(files: File[], sessionId?: string, hashes?: Map<File, string>, replacements?: Map<File, string>): void {
+    if (files.length === 0) return;
+
+    const newItems: UploadQueueItem[] = files.map(file => ({
+      id: generateId(),
+      file,
+      sessionId,
+      hash: hashes?.get(file),
+      replaces: replacements?.get(file),
+      status: 'queued',
+      progress: 0,
+    }));
+    newItems.forEach(item => this.batchIds.add(item.id));
+    this.items = [...this.items, ...newItems];
+    this.summary = null;
+    this.pump();
+  }
+
+  cancel(id: string): void {
+    const item = this.items.find(entry => entry.id === id);
+    if (!item) return;
+
+    if (item.status === 'queued') {
+      this.update(id, { status: 'cancelled' });
+      this.pump();
+    } else if (item.status === 'uploading') {
+      // The upload promise settles as cancelled and frees its slot
+      this.controllers.get(id)?.abort();
+    }
+    // Once processing, every byte has been sent and the server indexes the file regardless,
+    // so aborting would only hide an upload that still lands in the knowledge base
+  }
+
+  cancelAll(): void {
+    // Cancel waiting items first so aborting a running upload does not start the next one
+    this.items = this.items.map(item => item.status === 'queued' ? { ...item, status: 'cancelled' } : item);
+    this.items
+      .filter(item => item.status === 'uploading')
+      .forEach(item => this.controllers.get(item.id)?.abort());
+    this.pump();
+  }
+
+  retry(id: string): void {
+    const item = this.items.find(entry => entry.id === id);
+    if (!item || (item.status !== 'error' && item.status !== 'cancelled')) return;
+
+    this.batchIds.add(id);
+    this.summary = null;
+    this.update(id, { status: 'queued', progress: 0, error: undefined });
+    this.pump();
+  }
+
+  retryFailed(): void {
+    this.items
+      .filter(item => item.status === 'error')
+      .forEach(item => this.retry(item.id));
+  }
+
+  // Drop finished items from the list; queued and running uploads stay
+  clearFinished(): void {
+    this.items = this.items.filter(item =>
+      item.status === 'queued' || item.status === 'uploading' || item.status === 'processing'
+    );
+    this.summary = null;
+    this.emit();
+  }
+
+  setConcurrency(value: number): void {
+    this.concurrency = Math.min(UPLOAD_QUEUE.MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(this.concurrency));
+    } catch (error) {
+      console.error('Failed to save upload concurrency', error);
+    }
+    this.pump();
+  }
+
+  private loadConcurrency(): number {
+    try {
+      const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+      if (stored >= 1 && stored <= UPLOAD_QUEUE.MAX_CONCURRENCY) return stored;
+    } catch (error) {
+      console.error('Failed to read upload concurrency', error);
+    }
+    return UPLOAD_QUEUE.DEFAULT_CONCURRENCY;
+  }
+
+  // Start queued uploads until the concurrency limit is reached
+  private pump(): void {
+    let running = this.items.filter(item => item.status === 'uploading' || item.status === 'processing').length;
+
+    for (const item of this.items) {
+      if (running >= this.concurrency) break;
+      if (item.status !== 'queued') continue;
+      running++;
+      this.start(item);
+    }
+
+    this.finishBatchIfIdle();
+    this.emit();
+  }
+
+  private async start(item: UploadQueueItem): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item.id, { status: 'uploading', progress: 0 }, false);
+
+    try {
+      // Deleting by name after a same-name upload would take the new chunks with it, so that
+      // case clears the old ones first. Waiting until now keeps them if the upload is cancelled while queued.
+      if (item.replaces === item.file.name) {
+        await this.removeReplaced(item.replaces, item.file.name).catch((error) => {
+          console.error('Replace error:', error);
+          throw new Error(t('documents.replaceFailed', { existing: item.file.name, file: item.file.name }));
+        });
+      }
+
+      const result = await apiService.uploadDocument(item.file, item.sessionId, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => {
+          // Once every byte is sent the server still has to chunk and embed the file
+          this.update(item.id, loaded >= total
+            ? { status: 'processing', progress: 1 }
+            : { progress: loaded / total });
+        },
+      });
+      if (item.hash) {
+        documentHashService.record(item.file.name, item.hash);
+      }
+
+      // A replacement under another name only removes the old file once the new one is in
+      let error: string | undefined;
+      if (item.replaces && item.replaces !== item.file.name) {
+        try {
+          await this.removeReplaced(item.replaces, item.file.name);
+        } catch (replaceError) {
+          console.error('Replace error:', replaceError);
+          error = t('uploadQueue.replaceCleanupFailed', { existing: item.replaces, file: item.file.name });
+        }
+      }
+      this.update(item.id, { status: 'done', progress: 1, result, error }, false);
+    } catch (error) {
+      this.update(item.id, isAbortError(error)
+        ? { status: 'cancelled' }
+        : { status: 'error', error: getApiErrorMessage(error, t('uploadQueue.uploadFailed')) }, false);
+    } finally {
+      this.controllers.delete(item.id);
+      this.pump();
+    }
+  }
+
+  // A 404 means the old file is already gone, e.g. when a failed replacement is retried
+  private async removeReplaced(fileName: string, replacementName: string): Promise<void> {
+    try {
+      await apiService.deleteDocumentsByFileName(fileName);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) throw error;
+    }
+    documentHashService.forget([fileName]);
+    if (fileName !== replacementName) {
+      await collectionsService.removeFilesFromAll([fileName]);
+    }
+  }
+
+  private finishBatchIfIdle(): void {
+    if (this.batchIds.size === 0) return;
+    const busy = this.items.some(item =>
+      this.batchIds.has(item.id) && (item.status === 'queued' || item.status === 'uploading' || item.status === 'processing')
+    );
+    if (busy) return;
+
+    const batch = this.items.filter(item => this.batchIds.has(item.id));
+    this.summary = {
+      succeeded: batch.filter(item => item.status === 'done').length,
+      failed: batch.filter(item => item.status === 'error').length,
+      cancelled: batch.filter(item => item.status === 'cancelled').length,
+      chunks: batch.reduce((total, item) => total + (item.result?.documents_processed || 0), 0),
+      finishedAt: new Date(),
+    };
+    this.batchIds.clear();
+  }
+
+  private update(id: string, changes: Partial<UploadQueueItem>, notify = true): void {
+    this.items = this.items.map(item => item.id === id ? { ...item, ...changes } : item);
+    if (notify) this.emit();
+  }
+
+  private emit(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const uploadQueueService = new UploadQueueService();
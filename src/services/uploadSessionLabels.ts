@@ -0,0 +1,43 @@
+const LABELS_STORAGE_KEY = 'upload_session_labels';
+
+// Friendly names for upload sessions. The backend only knows the generated ids,
+// so labels stay in this browser.
+class UploadSessionLabelService {
+  getLabels(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(LABELS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Failed to read upload session labels', error);
+      return {};
+    }
+  }
+
+  // An empty label removes it, falling back to the session id
+  setLabel(sessionId: string, label: string): Record<string, string> {
+    const labels = this.getLabels();
+    if (label.trim()) {
+      labels[sessionId] = label.trim();
+    } else {
+      delete labels[sessionId];
+    }
+    return this.save(labels);
+  }
+
+  removeLabel(sessionId: string): Record<string, string> {
+    const labels = this.getLabels();
+    delete labels[sessionId];
+    return this.save(labels);
+  }
+
+  private save(labels: Record<string, string>): Record<string, string> {
+    try {
+      localStorage.setItem(LABELS_STORAGE_KEY, JSON.stringify(labels));
+    } catch (error) {
+      console.error('Failed to save upload session labels', error);
+    }
+    return labels;
+  }
+}
+
+export const uploadSessionLabelService = new UploadSessionLabelService();
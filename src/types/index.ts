@@ -1,3 +1,5 @@
+import type { MessageKey } from '@/services/i18n';
+
 export interface Utterance {
   role: 'user' | 'agent' | 'system';
   content: string;
@@ -20,28 +22,49 @@ export interface RAGResponse {
   error?: string;
 }
 
+// Events emitted by the streaming RAG endpoint (Server-Sent Events)
+export type RAGStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; context_used?: string; documents_retrieved?: number; processing_time?: number; search_type?: string }
+  | { type: 'error'; error: string };
+
+export interface RAGStreamHandlers {
+  onToken: (token: string) => void;
+}
+
+export interface SourceCitation {
+  index: number;       // 1-based citation number shown in the UI
+  file_name: string | null;  // null when the passage has no source header; shown as "Unknown source"
+  content: string;     // Retrieved passage text
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  parentId?: string | null;  // Previous message in the conversation tree (null for the first message)
   metadata?: {
     documents_retrieved?: number;
     processing_time?: number;
     search_type?: string;
+    interrupted?: boolean;  // Stream was stopped before the answer completed
+    sources?: SourceCitation[];  // Passages parsed from RAGResponse.context_used
   };
 }
 
 export interface ChatSession {
   id: string;
   name: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[];  // Every message of every branch, in creation order
+  activeBranches?: Record<string, string>;  // Parent id (or ROOT_BRANCH_KEY) -> selected child id
   createdAt: Date;
   updatedAt: Date;
   settings: {
     model: string;
     temperature: number;
-    search_type: 'hybrid' | 'semantic' | 'keyword';
+    search_type?: 'hybrid' | 'semantic' | 'keyword';  // Unset to follow the server default
+    selected_documents?: string[];  // File names the RAG queries of this session are scoped to
   };
 }
 
@@ -55,16 +78,105 @@ export interface Document {
   content?: string;
 }
 
+export interface HealthResponse {
+  status: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface RAGStatus {
+  status: string;
+  persist_directory: string;
+  embedding_model: string;
+  llm_model: string;
+  search_type?: string; // Server default search type, reported by newer backends
+  timestamp: string;
+}
+
+// A file in the knowledge base as reported by the backend
+export interface DocumentFileInfo {
+  file_name: string;
+  uploaded_at: string;
+  content_type: string;
+  total_chunks: number;
+  sessions: string[];
+}
+
+// Knowledge base files grouped by the upload session (`rag_session_id`) they were sent with
+export interface UploadSessionGroup {
+  sessionId: string;
+  files: DocumentFileInfo[];
+  totalChunks: number; // across the session's files; a file uploaded in several sessions counts in each
+  firstUploadedAt: Date | null;
+  lastUploadedAt: Date | null;
+}
+
+export type DocumentSort = 'name-asc' | 'name-desc' | 'date-desc' | 'date-asc' | 'chunks-desc' | 'chunks-asc';
+
+export interface DocumentFilters {
+  query: string;
+  contentType: string; // '' for all types
+  uploadedFrom: string; // yyyy-MM-dd, '' for no lower bound
+  uploadedTo: string;
+  sort: DocumentSort;
+}
+
+// A user-defined, locally stored group of knowledge base files
+export interface DocumentCollection {
+  id: string;
+  name: string;
+  fileNames: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DocumentChunk {
+  chunk_index: number;
+  content: string;
+  metadata?: Record<string, unknown>; // loader metadata such as the source page
+}
+
+export interface DocumentChunksResponse {
+  file_name: string;
+  total_chunks: number; // chunks matching the query, across all pages
+  page: number;
+  page_size: number;
+  chunks: DocumentChunk[];
+}
+
+export interface LicenseInfo {
+  valid: boolean;
+  holder?: string;
+  tier?: string;
+  expires_at?: string | null; // ISO date, null for perpetual licenses
+}
+
+export type ShortcutAction =
+  | 'command_palette'
+  | 'show_shortcuts'
+  | 'new_session'
+  | 'focus_input'
+  | 'toggle_document_selector'
+  | 'next_session'
+  | 'previous_session';
+
+// Key combinations such as "Mod+K" or "Alt+ArrowDown"; Mod is Cmd on macOS and Ctrl elsewhere.
+// An empty string means the action has no shortcut.
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export type Language = 'en' | 'ar' | 'ur';
+
 export interface ModelOption {
   value: string;
-  label: string;
-  description: string;
+  label: string; // product name, not translated
+  description: MessageKey;
 }
 
 export interface SearchTypeOption {
   value: 'hybrid' | 'semantic' | 'keyword';
-  label: string;
-  description: string;
+  label: MessageKey;
+  shortLabel: MessageKey; // for compact places such as the session list
+  description: MessageKey;
 }
 
 export interface TemperatureSliderProps {
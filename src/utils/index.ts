@@ -1,6 +1,9 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { format, formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow, parseISO, startOfDay, endOfDay } from 'date-fns';
+import { i18nService, t } from '@/services/i18n';
+import { SEARCH_TYPES } from '@/constants';
+import { ChatMessage, ChatSession, SourceCitation, DocumentFileInfo, DocumentFilters, UploadSessionGroup } from '@/types';
 
 // Utility function to merge Tailwind classes
 export function cn(...inputs: ClassValue[]) {
@@ -18,14 +21,20 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-// Format date for display
+// Format date for display, with month and day names in the UI language
 export function formatDate(date: Date, formatStr: string = 'MMM dd, yyyy'): string {
-  return format(date, formatStr);
+  return format(date, formatStr, { locale: i18nService.getDateLocale() });
 }
 
 // Format relative time
 export function formatRelativeTime(date: Date): string {
-  return formatDistanceToNow(date, { addSuffix: true });
+  return formatDistanceToNow(date, { addSuffix: true, locale: i18nService.getDateLocale() });
+}
+
+// Short name of a search type; sessions without one follow the server default
+export function getSearchTypeName(searchType?: string): string {
+  const option = SEARCH_TYPES.find(type => type.value === searchType);
+  return option ? t(option.shortLabel) : searchType || t('searchTypes.serverDefault');
 }
 
 // Generate a unique ID
@@ -72,6 +81,47 @@ export function isValidFileSize(file: File, maxSize: number): boolean {
   return file.size <= maxSize;
 }
 
+// "report.pdf" -> "report (2).pdf", counting up until the name is free
+export function getUniqueFileName(fileName: string, takenNames: Set<string>): string {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  let counter = 2;
+  let candidate = `${base} (${counter})${extension}`;
+  while (takenNames.has(candidate)) {
+    counter++;
+    candidate = `${base} (${counter})${extension}`;
+  }
+  return candidate;
+}
+
+// Fuzzy match: every query character must appear in order. Consecutive characters, word starts
+// and plain substring matches score higher; returns null when the text does not match
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_./:()]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+
+  if (haystack.includes(query.trim().toLowerCase())) score += needle.length * 2;
+  // Prefer shorter texts among equal matches
+  return score - haystack.length / 100;
+}
+
 // Truncate text
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -115,23 +165,233 @@ export function deepClone<T>(obj: T): T {
   return obj;
 }
 
+// Shallow copy of an object without the given keys
+export function omit<T extends object, K extends keyof T>(obj: T, keys: K[]): Omit<T, K> {
+  const copy = { ...obj };
+  keys.forEach(key => Reflect.deleteProperty(copy, key));
+  return copy;
+}
+
+// Trigger a browser download for generated content
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+// Turn free text into a safe file name fragment
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'untitled';
+}
+
+// Escape text for interpolation into HTML markup
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Sleep function for async operations
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// Rejects with an AbortError as soon as the signal fires, like fetch does
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal | null; // cancels the wait between attempts
+  minDelay?: (error: unknown) => number; // ms, e.g. a server's Retry-After
 }
 
 // Retry function with exponential backoff
 export async function retry<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  delay: number = 1000
+  delay: number = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true,
+  options: RetryOptions = {}
 ): Promise<T> {
   try {
     return await fn();
   } catch (error) {
-    if (maxRetries <= 0) throw error;
+    if (maxRetries <= 0 || !shouldRetry(error)) throw error;
     
-    await sleep(delay);
-    return retry(fn, maxRetries - 1, delay * 2);
+    await sleep(Math.max(delay, options.minDelay?.(error) ?? 0), options.signal);
+    return retry(fn, maxRetries - 1, delay * 2, shouldRetry, options);
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Matches a source header such as "[Source: file.pdf]", "Source: file.pdf" or "Document 1 (file.pdf):"
+const SOURCE_HEADER = /^\s*\[?(?:source|document|file)\s*#?\d*\s*(?:\(([^)\n]+)\)|[:-]\s*([^\]\n]+))\]?\s*:?\s*(?:\n|$)/i;
+// Splits on "---"/"===" separator lines or right before the next source header
+const SOURCE_SEPARATOR = /\n\s*(?:-{3,}|={3,})\s*\n|\n+(?=\s*\[?(?:source|document|file)\s*#?\d*\s*(?:\(|[:-]))/i;
+
+// Split the raw context returned by the RAG API into numbered per-source passages
+export function parseContextSources(context?: string): SourceCitation[] {
+  if (!context || !context.trim()) return [];
+
+  return context
+    .split(SOURCE_SEPARATOR)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map((block, i) => {
+      const header = block.match(SOURCE_HEADER);
+      return {
+        index: i + 1,
+        file_name: header ? (header[1] || header[2]).trim() : null,
+        content: header ? block.slice(header[0].length).trim() : block,
+      };
+    });
+}
+
+// Translated at render time so saved messages follow the current language
+export function getSourceName(source: SourceCitation): string {
+  return source.file_name ?? t('sources.unknownSource');
+}
+
+// Key used in ChatSession.activeBranches for messages without a parent
+export const ROOT_BRANCH_KEY = 'root';
+
+const branchKey = (parentId?: string | null) => parentId ?? ROOT_BRANCH_KEY;
+
+// Messages saved before branching existed have no parentId; chain them in timestamp order
+export function normalizeMessageTree<T extends Pick<ChatMessage, 'id' | 'parentId'>>(messages: T[]): T[] {
+  return messages.map((message, i) =>
+    message.parentId === undefined
+      ? { ...message, parentId: i > 0 ? messages[i - 1].id : null }
+      : message
+  );
+}
+
+// Children of a message (or of the root) in creation order
+export function getSiblings(messages: ChatMessage[], parentId?: string | null): ChatMessage[] {
+  return messages.filter(message => branchKey(message.parentId) === branchKey(parentId));
+}
+
+// Follow the selected child at every fork, defaulting to the newest one
+export function getActivePath(session: Pick<ChatSession, 'messages' | 'activeBranches'>): ChatMessage[] {
+  const children = new Map<string, ChatMessage[]>();
+  for (const message of session.messages) {
+    const key = branchKey(message.parentId);
+    children.set(key, [...(children.get(key) || []), message]);
   }
+
+  const path: ChatMessage[] = [];
+  let key = ROOT_BRANCH_KEY;
+  for (;;) {
+    const options = children.get(key);
+    if (!options || options.length === 0) break;
+
+    const selectedId = session.activeBranches?.[key];
+    const next = options.find(message => message.id === selectedId) || options[options.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+}
+
+// Branch selections that make the given message part of the active path
+export function getBranchSelectionsFor(messages: ChatMessage[], messageId: string): Record<string, string> {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const selections: Record<string, string> = {};
+
+  let current = byId.get(messageId);
+  while (current) {
+    selections[branchKey(current.parentId)] = current.id;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return selections;
+}
+
+// Append a message to a session and make it the active child of its parent
+export function appendMessageToSession(session: ChatSession, message: ChatMessage): ChatSession {
+  return {
+    ...session,
+    messages: [...session.messages, message],
+    activeBranches: { ...session.activeBranches, [branchKey(message.parentId)]: message.id },
+    updatedAt: message.timestamp,
+  };
+}
+
+// Apply search, type and upload-date filters to the knowledge base file list, then sort it
+export function filterDocuments(files: DocumentFileInfo[], filters: DocumentFilters): DocumentFileInfo[] {
+  const query = filters.query.trim().toLowerCase();
+  const from = filters.uploadedFrom ? startOfDay(parseISO(filters.uploadedFrom)).getTime() : -Infinity;
+  const to = filters.uploadedTo ? endOfDay(parseISO(filters.uploadedTo)).getTime() : Infinity;
+  const uploadedAt = (file: DocumentFileInfo) => new Date(file.uploaded_at).getTime() || 0;
+
+  const matches = files.filter(file => {
+    if (query && !file.file_name.toLowerCase().includes(query)) return false;
+    if (filters.contentType && file.content_type !== filters.contentType) return false;
+    const time = uploadedAt(file);
+    return time >= from && time <= to;
+  });
+
+  const [key, direction] = filters.sort.split('-') as ['name' | 'date' | 'chunks', 'asc' | 'desc'];
+  const compare = (a: DocumentFileInfo, b: DocumentFileInfo): number => {
+    switch (key) {
+      case 'name':
+        return a.file_name.localeCompare(b.file_name, undefined, { numeric: true, sensitivity: 'base' });
+      case 'date':
+        return uploadedAt(a) - uploadedAt(b);
+      case 'chunks':
+        return a.total_chunks - b.total_chunks;
+    }
+  };
+
+  return matches.sort((a, b) => direction === 'asc' ? compare(a, b) : compare(b, a));
+}
+
+// Group files by upload session, most recently used session first
+export function groupDocumentsBySession(files: DocumentFileInfo[]): UploadSessionGroup[] {
+  const groups = new Map<string, UploadSessionGroup>();
+
+  for (const file of files) {
+    const uploadedAt = new Date(file.uploaded_at);
+    const time = isNaN(uploadedAt.getTime()) ? null : uploadedAt;
+
+    for (const sessionId of file.sessions) {
+      let group = groups.get(sessionId);
+      if (!group) {
+        group = { sessionId, files: [], totalChunks: 0, firstUploadedAt: null, lastUploadedAt: null };
+        groups.set(sessionId, group);
+      }
+
+      group.files.push(file);
+      group.totalChunks += file.total_chunks;
+      if (time && (!group.firstUploadedAt || time < group.firstUploadedAt)) group.firstUploadedAt = time;
+      if (time && (!group.lastUploadedAt || time > group.lastUploadedAt)) group.lastUploadedAt = time;
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    (b.lastUploadedAt?.getTime() ?? 0) - (a.lastUploadedAt?.getTime() ?? 0)
+  );
 }
@@ -1,36 +1,108 @@
+import defaultColors from 'tailwindcss/colors'
+
+const primary = {
+  50: '#eff6ff',
+  100: '#dbeafe',
+  200: '#bfdbfe',
+  300: '#93c5fd',
+  400: '#60a5fa',
+  500: '#3b82f6',
+  600: '#2563eb',
+  700: '#1d4ed8',
+  800: '#1e40af',
+  900: '#1e3a8a',
+}
+
+const gray = {
+  50: '#f9fafb',
+  100: '#f3f4f6',
+  200: '#e5e7eb',
+  300: '#d1d5db',
+  400: '#9ca3af',
+  500: '#6b7280',
+  600: '#4b5563',
+  700: '#374151',
+  800: '#1f2937',
+  900: '#111827',
+}
+
+// Dark theme: the gray scale (and white, used for surfaces and for text on colored buttons) is
+// mirrored so every light/dark pairing in the components keeps its contrast in both themes
+const darkWhite = '#1e2533'
+const darkGray = {
+  50: '#151b26',
+  100: '#283040',
+  200: '#333c4d',
+  300: '#465163',
+  400: '#7b8698',
+  500: '#a0a9b8',
+  600: '#b9c1cd',
+  700: '#d0d6de',
+  800: '#e3e7ed',
+  900: '#f3f5f8',
+}
+
+const accents = {
+  primary,
+  red: defaultColors.red,
+  orange: defaultColors.orange,
+  yellow: defaultColors.yellow,
+  green: defaultColors.green,
+  blue: defaultColors.blue,
+  indigo: defaultColors.indigo,
+  purple: defaultColors.purple,
+}
+
+const SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900]
+
+const toRgb = (hex) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16))
+
+const mix = (hex, base, amount) => {
+  const [a, b] = [toRgb(hex), toRgb(base)]
+  return '#' + a.map((c, i) => Math.round(c * amount + b[i] * (1 - amount)).toString(16).padStart(2, '0')).join('')
+}
+
+// Accent colors run the other way in the dark theme: tinted backgrounds (50-200) become muted
+// dark tints and text shades (600-900) become light
+const darkAccent = (palette) => ({
+  50: mix(palette[900], darkWhite, 0.25),
+  100: mix(palette[900], darkWhite, 0.45),
+  200: mix(palette[800], darkWhite, 0.6),
+  300: palette[700],
+  400: palette[600],
+  500: palette[500],
+  600: palette[400],
+  700: palette[300],
+  800: palette[200],
+  900: palette[100],
+})
+
+const toVars = (white, grays, accentPalettes) => ({
+  '--color-white': toRgb(white).join(' '),
+  ...Object.fromEntries(SHADES.map(shade => [`--color-gray-${shade}`, toRgb(grays[shade]).join(' ')])),
+  ...Object.fromEntries(Object.entries(accentPalettes).flatMap(([name, palette]) =>
+    SHADES.map(shade => [`--color-${name}-${shade}`, toRgb(palette[shade]).join(' ')])
+  )),
+})
+
+const themed = (name) => Object.fromEntries(SHADES.map(shade => [shade, `rgb(var(--color-${name}-${shade}) / <alpha-value>)`]))
+
 /** @type {import('tailwindcss').Config} */
 export default {
   content: [
     "./index.html",
     "./src/**/*.{js,ts,jsx,tsx}",
   ],
+  darkMode: 'class',
   theme: {
     extend: {
       colors: {
-        primary: {
-          50: '#eff6ff',
-          100: '#dbeafe',
-          200: '#bfdbfe',
-          300: '#93c5fd',
-          400: '#60a5fa',
-          500: '#3b82f6',
-          600: '#2563eb',
-          700: '#1d4ed8',
-          800: '#1e40af',
-          900: '#1e3a8a',
-        },
-        gray: {
-          50: '#f9fafb',
-          100: '#f3f4f6',
-          200: '#e5e7eb',
-          300: '#d1d5db',
-          400: '#9ca3af',
-          500: '#6b7280',
-          600: '#4b5563',
-          700: '#374151',
-          800: '#1f2937',
-          900: '#111827',
-        },
+        white: 'rgb(var(--color-white) / <alpha-value>)',
+        gray: themed('gray'),
+        ...Object.fromEntries(Object.keys(accents).map(name => [name, themed(name)])),
+      },
+      ringOffsetColor: {
+        DEFAULT: 'rgb(var(--color-white))',
       },
       animation: {
         'slide-up': 'slideUp 0.3s ease-out',
@@ -48,5 +120,15 @@ export default {
       },
     },
   },
-  plugins: [],
+  plugins: [
+    ({ addBase }) => addBase({
+      ':root': { ...toVars('#ffffff', gray, accents), colorScheme: 'light' },
+      '.dark': {
+        ...toVars(darkWhite, darkGray, Object.fromEntries(
+          Object.entries(accents).map(([name, palette]) => [name, darkAccent(palette)])
+        )),
+        colorScheme: 'dark',
+      },
+    }),
+  ],
 }